@@ -3,79 +3,88 @@
  * @format
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect } from 'react';
 import { StatusBar, StyleSheet, View } from 'react-native';
-import {
-  SafeAreaProvider,
-} from 'react-native-safe-area-context';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { LoginPage } from './src/screens/LoginPage';
 import { HomeScreen } from './src/screens/HomeScreen';
+import { EntityDetailsScreen } from './src/screens/EntityDetailsScreen';
+import { ScanHistoryScreen } from './src/screens/ScanHistoryScreen';
+import { ExpiryDashboardScreen } from './src/screens/ExpiryDashboardScreen';
+import { TemperatureLogScreen } from './src/screens/TemperatureLogScreen';
+import { TemperatureHistoryScreen } from './src/screens/TemperatureHistoryScreen';
 import { serviceContainer } from './src/services/ServiceContainer';
+import { AuthProvider, useSession } from './src/context/AuthContext';
+import { ScreenMap, StackNavigator } from './src/navigation/StackNavigator';
+import { DeepLinkHandler } from './src/navigation/DeepLinkHandler';
+
+const authService = serviceContainer.getAuthService();
+const qrKeyStore = serviceContainer.getQrKeyStore();
+const productLotService = serviceContainer.getProductLotService();
+const temperatureLogService = serviceContainer.getTemperatureLogService();
+const photoService = serviceContainer.getPhotoService();
+const outboxService = serviceContainer.getOutboxService();
 
 /**
- * Navigation state type
+ * Screen rendered for each route
  */
-type NavigationState = 'login' | 'home' | 'splash';
+const screens: ScreenMap = {
+  Login: LoginPage,
+  Home: HomeScreen,
+  EntityDetails: EntityDetailsScreen,
+  ScanHistory: ScanHistoryScreen,
+  ExpiryDashboard: ExpiryDashboardScreen,
+  TemperatureLog: TemperatureLogScreen,
+  TemperatureHistory: TemperatureHistoryScreen,
+};
 
-function App() {
-  const [navigationState, setNavigationState] = useState<NavigationState>('splash');
-  const authService = serviceContainer.getAuthService();
+/**
+ * Shows the splash until the session is restored, then the navigator
+ */
+function AppContent() {
+  const { isAuthenticated, isReady } = useSession();
 
   /**
-   * Check authentication status on app launch
+   * Fetch new QR signing keys, sync product lots, upload temperature
+   * readings and photos and replay offline writes while online and signed in
    */
   useEffect(() => {
-    const initializeApp = async () => {
-      try {
-        const isAuthenticated = await authService.isAuthenticated();
-        setNavigationState(isAuthenticated ? 'home' : 'login');
-      } catch {
-        setNavigationState('login');
-      }
-    };
-
-    initializeApp();
-  }, []);
+    if (isAuthenticated) {
+      qrKeyStore.sync().catch(() => undefined);
+      productLotService.sync().catch(() => undefined);
+      temperatureLogService.upload().catch(() => undefined);
+      photoService.upload().catch(() => undefined);
+      outboxService.replay().catch(() => undefined);
+    }
+  }, [isAuthenticated]);
 
-  /**
-   * Handle successful login
-   */
-  const handleLoginSuccess = () => {
-    setNavigationState('home');
-  };
+  if (!isReady) {
+    return <View style={styles.splashContainer} />;
+  }
 
-  /**
-   * Handle logout
-   */
-  const handleLogout = () => {
-    authService.logout();
-    setNavigationState('login');
-  };
+  return (
+    <StackNavigator screens={screens} isAuthenticated={isAuthenticated}>
+      <DeepLinkHandler />
+    </StackNavigator>
+  );
+}
 
+function App() {
   /**
-   * Render appropriate screen based on navigation state
+   * Revoke sessions that were logged out while offline and restore synced
+   * QR signing keys
    */
-  const renderScreen = () => {
-    switch (navigationState) {
-      case 'login':
-        return (
-          <LoginPage
-            authService={authService}
-            onLoginSuccess={handleLoginSuccess}
-          />
-        );
-      case 'home':
-        return <HomeScreen onLogout={handleLogout} />;
-      case 'splash':
-      default:
-        return <View style={styles.splashContainer} />;
-    }
-  };
+  useEffect(() => {
+    authService.retryPendingLogouts().catch(() => undefined);
+    qrKeyStore.load().catch(() => undefined);
+  }, []);
 
   return (
     <SafeAreaProvider>
-      <StatusBar barStyle="dark-content" backgroundColor="#fff" />
-      {renderScreen()}
+      <AuthProvider authService={authService}>
+        <StatusBar barStyle="dark-content" backgroundColor="#fff" />
+        <AppContent />
+      </AuthProvider>
     </SafeAreaProvider>
   );
 }
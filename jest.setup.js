@@ -1,4 +1,26 @@
+/* eslint-env jest */
 import mockAsyncStorage from '@react-native-async-storage/async-storage/jest/async-storage-mock';
 
 // Mock AsyncStorage globally for Jest environment
 jest.mock('@react-native-async-storage/async-storage', () => mockAsyncStorage);
+
+// Vision Camera needs its native module; render without a camera in tests
+jest.mock('react-native-vision-camera', () => ({
+  Camera: () => null,
+  useCameraDevice: () => undefined,
+  useCameraPermission: () => ({
+    hasPermission: false,
+    requestPermission: jest.fn(() => Promise.resolve(false)),
+  }),
+  useCodeScanner: scanner => scanner,
+}));
+
+// Photo files need native modules; nothing is written in tests
+jest.mock('@bam.tech/react-native-image-resizer', () => ({
+  createResizedImage: jest.fn(),
+}));
+jest.mock('@dr.pogodin/react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  mkdir: jest.fn(() => Promise.resolve()),
+  unlink: jest.fn(() => Promise.resolve()),
+}));
@@ -0,0 +1,230 @@
+/**
+ * Batch Count Panel
+ * @file Running list of a count in progress, shown under the scanner
+ */
+
+import React from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ENTITY_LABELS } from '../screens/EntityDetailsScreen';
+import { getProductLabel } from './productLabel';
+import { ApiError } from '../types/api.types';
+import { BatchCount, BatchCountItem } from '../types/batchCount.types';
+
+interface BatchCountPanelProps {
+  count: BatchCount;
+  isSubmitting: boolean;
+  error: ApiError | null;
+  onSetQuantity: (key: string, quantity: number) => void;
+  onUndo: () => void;
+  onSubmit: () => void;
+  onDiscard: () => void;
+}
+
+const getItemLabel = (item: BatchCountItem): string => {
+  if (item.entity) {
+    return `${ENTITY_LABELS[item.entity.type]} ${item.entity.id}`;
+  }
+  return item.product ? getProductLabel(item.product) : item.rawValue;
+};
+
+export const BatchCountPanel: React.FC<BatchCountPanelProps> = ({
+  count,
+  isSubmitting,
+  error,
+  onSetQuantity,
+  onUndo,
+  onSubmit,
+  onDiscard,
+}) => {
+  const totalQuantity = count.items.reduce(
+    (sum, item) => sum + item.quantity,
+    0,
+  );
+
+  const renderItem = ({ item }: { item: BatchCountItem }) => (
+    <View style={styles.item}>
+      <Text style={styles.itemLabel} numberOfLines={1}>
+        {getItemLabel(item)}
+      </Text>
+      <TouchableOpacity
+        style={styles.stepper}
+        onPress={() => onSetQuantity(item.key, item.quantity - 1)}
+        accessibilityLabel={`Decrease ${getItemLabel(item)}`}
+      >
+        <Text style={styles.stepperText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.quantity}>{item.quantity}</Text>
+      <TouchableOpacity
+        style={styles.stepper}
+        onPress={() => onSetQuantity(item.key, item.quantity + 1)}
+        accessibilityLabel={`Increase ${getItemLabel(item)}`}
+      >
+        <Text style={styles.stepperText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>
+          {count.items.length} items · {totalQuantity} units
+        </Text>
+        <TouchableOpacity
+          onPress={onUndo}
+          disabled={count.scanKeys.length === 0}
+        >
+          <Text
+            style={[
+              styles.linkText,
+              count.scanKeys.length === 0 && styles.linkTextDisabled,
+            ]}
+          >
+            Undo last scan
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        style={styles.list}
+        data={count.items}
+        keyExtractor={item => item.key}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Scan items to start counting</Text>
+        }
+      />
+
+      {error && <Text style={styles.errorText}>{error.message}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={styles.discardButton}
+          onPress={onDiscard}
+          disabled={isSubmitting}
+        >
+          <Text style={styles.buttonText}>Discard</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.submitButton,
+            (isSubmitting || count.items.length === 0) && styles.buttonDisabled,
+          ]}
+          onPress={onSubmit}
+          disabled={isSubmitting || count.items.length === 0}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Submit count</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 24,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  summaryText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#0A84FF',
+    fontSize: 14,
+  },
+  linkTextDisabled: {
+    color: '#555',
+  },
+  list: {
+    flex: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#333',
+  },
+  itemLabel: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    marginRight: 8,
+  },
+  stepper: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  quantity: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+    minWidth: 44,
+    textAlign: 'center',
+  },
+  emptyText: {
+    color: '#ccc',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  errorText: {
+    color: '#FF453A',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 16,
+  },
+  discardButton: {
+    flex: 1,
+    backgroundColor: '#FF3B30',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  submitButton: {
+    flex: 2,
+    backgroundColor: '#34C759',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
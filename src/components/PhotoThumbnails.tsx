@@ -0,0 +1,71 @@
+/**
+ * Photo Thumbnails
+ * @file Row of photo evidence taken on the scanner, with upload state
+ */
+
+import React from 'react';
+import { Image, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { PhotoAttachment } from '../types/photo.types';
+
+interface PhotoThumbnailsProps {
+  photos: PhotoAttachment[];
+}
+
+/**
+ * Side of each thumbnail, in dp
+ */
+const THUMBNAIL_SIZE = 72;
+
+export const PhotoThumbnails: React.FC<PhotoThumbnailsProps> = ({ photos }) => {
+  if (photos.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      {photos.map(photo => (
+        <View key={photo.id} style={styles.thumbnail}>
+          <Image source={{ uri: photo.thumbnailUri }} style={styles.image} />
+          {!photo.uploaded && (
+            <Text style={styles.pendingBadge}>Not uploaded</Text>
+          )}
+        </View>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  content: {
+    gap: 8,
+  },
+  thumbnail: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: '#eee',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  pendingBadge: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingVertical: 2,
+    fontSize: 10,
+    color: '#fff',
+    textAlign: 'center',
+    backgroundColor: 'rgba(255, 149, 0, 0.85)',
+  },
+});
@@ -0,0 +1,19 @@
+/**
+ * Product Label - Short description of a supplier barcode
+ * @file Shared by the scanner, batch count and history lists
+ */
+
+import { Gs1Product } from '../types/gs1.types';
+
+/**
+ * e.g. `GTIN 03012345678900 · Lot ABC12 · Exp 2026-02-28`
+ */
+export const getProductLabel = (product: Gs1Product): string =>
+  [
+    product.gtin ? `GTIN ${product.gtin}` : `SSCC ${product.sscc ?? '?'}`,
+    product.lot && `Lot ${product.lot}`,
+    product.expiry && `Exp ${product.expiry}`,
+    !product.expiry && product.bestBefore && `BBE ${product.bestBefore}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
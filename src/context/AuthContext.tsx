@@ -0,0 +1,261 @@
+/**
+ * Auth Context - App-wide session state
+ * @file Shares a single AuthState built on AuthService with every screen
+ * Consumers are updated on login, logout, token refresh and session expiry
+ */
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { AuthService } from '../services/AuthService';
+import {
+  AuthError,
+  AuthSession,
+  AuthState,
+  RestoredSession,
+} from '../types/auth.types';
+
+/**
+ * Value exposed by useSession
+ */
+export interface SessionContextValue extends AuthState {
+  /** False until the persisted session has been restored on launch */
+  isReady: boolean;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  restoreSession: () => Promise<void>;
+}
+
+/**
+ * State of a signed-out user
+ */
+const LOGGED_OUT_STATE: AuthState = {
+  user: null,
+  roles: [],
+  expiresAt: null,
+  isLoading: false,
+  error: null,
+  isAuthenticated: false,
+};
+
+/**
+ * Longest delay accepted by setTimeout (~24.8 days)
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Delay before renewing again a session that could not be renewed offline
+ */
+const SESSION_RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Build the UI state of a validated session
+ */
+const toAuthState = (session: AuthSession | null): AuthState =>
+  session
+    ? {
+        user: session.user,
+        roles: session.user?.roles ?? [],
+        expiresAt: session.expiresAt,
+        isLoading: false,
+        error: null,
+        isAuthenticated: true,
+      }
+    : LOGGED_OUT_STATE;
+
+/**
+ * Build the UI state of a restored session; a session that could not be
+ * renewed offline stays signed in with its stored user
+ */
+const toRestoredState = (restored: RestoredSession): AuthState => {
+  switch (restored.status) {
+    case 'restored':
+      return toAuthState(restored.session);
+    case 'offline':
+      return {
+        user: restored.user,
+        roles: restored.user?.roles ?? [],
+        expiresAt: null,
+        isLoading: false,
+        error: null,
+        isAuthenticated: true,
+      };
+    case 'signedOut':
+      return LOGGED_OUT_STATE;
+  }
+};
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+interface AuthProviderProps {
+  authService: AuthService;
+  children: React.ReactNode;
+}
+
+/**
+ * Owns the session state for the whole app
+ * Rehydrates the persisted session on mount, then follows AuthService events
+ */
+export const AuthProvider: React.FC<AuthProviderProps> = ({
+  authService,
+  children,
+}) => {
+  const [authState, setAuthState] = useState<AuthState>({
+    ...LOGGED_OUT_STATE,
+    isLoading: true,
+  });
+  const [isReady, setIsReady] = useState(false);
+  /** When to renew again a session that could not be renewed offline */
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+
+  /**
+   * Rehydrate user, token and roles persisted on the device
+   */
+  const restoreSession = useCallback(async () => {
+    try {
+      const restored = await authService.restoreSession();
+      setAuthState(toRestoredState(restored));
+      setRetryAt(
+        restored.status === 'offline'
+          ? Date.now() +
+              Math.max(SESSION_RETRY_DELAY_MS, restored.retryAfterMs ?? 0)
+          : null,
+      );
+    } catch {
+      setAuthState(LOGGED_OUT_STATE);
+      setRetryAt(null);
+    } finally {
+      setIsReady(true);
+    }
+  }, [authService]);
+
+  /**
+   * Initialize auth state on mount
+   */
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
+
+  /**
+   * Follow session changes made anywhere in the app
+   */
+  useEffect(() => {
+    return authService.subscribe(event => {
+      switch (event.type) {
+        case 'login':
+        case 'refresh':
+          setRetryAt(null);
+          authService
+            .getSession()
+            .then(session => setAuthState(toAuthState(session)))
+            .catch(() => setAuthState(LOGGED_OUT_STATE));
+          break;
+        case 'logout':
+        case 'sessionExpired':
+          setRetryAt(null);
+          setAuthState(LOGGED_OUT_STATE);
+          break;
+      }
+    });
+  }, [authService]);
+
+  /**
+   * Renew or end the session when its token expires
+   */
+  useEffect(() => {
+    if (authState.expiresAt === null) {
+      return;
+    }
+
+    const delay = Math.min(
+      Math.max(0, authState.expiresAt - Date.now()),
+      MAX_TIMER_DELAY_MS,
+    );
+    const timeoutId = setTimeout(restoreSession, delay);
+    return () => clearTimeout(timeoutId);
+  }, [authState.expiresAt, restoreSession]);
+
+  /**
+   * Retry renewing a session that could not be renewed offline
+   */
+  useEffect(() => {
+    if (retryAt === null) {
+      return;
+    }
+
+    const timeoutId = setTimeout(
+      restoreSession,
+      Math.min(Math.max(0, retryAt - Date.now()), MAX_TIMER_DELAY_MS),
+    );
+    return () => clearTimeout(timeoutId);
+  }, [retryAt, restoreSession]);
+
+  /**
+   * Login handler
+   */
+  const login = useCallback(
+    async (email: string, password: string) => {
+      setAuthState(prev => ({ ...prev, isLoading: true, error: null }));
+
+      try {
+        // State is updated by the `login` event
+        await authService.login({ email, password });
+      } catch (err) {
+        const error = err as AuthError;
+        setAuthState(prev => ({
+          ...prev,
+          isLoading: false,
+          error,
+        }));
+        throw error;
+      }
+    },
+    [authService],
+  );
+
+  /**
+   * Logout handler
+   */
+  const logout = useCallback(async () => {
+    setAuthState(prev => ({ ...prev, isLoading: true }));
+
+    try {
+      // State is reset by the `logout` event
+      await authService.logout();
+    } catch (err) {
+      const error = err as AuthError;
+      setAuthState(prev => ({
+        ...prev,
+        isLoading: false,
+        error,
+      }));
+      throw error;
+    }
+  }, [authService]);
+
+  const value = useMemo<SessionContextValue>(
+    () => ({ ...authState, isReady, login, logout, restoreSession }),
+    [authState, isReady, login, logout, restoreSession],
+  );
+
+  return (
+    <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+  );
+};
+
+/**
+ * Access the shared session state
+ * @throws Error when used outside of AuthProvider
+ */
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,163 @@
+/**
+ * useBatchCount Hook - Inventory count state for the scanner
+ * @file Restores the user's draft, applies scans and edits, saves every
+ * change and submits the finished count
+ */
+
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import {
+  batchCountReducer,
+  createBatchCount,
+  toBatchCountItem,
+} from '../services/scan/batchCount';
+import { BatchCountService } from '../services/scan/BatchCountService';
+import { ApiError, ApiErrorType, isApiError } from '../types/api.types';
+import { BatchCount, BatchCountAction } from '../types/batchCount.types';
+import { ScanResult } from '../types/scan.types';
+
+interface UseBatchCountReturn {
+  /** Count in progress; null outside batch mode */
+  count: BatchCount | null;
+  isSubmitting: boolean;
+  error: ApiError | null;
+  start: () => void;
+  /**
+   * Count a scan
+   * @returns false when the code cannot be counted
+   */
+  addScan: (result: ScanResult) => boolean;
+  setQuantity: (key: string, quantity: number) => void;
+  undoLastScan: () => void;
+  /**
+   * @returns true once the backend accepted the count
+   */
+  submit: () => Promise<boolean>;
+  discard: () => void;
+}
+
+type CountAction =
+  | BatchCountAction
+  | { type: 'load'; count: BatchCount | null }
+  /** Apply a stored draft unless a count was started meanwhile */
+  | { type: 'restore'; count: BatchCount }
+  | { type: 'clear' };
+
+const countReducer = (
+  state: BatchCount | null,
+  action: CountAction,
+): BatchCount | null => {
+  switch (action.type) {
+    case 'load':
+      return action.count;
+    case 'restore':
+      return state ?? action.count;
+    case 'clear':
+      return null;
+    default:
+      return state ? batchCountReducer(state, action) : state;
+  }
+};
+
+/**
+ * Custom hook for batch (inventory count) scanning
+ * @param batchCountService - Draft storage and submission
+ */
+export const useBatchCount = (
+  batchCountService: BatchCountService,
+): UseBatchCountReturn => {
+  const [count, dispatch] = useReducer(countReducer, null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  // Do not save before the stored draft is restored
+  const isRestoredRef = useRef(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    batchCountService
+      .loadDraft()
+      .then(draft => {
+        if (isMounted && draft) {
+          dispatch({ type: 'restore', count: draft });
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        isRestoredRef.current = true;
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [batchCountService]);
+
+  useEffect(() => {
+    if (count && isRestoredRef.current) {
+      batchCountService.saveDraft(count).catch(() => undefined);
+    }
+  }, [batchCountService, count]);
+
+  const start = useCallback(() => {
+    setError(null);
+    dispatch({ type: 'load', count: createBatchCount() });
+  }, []);
+
+  const addScan = useCallback((result: ScanResult) => {
+    const item = toBatchCountItem(result);
+    if (!item) {
+      return false;
+    }
+    dispatch({ type: 'scan', item });
+    return true;
+  }, []);
+
+  const setQuantity = useCallback((key: string, quantity: number) => {
+    dispatch({ type: 'setQuantity', key, quantity });
+  }, []);
+
+  const undoLastScan = useCallback(() => {
+    dispatch({ type: 'undoLastScan' });
+  }, []);
+
+  const submit = useCallback(async () => {
+    if (!count || count.items.length === 0) {
+      return false;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await batchCountService.submit(count);
+      dispatch({ type: 'clear' });
+      return true;
+    } catch (submitError) {
+      setError(
+        isApiError(submitError)
+          ? submitError
+          : {
+              type: ApiErrorType.UNKNOWN,
+              message: 'Failed to submit count',
+            },
+      );
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [batchCountService, count]);
+
+  const discard = useCallback(() => {
+    setError(null);
+    dispatch({ type: 'clear' });
+    batchCountService.discardDraft().catch(() => undefined);
+  }, [batchCountService]);
+
+  return {
+    count,
+    isSubmitting,
+    error,
+    start,
+    addScan,
+    setQuantity,
+    undoLastScan,
+    submit,
+    discard,
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * usePendingSyncCount Hook - Writes waiting in the outbox
+ * @file Number of the signed-in user's changes not sent to the server yet
+ */
+
+import { useEffect, useState } from 'react';
+import { OutboxService } from '../services/outbox/OutboxService';
+
+/**
+ * Custom hook for the pending-sync badge
+ * @param outboxService - Outbox of the signed-in user
+ */
+export const usePendingSyncCount = (outboxService: OutboxService): number => {
+  const [pendingCount, setPendingCount] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+    const unsubscribe = outboxService.subscribe(count => {
+      if (isMounted) {
+        setPendingCount(count);
+      }
+    });
+    outboxService
+      .getPendingCount()
+      .then(count => {
+        if (isMounted) {
+          setPendingCount(count);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, [outboxService]);
+
+  return pendingCount;
+};
@@ -0,0 +1,45 @@
+/**
+ * Deep Link Handler - Routes incoming Linking URLs
+ * @file Opens the link the app was launched with and links received while
+ * running; must be rendered inside StackNavigator
+ */
+
+import { useEffect, useRef } from 'react';
+import { Linking } from 'react-native';
+import { parseDeepLink } from './deepLinks';
+import { Navigation, useNavigation } from './StackNavigator';
+
+export const DeepLinkHandler = (): null => {
+  const navigation = useNavigation();
+  const navigationRef = useRef<Navigation>(navigation);
+
+  useEffect(() => {
+    navigationRef.current = navigation;
+  }, [navigation]);
+
+  useEffect(() => {
+    const openUrl = (url: string | null) => {
+      if (!url) {
+        return;
+      }
+
+      const target = parseDeepLink(url);
+      if (!target) {
+        console.warn('Ignoring unsupported link:', url);
+        return;
+      }
+      navigationRef.current.navigate(target);
+    };
+
+    // Link that launched the app, then links received while running
+    Linking.getInitialURL()
+      .then(openUrl)
+      .catch(() => undefined);
+    const subscription = Linking.addEventListener('url', ({ url }) =>
+      openUrl(url),
+    );
+    return () => subscription.remove();
+  }, []);
+
+  return null;
+};
@@ -0,0 +1,198 @@
+/**
+ * Stack Navigator - In-house typed navigation
+ * @file Renders the top route of the stack, handles Android back and guards
+ * routes that require a session
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+} from 'react';
+import { BackHandler } from 'react-native';
+import {
+  GUEST_ROUTE,
+  HOME_ROUTE,
+  isPublicRoute,
+  NavigationTarget,
+  Route,
+  RouteArgs,
+  RouteName,
+} from './routes';
+import { createRoute, getCurrentRoute, stackReducer } from './stack';
+
+/**
+ * Navigation actions available to screens
+ */
+export interface Navigation {
+  push<Name extends RouteName>(...args: RouteArgs<Name>): void;
+  replace<Name extends RouteName>(...args: RouteArgs<Name>): void;
+  /** Reset the stack to a single route */
+  reset<Name extends RouteName>(...args: RouteArgs<Name>): void;
+  pop(count?: number): void;
+  canGoBack(): boolean;
+  /**
+   * Open a route from outside the normal flow (deep link, scan)
+   * A guarded target opened without a session is kept and shown after login
+   */
+  navigate(target: NavigationTarget): void;
+}
+
+/**
+ * Component rendered for each route
+ */
+export type ScreenMap = { [Name in RouteName]: React.ComponentType };
+
+interface StackNavigatorProps {
+  screens: ScreenMap;
+  isAuthenticated: boolean;
+  /** Rendered next to the current screen, with access to navigation */
+  children?: React.ReactNode;
+}
+
+const NavigationContext = createContext<Navigation | null>(null);
+const RouteContext = createContext<Route | null>(null);
+
+/**
+ * Stack used when the session changes
+ * A pending target is stacked on top of home so back returns there
+ */
+const initialRoutes = (
+  isAuthenticated: boolean,
+  pendingTarget: NavigationTarget | null = null,
+): Route[] => {
+  if (!isAuthenticated) {
+    return [createRoute(GUEST_ROUTE)];
+  }
+
+  const home = createRoute(HOME_ROUTE);
+  return pendingTarget
+    ? [home, createRoute(pendingTarget.name, pendingTarget.params)]
+    : [home];
+};
+
+/**
+ * Guest route rendered in place of a guarded one, keyed after it
+ */
+const createGuestRoute = (key: string): Route => ({
+  key: `${key}-guest`,
+  name: GUEST_ROUTE,
+  params: undefined,
+});
+
+export const StackNavigator: React.FC<StackNavigatorProps> = ({
+  screens,
+  isAuthenticated,
+  children,
+}) => {
+  const [state, dispatch] = useReducer(
+    stackReducer,
+    isAuthenticated,
+    authenticated => ({ routes: initialRoutes(authenticated) }),
+  );
+  const stackDepth = state.routes.length;
+  const wasAuthenticated = useRef(isAuthenticated);
+  const pendingTarget = useRef<NavigationTarget | null>(null);
+
+  /**
+   * Start a fresh stack on login and logout
+   */
+  useEffect(() => {
+    if (wasAuthenticated.current !== isAuthenticated) {
+      wasAuthenticated.current = isAuthenticated;
+      const routes = initialRoutes(isAuthenticated, pendingTarget.current);
+      if (isAuthenticated) {
+        pendingTarget.current = null;
+      }
+      dispatch({ type: 'reset', routes });
+    }
+  }, [isAuthenticated]);
+
+  /**
+   * Android hardware back pops the stack, or leaves the app at its root
+   */
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener(
+      'hardwareBackPress',
+      () => {
+        if (stackDepth <= 1) {
+          return false;
+        }
+        dispatch({ type: 'pop' });
+        return true;
+      },
+    );
+    return () => subscription.remove();
+  }, [stackDepth]);
+
+  const navigation = useMemo<Navigation>(
+    () => ({
+      push: (...args) => {
+        dispatch({ type: 'push', route: createRoute(args[0], args[1]) });
+      },
+      replace: (...args) => {
+        dispatch({ type: 'replace', route: createRoute(args[0], args[1]) });
+      },
+      reset: (...args) => {
+        dispatch({ type: 'reset', routes: [createRoute(args[0], args[1])] });
+      },
+      pop: count => dispatch({ type: 'pop', count }),
+      canGoBack: () => stackDepth > 1,
+      navigate: target => {
+        if (!isAuthenticated && !isPublicRoute(target.name)) {
+          pendingTarget.current = target;
+          return;
+        }
+        dispatch({
+          type: 'push',
+          route: createRoute(target.name, target.params),
+        });
+      },
+    }),
+    [isAuthenticated, stackDepth],
+  );
+
+  const currentRoute = getCurrentRoute(state);
+  // Auth guard: a protected route is never shown without a session
+  const route =
+    isAuthenticated || isPublicRoute(currentRoute.name)
+      ? currentRoute
+      : createGuestRoute(currentRoute.key);
+  const Screen = screens[route.name];
+
+  return (
+    <NavigationContext.Provider value={navigation}>
+      <RouteContext.Provider value={route}>
+        <Screen key={route.key} />
+        {children}
+      </RouteContext.Provider>
+    </NavigationContext.Provider>
+  );
+};
+
+/**
+ * Access navigation actions from a screen
+ * @throws Error when used outside of StackNavigator
+ */
+export const useNavigation = (): Navigation => {
+  const navigation = useContext(NavigationContext);
+  if (!navigation) {
+    throw new Error('useNavigation must be used within a StackNavigator');
+  }
+  return navigation;
+};
+
+/**
+ * Access the route of the current screen with its typed params
+ * @throws Error when used outside of StackNavigator
+ */
+export const useRoute = <Name extends RouteName>(): Route<Name> => {
+  const route = useContext(RouteContext);
+  if (!route) {
+    throw new Error('useRoute must be used within a StackNavigator');
+  }
+  return route as Route<Name>;
+};
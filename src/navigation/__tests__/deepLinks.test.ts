@@ -0,0 +1,71 @@
+/**
+ * Deep Links Tests
+ * @file Unit tests for mapping app links to routes
+ */
+
+import { getScanTarget, parseDeepLink } from '../deepLinks';
+
+describe('parseDeepLink', () => {
+  it('should parse a custom scheme order link', () => {
+    expect(parseDeepLink('keytchens://orders/ORD-42')).toEqual({
+      name: 'EntityDetails',
+      params: { type: 'order', id: 'ORD-42' },
+    });
+  });
+
+  it('should parse an https equipment link with site', () => {
+    expect(
+      parseDeepLink('https://app.keytchens.com/equipment/fridge_2?site=PAR1'),
+    ).toEqual({
+      name: 'EntityDetails',
+      params: { type: 'equipment', id: 'fridge_2', site: 'PAR1' },
+    });
+  });
+
+  it('should accept a trailing slash and mixed-case section', () => {
+    expect(parseDeepLink('keytchens://Lots/L123/')).toEqual({
+      name: 'EntityDetails',
+      params: { type: 'lot', id: 'L123' },
+    });
+  });
+
+  it('should reject links from other hosts', () => {
+    expect(parseDeepLink('https://evil.example.com/orders/42')).toBeNull();
+  });
+
+  it('should reject plain http links', () => {
+    expect(parseDeepLink('http://app.keytchens.com/orders/42')).toBeNull();
+  });
+
+  it('should reject unknown sections', () => {
+    expect(parseDeepLink('keytchens://constructor/42')).toBeNull();
+  });
+
+  it('should reject invalid ids', () => {
+    expect(parseDeepLink('keytchens://orders/..%2Fadmin')).toBeNull();
+    expect(parseDeepLink('keytchens://orders/%E0%A4%A')).toBeNull();
+  });
+
+  it('should reject links with extra segments', () => {
+    expect(parseDeepLink('keytchens://orders/42/items')).toBeNull();
+  });
+
+  it('should reject an invalid site', () => {
+    expect(parseDeepLink('keytchens://orders/42?site=a%20b')).toBeNull();
+  });
+
+  it('should reject non-URL strings', () => {
+    expect(parseDeepLink('ORD-42')).toBeNull();
+  });
+});
+
+describe('getScanTarget', () => {
+  it('should open the temperature form of scanned equipment', () => {
+    const equipment = { type: 'equipment' as const, id: 'fridge-2' };
+
+    expect(getScanTarget(equipment)).toEqual({
+      name: 'TemperatureLog',
+      params: equipment,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Navigation Stack Tests
+ * @file Unit tests for the stack reducer behind StackNavigator
+ */
+
+import {
+  createRoute,
+  getCurrentRoute,
+  StackState,
+  stackReducer,
+} from '../stack';
+
+describe('stackReducer', () => {
+  let state: StackState;
+
+  beforeEach(() => {
+    state = { routes: [createRoute('Home')] };
+  });
+
+  it('should give every route a unique key', () => {
+    expect(createRoute('Home').key).not.toBe(createRoute('Home').key);
+  });
+
+  it('should push a route on top of the stack', () => {
+    const next = stackReducer(state, {
+      type: 'push',
+      route: createRoute('Login'),
+    });
+
+    expect(next.routes).toHaveLength(2);
+    expect(getCurrentRoute(next).name).toBe('Login');
+  });
+
+  it('should pop the top route', () => {
+    const pushed = stackReducer(state, {
+      type: 'push',
+      route: createRoute('Login'),
+    });
+
+    const next = stackReducer(pushed, { type: 'pop' });
+
+    expect(next.routes).toEqual(state.routes);
+  });
+
+  it('should never pop the root route', () => {
+    const next = stackReducer(state, { type: 'pop', count: 3 });
+
+    expect(next).toBe(state);
+  });
+
+  it('should replace the top route', () => {
+    const next = stackReducer(state, {
+      type: 'replace',
+      route: createRoute('Login'),
+    });
+
+    expect(next.routes).toHaveLength(1);
+    expect(getCurrentRoute(next).name).toBe('Login');
+  });
+
+  it('should reset the stack', () => {
+    const pushed = stackReducer(state, {
+      type: 'push',
+      route: createRoute('Login'),
+    });
+    const root = createRoute('Home');
+
+    const next = stackReducer(pushed, { type: 'reset', routes: [root] });
+
+    expect(next.routes).toEqual([root]);
+  });
+
+  it('should ignore a reset to an empty stack', () => {
+    const next = stackReducer(state, { type: 'reset', routes: [] });
+
+    expect(next).toBe(state);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Deep Links - URL to route mapping
+ * @file Parses keytchens:// and https links (opened or scanned) into routes
+ * with validated params
+ */
+
+import { EntityRef, EntityType } from '../types/entity.types';
+import { NavigationTarget } from './routes';
+
+/**
+ * Custom scheme registered by the app
+ */
+export const DEEP_LINK_SCHEME = 'keytchens';
+
+/**
+ * Web hosts whose links open in the app
+ */
+export const DEEP_LINK_HOSTS: readonly string[] = ['app.keytchens.com'];
+
+/**
+ * First path segment of a link for each entity type
+ */
+const ENTITY_PATHS: Record<string, EntityType> = {
+  orders: 'order',
+  equipment: 'equipment',
+  locations: 'location',
+  lots: 'lot',
+};
+
+/**
+ * Accepted entity and site ids, shared with QR payloads
+ */
+export const ENTITY_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * scheme://authority/path?query#fragment
+ * RN's URL polyfill does not expose pathname, so links are split manually
+ */
+const URL_PATTERN =
+  /^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)([^?#]*)(?:\?([^#]*))?(?:#.*)?$/i;
+
+const safeDecode = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read a single query parameter
+ */
+const getQueryParam = (query: string, name: string): string | null => {
+  for (const pair of query.split('&')) {
+    const [key, value = ''] = pair.split('=');
+    if (safeDecode(key) === name) {
+      return safeDecode(value.replace(/\+/g, ' '));
+    }
+  }
+  return null;
+};
+
+/**
+ * Map a link to the route it opens
+ * Supported: `keytchens://orders/{id}` and `https://app.keytchens.com/orders/{id}`,
+ * likewise for `equipment`, `locations` and `lots`, with an optional `?site=`
+ * @returns The target route, or null when the link is not an app link or its
+ * params are invalid
+ */
+export const parseDeepLink = (url: string): NavigationTarget | null => {
+  const match = URL_PATTERN.exec(url.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, scheme, authority, path, query = ''] = match;
+  let rawSegments: string[];
+
+  if (scheme.toLowerCase() === DEEP_LINK_SCHEME) {
+    // keytchens://orders/42: the first segment parses as the authority
+    rawSegments = [authority, ...path.split('/')];
+  } else if (
+    scheme.toLowerCase() === 'https' &&
+    DEEP_LINK_HOSTS.includes(authority.toLowerCase())
+  ) {
+    rawSegments = path.split('/');
+  } else {
+    return null;
+  }
+
+  const segments = rawSegments
+    .filter(segment => segment.length > 0)
+    .map(safeDecode);
+  if (segments.length !== 2 || segments.includes(null)) {
+    return null;
+  }
+
+  const [rawSection, id] = segments as string[];
+  const section = rawSection.toLowerCase();
+  const type = Object.prototype.hasOwnProperty.call(ENTITY_PATHS, section)
+    ? ENTITY_PATHS[section]
+    : undefined;
+  if (!type || !ENTITY_ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  const site = getQueryParam(query, 'site');
+  if (site !== null && !ENTITY_ID_PATTERN.test(site)) {
+    return null;
+  }
+
+  return {
+    name: 'EntityDetails',
+    params: site !== null ? { type, id, site } : { type, id },
+  };
+};
+
+/**
+ * Route opened by a trusted scanned code; equipment codes go straight to the
+ * HACCP temperature form
+ */
+export const getScanTarget = (entity: EntityRef): NavigationTarget =>
+  entity.type === 'equipment'
+    ? { name: 'TemperatureLog', params: entity }
+    : { name: 'EntityDetails', params: entity };
@@ -0,0 +1,63 @@
+/**
+ * Routes - Typed route definitions
+ * @file Single source of truth for screen names and their params
+ */
+
+import { EntityRef } from '../types/entity.types';
+
+/**
+ * Params accepted by each route; `undefined` means the route takes none
+ */
+export type RootStackParamList = {
+  Login: undefined;
+  Home: undefined;
+  EntityDetails: EntityRef;
+  ScanHistory: undefined;
+  ExpiryDashboard: undefined;
+  TemperatureLog: EntityRef;
+  TemperatureHistory: EntityRef;
+};
+
+export type RouteName = keyof RootStackParamList;
+
+/**
+ * A route name with matching params, e.g. the result of parsing a link
+ */
+export type NavigationTarget = {
+  [Name in RouteName]: { name: Name; params: RootStackParamList[Name] };
+}[RouteName];
+
+/**
+ * Entry of the navigation stack
+ */
+export interface Route<Name extends RouteName = RouteName> {
+  key: string;
+  name: Name;
+  params: RootStackParamList[Name];
+}
+
+/**
+ * Arguments of push/replace: params are required only when the route has some
+ */
+export type RouteArgs<Name extends RouteName> =
+  undefined extends RootStackParamList[Name]
+    ? [name: Name, params?: RootStackParamList[Name]]
+    : [name: Name, params: RootStackParamList[Name]];
+
+/**
+ * Routes reachable without a session; every other route is auth-guarded
+ */
+export const PUBLIC_ROUTES: readonly RouteName[] = ['Login'];
+
+/**
+ * Route shown to signed-out users
+ */
+export const GUEST_ROUTE = 'Login' satisfies RouteName;
+
+/**
+ * First route shown after login
+ */
+export const HOME_ROUTE = 'Home' satisfies RouteName;
+
+export const isPublicRoute = (name: RouteName): boolean =>
+  PUBLIC_ROUTES.includes(name);
@@ -0,0 +1,65 @@
+/**
+ * Navigation Stack - Pure stack state management
+ * @file Reducer behind the in-house stack navigator, kept free of React
+ */
+
+import { Route, RouteName, RootStackParamList } from './routes';
+
+export interface StackState {
+  routes: Route[];
+}
+
+export type StackAction =
+  | { type: 'push'; route: Route }
+  | { type: 'pop'; count?: number }
+  | { type: 'replace'; route: Route }
+  | { type: 'reset'; routes: Route[] };
+
+let routeKeyCounter = 0;
+
+/**
+ * Create a stack entry with a unique key
+ */
+export const createRoute = <Name extends RouteName>(
+  name: Name,
+  params?: RootStackParamList[Name],
+): Route<Name> => {
+  routeKeyCounter += 1;
+  return {
+    key: `${name}-${routeKeyCounter}`,
+    name,
+    params: params as RootStackParamList[Name],
+  };
+};
+
+/**
+ * Apply a navigation action; the stack never becomes empty
+ */
+export const stackReducer = (
+  state: StackState,
+  action: StackAction,
+): StackState => {
+  switch (action.type) {
+    case 'push':
+      return { routes: [...state.routes, action.route] };
+    case 'pop': {
+      const count = Math.max(1, action.count ?? 1);
+      const length = Math.max(1, state.routes.length - count);
+      return length === state.routes.length
+        ? state
+        : { routes: state.routes.slice(0, length) };
+    }
+    case 'replace':
+      return { routes: [...state.routes.slice(0, -1), action.route] };
+    case 'reset':
+      return action.routes.length > 0 ? { routes: action.routes } : state;
+    default:
+      return state;
+  }
+};
+
+/**
+ * Route currently displayed
+ */
+export const getCurrentRoute = (state: StackState): Route =>
+  state.routes[state.routes.length - 1];
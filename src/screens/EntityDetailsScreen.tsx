@@ -0,0 +1,383 @@
+/**
+ * Entity Details Screen
+ * @file Shows the kitchen record a link or scan points to, as returned by
+ * the API, with the actions available for its type
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { PhotoThumbnails } from '../components/PhotoThumbnails';
+import { useNavigation, useRoute } from '../navigation/StackNavigator';
+import { serviceContainer } from '../services/ServiceContainer';
+import { ENTITY_ACTIONS, getEntityLoadError } from '../services/EntityService';
+import {
+  EntityAction,
+  EntityDetails,
+  EntityLoadError,
+  EntityType,
+} from '../types/entity.types';
+import { PhotoAttachment } from '../types/photo.types';
+
+/**
+ * Human-readable name of each entity type
+ */
+export const ENTITY_LABELS: Record<EntityType, string> = {
+  order: 'Order',
+  equipment: 'Equipment',
+  location: 'Storage location',
+  lot: 'Ingredient lot',
+};
+
+/**
+ * Title and explanation shown for each failed lookup
+ */
+const LOAD_ERROR_MESSAGES: Record<
+  EntityLoadError,
+  { title: string; message: string }
+> = {
+  notFound: {
+    title: 'Not found',
+    message: 'This code does not match any record. It may have been deleted.',
+  },
+  forbidden: {
+    title: 'Access denied',
+    message: 'Your account cannot view records from this site.',
+  },
+  offline: {
+    title: 'You are offline',
+    message: 'Connect to Wi-Fi or mobile data, then try again.',
+  },
+  unknown: {
+    title: 'Something went wrong',
+    message: 'The record could not be loaded. Please try again.',
+  },
+};
+
+const entityService = serviceContainer.getEntityService();
+const photoService = serviceContainer.getPhotoService();
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'loaded'; details: EntityDetails }
+  | { status: 'error'; error: EntityLoadError };
+
+const formatDate = (value?: string): string | undefined =>
+  value ? new Date(value).toLocaleString() : undefined;
+
+/**
+ * Label/value rows describing an entity
+ */
+const getDetailRows = (
+  details: EntityDetails,
+): Array<[string, string | undefined]> => {
+  switch (details.type) {
+    case 'order':
+      return [
+        ['Reference', details.reference],
+        ['Status', details.status],
+        ['Supplier', details.supplier],
+        ['Expected', formatDate(details.expectedAt)],
+        ...details.lines.map((line): [string, string] => [
+          line.name,
+          `${line.quantity} ${line.unit}`,
+        ]),
+      ];
+    case 'equipment':
+      return [
+        ['Name', details.name],
+        ['Status', details.status],
+        [
+          'Temperature',
+          details.temperatureC !== undefined
+            ? `${details.temperatureC} °C`
+            : undefined,
+        ],
+        ['Last checked', formatDate(details.lastCheckedAt)],
+      ];
+    case 'location':
+      return [
+        ['Name', details.name],
+        ['Storage', details.storageType],
+        ['Last cleaned', formatDate(details.lastCleanedAt)],
+      ];
+    case 'lot':
+      return [
+        ['Product', details.productName],
+        ['Lot number', details.lotNumber],
+        ['Status', details.status],
+        ['Quantity', `${details.quantity} ${details.unit}`],
+        ['Supplier', details.supplier],
+        ['Use by', formatDate(details.expiresAt)],
+      ];
+  }
+};
+
+export const EntityDetailsScreen: React.FC = () => {
+  const { params } = useRoute<'EntityDetails'>();
+  const navigation = useNavigation();
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+  const [runningAction, setRunningAction] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<EntityLoadError | null>(null);
+  const [queuedAction, setQueuedAction] = useState<EntityAction | null>(null);
+  const [photos, setPhotos] = useState<PhotoAttachment[]>([]);
+
+  const load = useCallback(async () => {
+    setState({ status: 'loading' });
+    try {
+      const details = await entityService.getEntity(params);
+      setState({ status: 'loaded', details });
+    } catch (error) {
+      setState({ status: 'error', error: getEntityLoadError(error) });
+    }
+  }, [params]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /**
+   * Photos are read from the device, so they show even when offline
+   */
+  useEffect(() => {
+    photoService
+      .getEntityPhotos(params)
+      .then(setPhotos)
+      .catch(() => undefined);
+  }, [params]);
+
+  const handleAction = async (action: EntityAction) => {
+    setRunningAction(action.id);
+    setActionError(null);
+    setQueuedAction(null);
+    try {
+      const details = await entityService.performAction(params, action);
+      if (details) {
+        setState({ status: 'loaded', details });
+      } else {
+        setQueuedAction(action);
+      }
+    } catch (error) {
+      setActionError(getEntityLoadError(error));
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const renderBody = () => {
+    if (state.status === 'loading') {
+      return <ActivityIndicator style={styles.loader} size="large" />;
+    }
+
+    if (state.status === 'error') {
+      const { title, message } = LOAD_ERROR_MESSAGES[state.error];
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.stateTitle}>{title}</Text>
+          <Text style={styles.stateMessage}>{message}</Text>
+          {(state.error === 'offline' || state.error === 'unknown') && (
+            <TouchableOpacity style={styles.actionButton} onPress={load}>
+              <Text style={styles.actionButtonText}>Try again</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <>
+        {getDetailRows(state.details).map(
+          ([label, value], index) =>
+            value !== undefined && (
+              <View key={`${label}-${index}`} style={styles.row}>
+                <Text style={styles.rowLabel}>{label}</Text>
+                <Text style={styles.rowValue}>{value}</Text>
+              </View>
+            ),
+        )}
+
+        {actionError && (
+          <Text style={styles.actionError}>
+            {LOAD_ERROR_MESSAGES[actionError].title}:{' '}
+            {LOAD_ERROR_MESSAGES[actionError].message}
+          </Text>
+        )}
+
+        {queuedAction && (
+          <Text style={styles.queuedNotice}>
+            {queuedAction.label}: saved on this device. It will be sent when you
+            are back online.
+          </Text>
+        )}
+
+        {params.type === 'equipment' && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => navigation.push('TemperatureLog', params)}
+          >
+            <Text style={styles.actionButtonText}>Log temperature</Text>
+          </TouchableOpacity>
+        )}
+
+        {ENTITY_ACTIONS[params.type].map(action => (
+          <TouchableOpacity
+            key={action.id}
+            style={[
+              styles.actionButton,
+              runningAction !== null && styles.actionButtonDisabled,
+            ]}
+            disabled={runningAction !== null}
+            onPress={() => handleAction(action)}
+          >
+            {runningAction === action.id ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.actionButtonText}>{action.label}</Text>
+            )}
+          </TouchableOpacity>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{ENTITY_LABELS[params.type]}</Text>
+        <Text style={styles.subtitle}>{params.id}</Text>
+        {params.site && <Text style={styles.subtitle}>Site {params.site}</Text>}
+      </View>
+
+      {renderBody()}
+
+      {photos.length > 0 && (
+        <View style={styles.photos}>
+          <Text style={styles.photosTitle}>Photos</Text>
+          <PhotoThumbnails photos={photos} />
+        </View>
+      )}
+
+      {navigation.canGoBack() && (
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.pop()}
+        >
+          <Text style={styles.backButtonText}>Back</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingHorizontal: 24,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  stateContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  stateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  stateMessage: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 12,
+  },
+  rowValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: '#000',
+    textAlign: 'right',
+  },
+  photos: {
+    marginTop: 24,
+  },
+  photosTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+  },
+  queuedNotice: {
+    color: '#FF9500',
+    fontSize: 14,
+    marginTop: 16,
+  },
+  actionError: {
+    color: '#FF3B30',
+    fontSize: 14,
+    marginTop: 16,
+  },
+  actionButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 16,
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  backButton: {
+    backgroundColor: '#8E8E93',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 24,
+    marginBottom: 40,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,356 @@
+/**
+ * Expiry Dashboard Screen
+ * @file Lists expired lots and lots expiring soon so they are used or thrown
+ * out in time, with per-category warning thresholds
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  SectionList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useNavigation } from '../navigation/StackNavigator';
+import { serviceContainer } from '../services/ServiceContainer';
+import { PRODUCT_CATEGORIES } from '../services/expiry/expiry';
+import {
+  ExpiryDashboard,
+  ExpiryThresholds,
+  ProductCategory,
+  ProductLot,
+} from '../types/productLot.types';
+
+type ExpiryGroup = keyof ExpiryDashboard;
+
+const GROUP_TITLES: Record<ExpiryGroup, string> = {
+  expired: 'Expired',
+  today: 'Expires today',
+  soon: 'Expiring soon',
+};
+
+const CATEGORY_LABELS: Record<ProductCategory, string> = {
+  dairy: 'Dairy',
+  meat: 'Meat',
+  fish: 'Fish',
+  produce: 'Fruit & veg',
+  bakery: 'Bakery',
+  dry: 'Dry goods',
+  frozen: 'Frozen',
+  other: 'Other',
+};
+
+const productLotService = serviceContainer.getProductLotService();
+
+const getLotLabel = (lot: ProductLot): string =>
+  [
+    lot.productName ?? (lot.gtin ? `GTIN ${lot.gtin}` : `SSCC ${lot.sscc}`),
+    lot.lot && `Lot ${lot.lot}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const ExpiryDashboardScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [dashboard, setDashboard] = useState<ExpiryDashboard | null>(null);
+  const [thresholds, setThresholds] = useState<ExpiryThresholds | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [showThresholds, setShowThresholds] = useState(false);
+
+  const reload = useCallback(async () => {
+    const [nextDashboard, nextThresholds] = await Promise.all([
+      productLotService.getDashboard(),
+      productLotService.getThresholds(),
+    ]);
+    setDashboard(nextDashboard);
+    setThresholds(nextThresholds);
+  }, []);
+
+  /**
+   * Show saved lots at once, then refresh them from the backend
+   */
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await productLotService.sync();
+      setIsOffline(false);
+    } catch {
+      setIsOffline(true);
+    } finally {
+      setIsSyncing(false);
+    }
+    await reload();
+  }, [reload]);
+
+  useEffect(() => {
+    reload()
+      .then(sync)
+      .catch(() => undefined);
+  }, [reload, sync]);
+
+  const handleMark = async (lot: ProductLot, status: 'used' | 'discarded') => {
+    await productLotService.markLot(lot.id, status);
+    await reload();
+    sync().catch(() => undefined);
+  };
+
+  const handleThreshold = async (category: ProductCategory, days: number) => {
+    setThresholds(await productLotService.setThreshold(category, days));
+    setDashboard(await productLotService.getDashboard());
+  };
+
+  const sections = dashboard
+    ? (Object.keys(GROUP_TITLES) as ExpiryGroup[])
+        .filter(group => dashboard[group].length > 0)
+        .map(group => ({ group, data: dashboard[group] }))
+    : [];
+  const total = sections.reduce((sum, section) => sum + section.data.length, 0);
+
+  const renderLot = ({ item }: { item: ProductLot }) => (
+    <View style={styles.lot}>
+      <View style={styles.lotText}>
+        <Text style={styles.lotTitle} numberOfLines={1}>
+          {getLotLabel(item)}
+        </Text>
+        <Text style={styles.lotMeta}>
+          {item.dateKind === 'useBy' ? 'Use by' : 'Best before'}{' '}
+          {item.expiresOn} · {CATEGORY_LABELS[item.category]}
+          {item.pendingSync ? ' · Not synced' : ''}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.lotButton}
+        onPress={() => handleMark(item, 'used')}
+      >
+        <Text style={styles.lotButtonText}>Used</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.lotButton, styles.discardButton]}
+        onPress={() => handleMark(item, 'discarded')}
+      >
+        <Text style={styles.lotButtonText}>Discard</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Expiry</Text>
+        <Text style={styles.subtitle}>
+          {total} {total === 1 ? 'lot needs' : 'lots need'} attention
+        </Text>
+        {isOffline && (
+          <Text style={styles.offlineText}>
+            Offline: showing lots saved on this device
+          </Text>
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={styles.thresholdToggle}
+        onPress={() => setShowThresholds(current => !current)}
+      >
+        <Text style={styles.thresholdToggleText}>
+          {showThresholds ? 'Hide warning thresholds' : 'Warning thresholds'}
+        </Text>
+      </TouchableOpacity>
+
+      {showThresholds && thresholds && (
+        <View style={styles.thresholds}>
+          {PRODUCT_CATEGORIES.map(category => (
+            <View key={category} style={styles.thresholdRow}>
+              <Text style={styles.thresholdLabel}>
+                {CATEGORY_LABELS[category]}
+              </Text>
+              <TouchableOpacity
+                style={styles.stepper}
+                onPress={() =>
+                  handleThreshold(category, thresholds[category] - 1)
+                }
+              >
+                <Text style={styles.stepperText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.thresholdValue}>
+                {thresholds[category]} d
+              </Text>
+              <TouchableOpacity
+                style={styles.stepper}
+                onPress={() =>
+                  handleThreshold(category, thresholds[category] + 1)
+                }
+              >
+                <Text style={styles.stepperText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.id}
+        renderItem={renderLot}
+        renderSectionHeader={({ section }) => (
+          <Text
+            style={[
+              styles.sectionTitle,
+              section.group !== 'soon' && styles.sectionTitleUrgent,
+            ]}
+          >
+            {GROUP_TITLES[section.group]} ({section.data.length})
+          </Text>
+        )}
+        refreshing={isSyncing}
+        onRefresh={sync}
+        ListEmptyComponent={
+          dashboard ? (
+            <Text style={styles.emptyText}>Nothing expires soon</Text>
+          ) : null
+        }
+      />
+
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.pop()}
+      >
+        <Text style={styles.backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingHorizontal: 24,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  offlineText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  thresholdToggle: {
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  thresholdToggleText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  thresholds: {
+    marginBottom: 12,
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  thresholdLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#000',
+  },
+  thresholdValue: {
+    width: 48,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#000',
+  },
+  stepper: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperText: {
+    color: '#007AFF',
+    fontSize: 18,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FF9500',
+    backgroundColor: '#fff',
+    paddingTop: 16,
+    paddingBottom: 4,
+  },
+  sectionTitleUrgent: {
+    color: '#FF3B30',
+  },
+  lot: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  lotText: {
+    flex: 1,
+    marginRight: 8,
+  },
+  lotTitle: {
+    fontSize: 16,
+    color: '#000',
+  },
+  lotMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  lotButton: {
+    backgroundColor: '#34C759',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+    marginLeft: 6,
+  },
+  discardButton: {
+    backgroundColor: '#FF3B30',
+  },
+  lotButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 24,
+  },
+  backButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginVertical: 24,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
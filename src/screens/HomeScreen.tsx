@@ -1,21 +1,300 @@
-import React, { useEffect, useState } from 'react';
-import { StyleSheet, Text, View, TouchableOpacity, Alert, Linking } from 'react-native';
-import { Camera, useCameraDevice, useCameraPermission } from 'react-native-vision-camera';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Alert,
+  Linking,
+  LayoutChangeEvent,
+  Vibration,
+} from 'react-native';
+import {
+  Camera,
+  Code,
+  CodeType,
+  useCameraDevice,
+  useCameraFormat,
+  useCameraPermission,
+  useCodeScanner,
+} from 'react-native-vision-camera';
+import { BatchCountPanel } from '../components/BatchCountPanel';
+import { getProductLabel } from '../components/productLabel';
+import { useSession } from '../context/AuthContext';
+import { useBatchCount } from '../hooks/useBatchCount';
+import { usePendingSyncCount } from '../hooks/usePendingSyncCount';
+import { getScanTarget } from '../navigation/deepLinks';
+import { useNavigation } from '../navigation/StackNavigator';
+import { serviceContainer } from '../services/ServiceContainer';
+import { isTrustedVerification } from '../services/scan/QrSignatureVerifier';
+import { PhotoSubject } from '../types/photo.types';
+import { ScannedCode, ScanResult } from '../types/scan.types';
 
-interface HomeScreenProps {
-  onLogout: () => void;
-}
+/**
+ * Side of the square scan frame, in dp
+ */
+const SCAN_FRAME_SIZE = 250;
 
-export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
+/**
+ * How long the frame stays highlighted after a successful scan
+ */
+const SCAN_FEEDBACK_MS = 600;
+
+/**
+ * Largest photo taken for evidence; smaller files upload faster on site
+ */
+const MAX_PHOTO_RESOLUTION = { width: 1920, height: 1080 };
+
+/**
+ * Why a code was refused
+ */
+const UNTRUSTED_CODE_MESSAGES = {
+  unsigned:
+    'This code is not signed and cannot be trusted. Ask for a new label.',
+  tampered: 'This code has been altered and cannot be trusted.',
+  expired: 'This code has expired. Ask for a new label.',
+  unknownKey:
+    'This code was signed with an unknown key. Connect to sync keys, or report the label.',
+};
+
+/**
+ * Keytchens QR codes and supplier GS1 barcodes
+ */
+const SCANNED_CODE_TYPES: CodeType[] = [
+  'qr',
+  'ean-13',
+  'ean-8',
+  'upc-a',
+  'itf-14',
+  'code-128',
+  'data-matrix',
+];
+
+const scanPipeline = serviceContainer.getScanPipeline();
+const batchCountService = serviceContainer.getBatchCountService();
+const temperatureLogService = serviceContainer.getTemperatureLogService();
+const photoService = serviceContainer.getPhotoService();
+const outboxService = serviceContainer.getOutboxService();
+
+/**
+ * Keep decoded codes and drop the camera-specific fields
+ */
+const toScannedCodes = (codes: Code[]): ScannedCode[] =>
+  codes.flatMap(code =>
+    code.value
+      ? [{ value: code.value, type: code.type, frame: code.frame }]
+      : [],
+  );
+
+/**
+ * Show an alert and wait until it is dismissed
+ */
+const showAlert = (title: string, message: string): Promise<void> =>
+  new Promise(resolve => {
+    Alert.alert(title, message, [{ text: 'OK', onPress: () => resolve() }], {
+      onDismiss: () => resolve(),
+    });
+  });
+
+/**
+ * Label of the last scan line; legacy codes accepted without a signature are
+ * flagged as unverified
+ */
+const getLastScanLabel = (scan: ScanResult, wasCounted: boolean): string => {
+  if (!wasCounted) {
+    return 'Not counted';
+  }
+  return scan.content.kind === 'entity' &&
+    scan.content.verification.status === 'unverified'
+    ? 'Unverified scan'
+    : 'Last scan';
+};
+
+/**
+ * Attach to the reading logged after the scan of an equipment code,
+ * otherwise to the scan itself
+ */
+const getPhotoSubject = async (scan: ScanResult): Promise<PhotoSubject> => {
+  const entity =
+    scan.content.kind === 'entity' &&
+    isTrustedVerification(scan.content.verification)
+      ? scan.content.payload.entity
+      : undefined;
+
+  if (entity?.type === 'equipment') {
+    const [latestReading] = await temperatureLogService.getHistory(entity);
+    if (latestReading && latestReading.recordedAt >= scan.scannedAt) {
+      return {
+        type: 'temperatureReading',
+        readingId: latestReading.id,
+        equipment: entity,
+      };
+    }
+  }
+
+  return {
+    type: 'scan',
+    rawValue: scan.rawValue,
+    scannedAt: scan.scannedAt,
+    ...(entity ? { entity } : {}),
+  };
+};
+
+export const HomeScreen: React.FC = () => {
+  const { user, logout } = useSession();
+  const navigation = useNavigation();
   const { hasPermission, requestPermission } = useCameraPermission();
   const device = useCameraDevice('back');
+  const format = useCameraFormat(device, [
+    { photoResolution: MAX_PHOTO_RESOLUTION },
+  ]);
+  const cameraRef = useRef<Camera>(null);
+  const [isTakingPhoto, setIsTakingPhoto] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(true);
+  const [lastScan, setLastScan] = useState<ScanResult | null>(null);
+  const [showScanFeedback, setShowScanFeedback] = useState(false);
+  const [wasScanCounted, setWasScanCounted] = useState(true);
+  const batch = useBatchCount(batchCountService);
+  const pendingSyncCount = usePendingSyncCount(outboxService);
+  const isBatchMode = batch.count !== null;
+  // Read by the scan listener, which is subscribed once
+  const addScanRef = useRef<typeof batch.addScan | null>(null);
 
   useEffect(() => {
-    checkCameraPermission();
+    addScanRef.current = isBatchMode ? batch.addScan : null;
+  }, [isBatchMode, batch.addScan]);
+
+  const codeScanner = useCodeScanner({
+    codeTypes: SCANNED_CODE_TYPES,
+    onCodeScanned: codes => {
+      scanPipeline.process(toScannedCodes(codes));
+    },
+  });
+
+  /**
+   * Logout failures are kept in the session state
+   */
+  const handleLogout = () => {
+    logout().catch(() => undefined);
+  };
+
+  /**
+   * Stop the camera while the pipeline handles a result; batch mode keeps
+   * it running
+   */
+  useEffect(() => {
+    return scanPipeline.onPauseChange(isPaused => setIsCameraActive(!isPaused));
   }, []);
 
-  const checkCameraPermission = async () => {
+  /**
+   * Confirm each scan, then count it in batch mode or open app links
+   * The pipeline stays paused until an alert is dismissed or the screen
+   * opened by the scan has replaced this one
+   */
+  useEffect(() => {
+    let endSubscription = () => {};
+    const ended = new Promise<void>(resolve => {
+      endSubscription = resolve;
+    });
+
+    const unsubscribe = scanPipeline.subscribe(async result => {
+      setLastScan(result);
+
+      if (addScanRef.current) {
+        const isCounted = addScanRef.current(result);
+        Vibration.vibrate(isCounted ? 50 : [0, 100, 80, 100]);
+        setWasScanCounted(isCounted);
+        setShowScanFeedback(isCounted);
+        setTimeout(() => setShowScanFeedback(false), SCAN_FEEDBACK_MS);
+        return;
+      }
+
+      Vibration.vibrate(50);
+      setWasScanCounted(true);
+      setShowScanFeedback(true);
+      setTimeout(() => setShowScanFeedback(false), SCAN_FEEDBACK_MS);
+
+      if (result.content.kind === 'entity') {
+        const { verification } = result.content;
+        if (!isTrustedVerification(verification)) {
+          await showAlert(
+            'Untrusted code',
+            UNTRUSTED_CODE_MESSAGES[verification.status],
+          );
+          return;
+        }
+        navigation.navigate(getScanTarget(result.content.payload.entity));
+        await ended;
+      } else if (result.content.kind === 'invalid') {
+        await showAlert('Invalid code', result.content.error.message);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      endSubscription();
+    };
+  }, [navigation]);
+
+  /**
+   * Photograph damage, waste or a corrective action for the last scan;
+   * the photo stays queued on the device until uploaded
+   */
+  const handleTakePhoto = async () => {
+    if (!lastScan || !cameraRef.current) {
+      return;
+    }
+
+    setIsTakingPhoto(true);
+    try {
+      const photo = await cameraRef.current.takePhoto({
+        enableShutterSound: false,
+      });
+      const attachment = await photoService.attach(
+        await getPhotoSubject(lastScan),
+        photo,
+      );
+      if (!attachment) {
+        Alert.alert('Photo not saved', 'Sign in to attach photos.');
+        return;
+      }
+      photoService.upload().catch(() => undefined);
+    } catch {
+      Alert.alert('Photo not saved', 'The photo could not be taken.');
+    } finally {
+      setIsTakingPhoto(false);
+    }
+  };
+
+  const handleSubmitCount = () => {
+    batch.submit().then(isSubmitted => {
+      if (isSubmitted) {
+        setLastScan(null);
+      }
+    });
+  };
+
+  const handleDiscardCount = () => {
+    Alert.alert('Discard count?', 'All counted items will be lost.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: batch.discard },
+    ]);
+  };
+
+  /**
+   * Only accept codes centered in the visible scan frame
+   */
+  const handleCameraLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    scanPipeline.setRegion({
+      x: (width - SCAN_FRAME_SIZE) / 2,
+      y: (height - SCAN_FRAME_SIZE) / 2,
+      width: SCAN_FRAME_SIZE,
+      height: SCAN_FRAME_SIZE,
+    });
+  };
+
+  const checkCameraPermission = useCallback(async () => {
     if (!hasPermission) {
       const permission = await requestPermission();
       if (!permission) {
@@ -25,20 +304,29 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
           [
             { text: 'Cancel', style: 'cancel' },
             { text: 'Open Settings', onPress: () => Linking.openSettings() },
-          ]
+          ],
         );
       }
     }
-  };
+  }, [hasPermission, requestPermission]);
+
+  useEffect(() => {
+    checkCameraPermission();
+  }, [checkCameraPermission]);
 
   if (!hasPermission) {
     return (
       <View style={styles.container}>
         <View style={styles.header}>
           <Text style={styles.title}>Camera Permission Required</Text>
-          <Text style={styles.subtitle}>Please grant camera access to continue</Text>
+          <Text style={styles.subtitle}>
+            Please grant camera access to continue
+          </Text>
         </View>
-        <TouchableOpacity style={styles.permissionButton} onPress={checkCameraPermission}>
+        <TouchableOpacity
+          style={styles.permissionButton}
+          onPress={checkCameraPermission}
+        >
           <Text style={styles.permissionButtonText}>Request Permission</Text>
         </TouchableOpacity>
       </View>
@@ -59,26 +347,114 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>QR Code Scanner</Text>
-        <Text style={styles.subtitle}>Position the QR code within the frame</Text>
+        <Text style={styles.title}>Code Scanner</Text>
+        <Text style={styles.subtitle}>
+          Position the QR code or barcode within the frame
+        </Text>
       </View>
 
-      <View style={styles.cameraContainer}>
+      <View
+        style={[
+          styles.cameraContainer,
+          isBatchMode && styles.cameraContainerBatch,
+        ]}
+        onLayout={handleCameraLayout}
+      >
         <Camera
+          ref={cameraRef}
           style={styles.camera}
           device={device}
-          isActive={isCameraActive}
-          photo={false}
+          format={format}
+          isActive={isCameraActive || isBatchMode}
+          photo={true}
+          photoQualityBalance="speed"
           video={false}
+          codeScanner={codeScanner}
+        />
+        <View
+          style={[
+            styles.scanFrame,
+            showScanFeedback && styles.scanFrameSuccess,
+          ]}
         />
-        <View style={styles.scanFrame} />
       </View>
 
-      <View style={styles.footer}>
-        <TouchableOpacity style={styles.logoutButton} onPress={onLogout}>
-          <Text style={styles.logoutText}>Logout</Text>
-        </TouchableOpacity>
-      </View>
+      {lastScan && (
+        <Text
+          style={[
+            styles.lastScanText,
+            !wasScanCounted && styles.lastScanTextRejected,
+          ]}
+          numberOfLines={1}
+        >
+          {getLastScanLabel(lastScan, wasScanCounted)}:{' '}
+          {lastScan.content.kind === 'gs1'
+            ? getProductLabel(lastScan.content.product)
+            : lastScan.rawValue}
+        </Text>
+      )}
+
+      {batch.count ? (
+        <BatchCountPanel
+          count={batch.count}
+          isSubmitting={batch.isSubmitting}
+          error={batch.error}
+          onSetQuantity={batch.setQuantity}
+          onUndo={batch.undoLastScan}
+          onSubmit={handleSubmitCount}
+          onDiscard={handleDiscardCount}
+        />
+      ) : (
+        <View style={styles.footer}>
+          {user && (
+            <Text style={styles.signedInText}>Signed in as {user.email}</Text>
+          )}
+          {pendingSyncCount > 0 && (
+            <Text style={styles.pendingSyncText}>
+              {pendingSyncCount} {pendingSyncCount === 1 ? 'change' : 'changes'}{' '}
+              waiting to sync
+            </Text>
+          )}
+          <View style={styles.footerActions}>
+            {lastScan && (
+              <TouchableOpacity
+                style={[
+                  styles.historyButton,
+                  isTakingPhoto && styles.buttonDisabled,
+                ]}
+                disabled={isTakingPhoto}
+                onPress={handleTakePhoto}
+              >
+                <Text style={styles.historyText}>Photo</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={batch.start}
+            >
+              <Text style={styles.historyText}>Count</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={() => navigation.push('ScanHistory')}
+            >
+              <Text style={styles.historyText}>History</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.historyButton}
+              onPress={() => navigation.push('ExpiryDashboard')}
+            >
+              <Text style={styles.historyText}>Expiry</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.logoutButton}
+              onPress={handleLogout}
+            >
+              <Text style={styles.logoutText}>Logout</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
     </View>
   );
 };
@@ -118,30 +494,80 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     marginVertical: 20,
   },
+  cameraContainerBatch: {
+    height: 280,
+    marginVertical: 12,
+  },
   camera: {
     width: '100%',
     height: '100%',
   },
   scanFrame: {
     position: 'absolute',
-    width: 250,
-    height: 250,
+    width: SCAN_FRAME_SIZE,
+    height: SCAN_FRAME_SIZE,
     borderWidth: 3,
     borderColor: '#00FF00',
     borderRadius: 12,
     backgroundColor: 'transparent',
   },
+  scanFrameSuccess: {
+    borderColor: '#FFD60A',
+    backgroundColor: 'rgba(255, 214, 10, 0.15)',
+  },
+  lastScanText: {
+    color: '#fff',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 24,
+  },
+  lastScanTextRejected: {
+    color: '#FF453A',
+  },
   footer: {
     padding: 24,
     backgroundColor: '#000',
     alignItems: 'center',
   },
+  signedInText: {
+    fontSize: 14,
+    color: '#ccc',
+    marginBottom: 12,
+  },
+  pendingSyncText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  footerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  historyButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    minWidth: 96,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  historyText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
   logoutButton: {
     backgroundColor: '#FF3B30',
     paddingVertical: 12,
-    paddingHorizontal: 32,
+    paddingHorizontal: 20,
     borderRadius: 8,
-    minWidth: 120,
+    minWidth: 96,
     alignItems: 'center',
   },
   logoutText: {
@@ -16,15 +16,10 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
-import { AuthService } from '../services/AuthService';
+import { useSession } from '../context/AuthContext';
 import { LoginRequest, AuthError, AuthErrorType } from '../types/auth.types';
 import Logo from '../assets/icons/logoKeytchens.svg';
 
-interface LoginPageProps {
-  authService: AuthService;
-  onLoginSuccess: () => void;
-}
-
 interface FormState {
   email: string;
   password: string;
@@ -32,10 +27,8 @@ interface FormState {
 }
 
 
-export const LoginPage: React.FC<LoginPageProps> = ({
-  authService,
-  onLoginSuccess,
-}) => {
+export const LoginPage: React.FC = () => {
+  const { login } = useSession();
   const [form, setForm] = useState<FormState>({
     email: '',
     password: '',
@@ -84,8 +77,8 @@ export const LoginPage: React.FC<LoginPageProps> = ({
         password: form.password,
       };
 
-      await authService.login(credentials);
-      onLoginSuccess();
+      // The session context switches to the home screen on success
+      await login(credentials.email, credentials.password);
     } catch (err) {
       if (typeof err === 'object' && err !== null && 'message' in err) {
         setError(err as AuthError);
@@ -101,7 +94,7 @@ export const LoginPage: React.FC<LoginPageProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [authService, form, isLoading, onLoginSuccess]);
+  }, [form, isLoading, login]);
 
   /**
    * Check if login button should be enabled
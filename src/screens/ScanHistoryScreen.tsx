@@ -0,0 +1,351 @@
+/**
+ * Scan History Screen
+ * @file Lists the signed-in user's scans with search, filters and paging
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getProductLabel } from '../components/productLabel';
+import { useNavigation } from '../navigation/StackNavigator';
+import { serviceContainer } from '../services/ServiceContainer';
+import { EntityType } from '../types/entity.types';
+import {
+  ScanHistoryEntry,
+  ScanHistoryQuery,
+  ScanOutcome,
+} from '../types/scanHistory.types';
+import { ENTITY_LABELS } from './EntityDetailsScreen';
+
+type DateRange = 'today' | 'week' | 'all';
+
+const PAGE_SIZE = 20;
+
+/**
+ * Wait after the last keystroke before searching
+ */
+const SEARCH_DELAY_MS = 250;
+
+const DATE_RANGE_LABELS: Record<DateRange, string> = {
+  today: 'Today',
+  week: '7 days',
+  all: 'All',
+};
+
+const OUTCOME_LABELS: Record<ScanOutcome, string> = {
+  accepted: 'Opened',
+  unverified: 'Opened, unverified',
+  untrusted: 'Untrusted',
+  invalid: 'Invalid',
+  unknown: 'Not a Keytchens code',
+};
+
+const ENTITY_TYPES = Object.keys(ENTITY_LABELS) as EntityType[];
+
+const scanHistoryService = serviceContainer.getScanHistoryService();
+
+/**
+ * Lower bound of a date range, in epoch milliseconds
+ */
+const getRangeStart = (range: DateRange): number | undefined => {
+  if (range === 'all') {
+    return undefined;
+  }
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  if (range === 'week') {
+    start.setDate(start.getDate() - 6);
+  }
+  return start.getTime();
+};
+
+const getEntryLabel = (entry: ScanHistoryEntry): string => {
+  if (entry.entity) {
+    return `${ENTITY_LABELS[entry.entity.type]} ${entry.entity.id}`;
+  }
+  return entry.product ? getProductLabel(entry.product) : entry.rawValue;
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString();
+
+export const ScanHistoryScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const [search, setSearch] = useState('');
+  const [entityType, setEntityType] = useState<EntityType | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>('today');
+  const [entries, setEntries] = useState<ScanHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  // Ignore pages from a query the filters have since replaced
+  const queryIdRef = useRef(0);
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      const queryId = offset === 0 ? ++queryIdRef.current : queryIdRef.current;
+      const query: ScanHistoryQuery = {
+        search,
+        entityType: entityType ?? undefined,
+        from: getRangeStart(dateRange),
+        offset,
+        limit: PAGE_SIZE,
+      };
+
+      setIsLoading(true);
+      try {
+        const page = await scanHistoryService.query(query);
+        if (queryId !== queryIdRef.current) {
+          return;
+        }
+        setEntries(current =>
+          offset === 0 ? page.entries : [...current, ...page.entries],
+        );
+        setTotal(page.total);
+        setHasMore(page.hasMore);
+      } finally {
+        if (queryId === queryIdRef.current) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [search, entityType, dateRange],
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      loadPage(0).catch(() => undefined);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [loadPage]);
+
+  const handleEndReached = () => {
+    if (hasMore && !isLoading) {
+      loadPage(entries.length).catch(() => undefined);
+    }
+  };
+
+  const renderEntry = ({ item }: { item: ScanHistoryEntry }) => {
+    const canOpen =
+      (item.outcome === 'accepted' || item.outcome === 'unverified') &&
+      item.entity;
+    return (
+      <TouchableOpacity
+        style={styles.entry}
+        disabled={!canOpen}
+        onPress={() =>
+          item.entity && navigation.push('EntityDetails', item.entity)
+        }
+      >
+        <View style={styles.entryText}>
+          <Text style={styles.entryTitle} numberOfLines={1}>
+            {getEntryLabel(item)}
+          </Text>
+          <Text style={styles.entryMeta}>
+            {formatTime(item.scannedAt)}
+            {item.entity?.site ? ` · Site ${item.entity.site}` : ''}
+          </Text>
+        </View>
+        <Text
+          style={[
+            styles.outcome,
+            item.outcome !== 'accepted' && styles.outcomeWarning,
+          ]}
+        >
+          {OUTCOME_LABELS[item.outcome]}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Scan History</Text>
+        <Text style={styles.subtitle}>
+          {total} {total === 1 ? 'scan' : 'scans'}
+        </Text>
+      </View>
+
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Search by code, id, site, GTIN or lot"
+        value={search}
+        onChangeText={setSearch}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <View style={styles.filterRow}>
+        {(Object.keys(DATE_RANGE_LABELS) as DateRange[]).map(range => (
+          <TouchableOpacity
+            key={range}
+            style={[styles.chip, dateRange === range && styles.chipActive]}
+            onPress={() => setDateRange(range)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                dateRange === range && styles.chipTextActive,
+              ]}
+            >
+              {DATE_RANGE_LABELS[range]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.filterRow}>
+        {[null, ...ENTITY_TYPES].map(type => (
+          <TouchableOpacity
+            key={type ?? 'all'}
+            style={[styles.chip, entityType === type && styles.chipActive]}
+            onPress={() => setEntityType(type)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                entityType === type && styles.chipTextActive,
+              ]}
+            >
+              {type ? ENTITY_LABELS[type] : 'All types'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={item => item.id}
+        renderItem={renderEntry}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={
+          isLoading ? null : (
+            <Text style={styles.emptyText}>No scans match these filters</Text>
+          )
+        }
+        ListFooterComponent={
+          isLoading ? <ActivityIndicator style={styles.loader} /> : null
+        }
+      />
+
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => navigation.pop()}
+      >
+        <Text style={styles.backButtonText}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingHorizontal: 24,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#007AFF',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  entryText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  entryTitle: {
+    fontSize: 16,
+    color: '#000',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  outcome: {
+    fontSize: 12,
+    color: '#34C759',
+    fontWeight: '600',
+  },
+  outcomeWarning: {
+    color: '#FF3B30',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 24,
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  backButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginVertical: 24,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,226 @@
+/**
+ * Temperature History Screen
+ * @file HACCP readings of one piece of equipment, newest first
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { PhotoThumbnails } from '../components/PhotoThumbnails';
+import { useNavigation, useRoute } from '../navigation/StackNavigator';
+import { serviceContainer } from '../services/ServiceContainer';
+import { PhotoAttachment } from '../types/photo.types';
+import { TemperatureReading } from '../types/temperatureLog.types';
+import {
+  EQUIPMENT_KIND_LABELS,
+  formatTemperatureRange,
+} from './TemperatureLogScreen';
+
+const temperatureLogService = serviceContainer.getTemperatureLogService();
+const photoService = serviceContainer.getPhotoService();
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString();
+
+export const TemperatureHistoryScreen: React.FC = () => {
+  const { params } = useRoute<'TemperatureHistory'>();
+  const navigation = useNavigation();
+  const [readings, setReadings] = useState<TemperatureReading[]>([]);
+  const [photos, setPhotos] = useState<PhotoAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const reload = useCallback(async () => {
+    setReadings(await temperatureLogService.getHistory(params));
+    setPhotos(await photoService.getEntityPhotos(params));
+  }, [params]);
+
+  /**
+   * Retry pending uploads of readings and photos, then show them with their
+   * upload state
+   */
+  const upload = useCallback(async () => {
+    setIsUploading(true);
+    try {
+      await Promise.all([
+        temperatureLogService.upload(),
+        photoService.upload(),
+      ]);
+    } catch {
+      // Readings stay on the device and are retried next time
+    } finally {
+      setIsUploading(false);
+    }
+    await reload();
+  }, [reload]);
+
+  useEffect(() => {
+    reload()
+      .then(upload)
+      .catch(() => undefined);
+  }, [reload, upload]);
+
+  const pendingCount = readings.filter(reading => !reading.uploaded).length;
+
+  const renderReading = ({ item }: { item: TemperatureReading }) => (
+    <View style={styles.reading}>
+      <View style={styles.readingHeader}>
+        <Text
+          style={[
+            styles.temperature,
+            !item.withinRange && styles.temperatureWarning,
+          ]}
+        >
+          {item.temperatureC} °C
+        </Text>
+        <Text style={styles.readingMeta}>
+          {EQUIPMENT_KIND_LABELS[item.equipmentKind]} ·{' '}
+          {formatTemperatureRange(item.range)}
+        </Text>
+      </View>
+      <Text style={styles.readingMeta}>
+        {formatTime(item.recordedAt)} · by {item.userId}
+        {item.uploaded ? '' : ' · Not uploaded'}
+      </Text>
+      {item.correctiveAction && (
+        <Text style={styles.correctiveAction}>
+          Corrective action: {item.correctiveAction}
+        </Text>
+      )}
+      <PhotoThumbnails
+        photos={photos.filter(
+          photo =>
+            photo.subject.type === 'temperatureReading' &&
+            photo.subject.readingId === item.id,
+        )}
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Temperature history</Text>
+        <Text style={styles.subtitle}>{params.id}</Text>
+        {pendingCount > 0 && (
+          <Text style={styles.pendingText}>
+            {pendingCount} {pendingCount === 1 ? 'reading' : 'readings'} waiting
+            for upload
+          </Text>
+        )}
+      </View>
+
+      <FlatList
+        data={readings}
+        keyExtractor={item => item.id}
+        renderItem={renderReading}
+        refreshing={isUploading}
+        onRefresh={upload}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No readings on this device</Text>
+        }
+      />
+
+      <TouchableOpacity
+        style={styles.logButton}
+        onPress={() => navigation.push('TemperatureLog', params)}
+      >
+        <Text style={styles.buttonText}>Log temperature</Text>
+      </TouchableOpacity>
+
+      {navigation.canGoBack() && (
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.pop()}
+        >
+          <Text style={styles.buttonText}>Back</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingHorizontal: 24,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  pendingText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  reading: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ddd',
+  },
+  readingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  temperature: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#34C759',
+  },
+  temperatureWarning: {
+    color: '#FF3B30',
+  },
+  readingMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  correctiveAction: {
+    fontSize: 14,
+    color: '#000',
+    marginTop: 6,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 24,
+  },
+  logButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  backButton: {
+    backgroundColor: '#8E8E93',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 24,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
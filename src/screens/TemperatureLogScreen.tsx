@@ -0,0 +1,350 @@
+/**
+ * Temperature Log Screen
+ * @file HACCP temperature entry for a scanned fridge, freezer or hot-hold
+ * unit; out-of-range readings need a corrective action
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useNavigation, useRoute } from '../navigation/StackNavigator';
+import { serviceContainer } from '../services/ServiceContainer';
+import {
+  isWithinRange,
+  TEMPERATURE_RANGES,
+} from '../services/haccp/TemperatureLogService';
+import {
+  LoggedEquipmentKind,
+  TemperatureLogError,
+  TemperatureRange,
+} from '../types/temperatureLog.types';
+
+export const EQUIPMENT_KIND_LABELS: Record<LoggedEquipmentKind, string> = {
+  fridge: 'Fridge',
+  freezer: 'Freezer',
+  hotHold: 'Hot hold',
+};
+
+const LOGGED_KINDS = Object.keys(
+  EQUIPMENT_KIND_LABELS,
+) as LoggedEquipmentKind[];
+
+const entityService = serviceContainer.getEntityService();
+const temperatureLogService = serviceContainer.getTemperatureLogService();
+
+/**
+ * e.g. `0 to 4 °C`, `≤ -18 °C`
+ */
+export const formatTemperatureRange = (range: TemperatureRange): string => {
+  if (range.minC !== undefined && range.maxC !== undefined) {
+    return `${range.minC} to ${range.maxC} °C`;
+  }
+  return range.maxC !== undefined ? `≤ ${range.maxC} °C` : `≥ ${range.minC} °C`;
+};
+
+/**
+ * Read a typed temperature; accepts a decimal comma
+ */
+const parseTemperature = (value: string): number =>
+  value.trim() === '' ? NaN : Number(value.trim().replace(',', '.'));
+
+export const TemperatureLogScreen: React.FC = () => {
+  const { params } = useRoute<'TemperatureLog'>();
+  const navigation = useNavigation();
+  const [equipmentName, setEquipmentName] = useState<string | null>(null);
+  const [kind, setKind] = useState<LoggedEquipmentKind | null>(null);
+  /** The server's kind sets the HACCP limits and cannot be overridden */
+  const [isKindLocked, setIsKindLocked] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [temperature, setTemperature] = useState('');
+  const [correctiveAction, setCorrectiveAction] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * The equipment kind sets the range; offline, the cook picks it instead
+   */
+  useEffect(() => {
+    entityService
+      .getEntity(params)
+      .then(details => {
+        if (details.type !== 'equipment') {
+          return;
+        }
+        setEquipmentName(details.name);
+        if (details.kind && details.kind !== 'other') {
+          setKind(details.kind);
+          setIsKindLocked(true);
+        }
+      })
+      .catch(() => undefined)
+      .finally(() => setIsLoading(false));
+  }, [params]);
+
+  const temperatureC = parseTemperature(temperature);
+  const range = kind ? TEMPERATURE_RANGES[kind] : null;
+  const isOutOfRange =
+    range !== null &&
+    Number.isFinite(temperatureC) &&
+    !isWithinRange(temperatureC, range);
+
+  const handleSave = async () => {
+    if (!kind) {
+      setError('Choose the equipment type');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await temperatureLogService.record({
+        equipment: params,
+        equipmentKind: kind,
+        temperatureC,
+        correctiveAction: isOutOfRange ? correctiveAction : undefined,
+      });
+      temperatureLogService.upload().catch(() => undefined);
+      navigation.replace('TemperatureHistory', params);
+    } catch (saveError) {
+      setError((saveError as TemperatureLogError).message);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.header}>
+        <Text style={styles.title}>Temperature check</Text>
+        <Text style={styles.subtitle}>{equipmentName ?? params.id}</Text>
+        {params.site && <Text style={styles.subtitle}>Site {params.site}</Text>}
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loader} size="large" />
+      ) : (
+        <>
+          <Text style={styles.label}>Equipment type</Text>
+          <View style={styles.kindRow}>
+            {LOGGED_KINDS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.chip,
+                  kind === option && styles.chipActive,
+                  isKindLocked && kind !== option && styles.chipLocked,
+                ]}
+                disabled={isKindLocked}
+                onPress={() => setKind(option)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    kind === option && styles.chipTextActive,
+                  ]}
+                >
+                  {EQUIPMENT_KIND_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {range && (
+            <Text style={styles.rangeText}>
+              Allowed: {formatTemperatureRange(range)}
+            </Text>
+          )}
+
+          <Text style={styles.label}>Temperature (°C)</Text>
+          <TextInput
+            style={[styles.input, isOutOfRange && styles.inputWarning]}
+            value={temperature}
+            onChangeText={setTemperature}
+            keyboardType="numbers-and-punctuation"
+            placeholder="e.g. 3.5"
+            editable={!isSaving}
+          />
+
+          {isOutOfRange && (
+            <>
+              <Text style={styles.warningText}>
+                Out of range: describe what you did about it
+              </Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={correctiveAction}
+                onChangeText={setCorrectiveAction}
+                placeholder="e.g. Moved stock to cold room 2, called maintenance"
+                multiline
+                editable={!isSaving}
+              />
+            </>
+          )}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.buttonDisabled]}
+            disabled={isSaving}
+            onPress={handleSave}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Save reading</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+
+      <View style={styles.linkRow}>
+        <TouchableOpacity
+          onPress={() => navigation.push('TemperatureHistory', params)}
+        >
+          <Text style={styles.linkText}>History</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => navigation.push('EntityDetails', params)}
+        >
+          <Text style={styles.linkText}>Equipment details</Text>
+        </TouchableOpacity>
+      </View>
+
+      {navigation.canGoBack() && (
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.pop()}
+        >
+          <Text style={styles.buttonText}>Back</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingHorizontal: 24,
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  loader: {
+    marginVertical: 40,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  kindRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipLocked: {
+    opacity: 0.4,
+  },
+  chipText: {
+    color: '#007AFF',
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  rangeText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  inputWarning: {
+    borderColor: '#FF3B30',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  warningText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: 20,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  backButton: {
+    backgroundColor: '#8E8E93',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 24,
+    marginBottom: 40,
+  },
+});
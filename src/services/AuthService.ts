@@ -7,26 +7,146 @@
 import {
   AuthError,
   AuthErrorType,
+  AuthEvent,
+  AuthEventListener,
+  AuthSession,
   LoginRequest,
   LoginResponse,
+  PendingLogout,
+  RestoredSession,
   User,
 } from '../types/auth.types';
-import { API_ENDPOINTS, IHttpClient } from './api/HttpClient';
-
-interface LoginV2ApiResponse {
-  data?: {
-    loginV2?: {
-      token?: string;
-      user?: {
-        uuid?: string;
-        email?: string;
-        roles?: string[];
-        lang?: string;
-        enabled?: boolean;
-      };
+import { ApiErrorType, isApiError } from '../types/api.types';
+import { GraphQLMutation, IGraphQLClient } from './api/GraphQLClient';
+import { API_ENDPOINTS, ITokenRefresher, IHttpClient } from './api/HttpClient';
+import { Infer, s } from './api/schema';
+import { decodeJwtClaims } from './auth/jwt';
+
+/**
+ * Data of the loginV2 mutation as returned by the backend
+ */
+export const LOGIN_V2_DATA_SCHEMA = s.object({
+  loginV2: s.nullish(
+    s.object({
+      token: s.string(),
+      refreshToken: s.nullish(s.string()),
+      user: s.object({
+        uuid: s.string(),
+        email: s.string(),
+        roles: s.nullish(s.array(s.string())),
+        lang: s.nullish(s.string()),
+        enabled: s.nullish(s.coerce.boolean()),
+      }),
+    }),
+  ),
+});
+
+export type LoginV2Data = Infer<typeof LOGIN_V2_DATA_SCHEMA>;
+
+/**
+ * loginV2 GraphQL mutation sent to the login endpoint
+ */
+export const LOGIN_V2_MUTATION: GraphQLMutation<LoginV2Data, LoginRequest> = {
+  kind: 'mutation',
+  name: 'LoginV2',
+  document: `
+    mutation LoginV2($email: String!, $password: String!) {
+      loginV2(email: $email, password: $password) {
+        token
+        refreshToken
+        user {
+          uuid
+          email
+          roles
+          lang
+          enabled
+        }
+      }
+    }
+  `,
+  schema: LOGIN_V2_DATA_SCHEMA,
+};
+
+/**
+ * Tokens expiring within this margin are treated as expired (clock skew)
+ */
+const EXPIRY_LEEWAY_MS = 30 * 1000;
+
+/**
+ * Response of the token refresh endpoint; the refresh token is only sent
+ * when rotated
+ */
+const REFRESH_RESPONSE_SCHEMA = s.object({
+  token: s.string(),
+  refreshToken: s.nullish(s.string()),
+});
+
+/**
+ * Acknowledgement of a revoked session
+ */
+const LOGOUT_RESPONSE_SCHEMA = s.object({ success: s.boolean() });
+
+/**
+ * Status codes saying the tokens sent are unusable; others, such as 408 and
+ * 429, say nothing about them and are worth retrying
+ */
+const REJECTED_TOKEN_STATUS_CODES = [400, 401, 403];
+
+/**
+ * Whether a refresh or logout call failed because of the tokens it sent;
+ * an unreadable answer still means the server handled them
+ */
+const isRejectedTokenError = (error: unknown): boolean =>
+  isApiError(error) &&
+  (error.type === ApiErrorType.INVALID_RESPONSE ||
+    (error.statusCode !== undefined &&
+      REJECTED_TOKEN_STATUS_CODES.includes(error.statusCode)));
+
+/**
+ * Map a failed login request, or the GraphQL errors of loginV2, onto the
+ * matching AuthError
+ * Only a 401 or an UNAUTHENTICATED error means wrong credentials; a 403
+ * carries the server's reason, e.g. a disabled account
+ */
+const mapLoginApiError = (error: unknown): AuthError => {
+  if (!isApiError(error)) {
+    return {
+      type: AuthErrorType.UNKNOWN_ERROR,
+      message: 'An unexpected error occurred',
     };
-  };
-}
+  }
+
+  const { statusCode, requestId, payload } = error;
+  const details = { statusCode, requestId, payload };
+
+  switch (error.type) {
+    case ApiErrorType.UNAUTHORIZED:
+      return {
+        ...details,
+        type: AuthErrorType.INVALID_CREDENTIALS,
+        message: 'Invalid email or password',
+      };
+    case ApiErrorType.OFFLINE:
+    case ApiErrorType.TIMEOUT:
+      return {
+        ...details,
+        type: AuthErrorType.NETWORK_ERROR,
+        message: error.message,
+      };
+    case ApiErrorType.VALIDATION:
+      return {
+        ...details,
+        type: AuthErrorType.VALIDATION_ERROR,
+        message: error.message,
+      };
+    default:
+      return {
+        ...details,
+        type: AuthErrorType.UNKNOWN_ERROR,
+        message: error.message,
+      };
+  }
+};
 
 /**
  * Interface for token storage - allows different implementations
@@ -36,6 +156,9 @@ export interface ITokenStorage {
   setToken(token: string): Promise<void>;
   getToken(): Promise<string | null>;
   removeToken(): Promise<void>;
+  setRefreshToken(token: string): Promise<void>;
+  getRefreshToken(): Promise<string | null>;
+  removeRefreshToken(): Promise<void>;
 }
 
 /**
@@ -47,6 +170,19 @@ export interface IUserStorage {
   removeUser(): Promise<void>;
 }
 
+/**
+ * Interface for storing logouts the server has not acknowledged yet
+ */
+export interface IPendingLogoutStorage {
+  getAll(): Promise<PendingLogout[]>;
+  save(entries: PendingLogout[]): Promise<void>;
+}
+
+/**
+ * Clears data cached for the signed-in user, who is still stored when it runs
+ */
+export type SessionCleaner = () => Promise<void>;
+
 /**
  * Interface for validation logic
  */
@@ -93,17 +229,26 @@ export class AuthValidator implements IAuthValidator {
  * Main authentication service
  * Responsible for:
  * - Coordinating login flow
- * - Token management
+ * - Token management and refresh
  * - Input validation
  *
  * Depends on interfaces, not concrete implementations (Dependency Inversion)
  */
-export class AuthService {
+export class AuthService implements ITokenRefresher {
+  private listeners = new Set<AuthEventListener>();
+  private sessionCleaners = new Set<SessionCleaner>();
+
+  /**
+   * @param loginClient GraphQL client bound to the login endpoint, sending
+   * without the session: a 401 there means wrong credentials
+   */
   constructor(
     private httpClient: IHttpClient,
+    private loginClient: IGraphQLClient,
     private tokenStorage: ITokenStorage,
     private validator: IAuthValidator,
     private userStorage?: IUserStorage,
+    private pendingLogoutStorage?: IPendingLogoutStorage,
   ) {}
 
   /**
@@ -119,29 +264,17 @@ export class AuthService {
       throw validationError;
     }
 
-    // const apiResponse = await this.httpClient.post<LoginV2ApiResponse>(
-    //   API_ENDPOINTS.login,
-    //   credentials,
-    // );
-    // Mock response for development without backend
-    const apiResponse: LoginV2ApiResponse = {
-      data: {
-        loginV2: {
-          token: 'mock_token_' + Date.now(),
-          user: {
-            uuid: 'mock_uuid_123',
-            email: credentials.email,
-            roles: ['user'],
-            lang: 'fr-FR',
-            enabled: true,
-          },
-        },
-      },
-    };
-    const loginData = apiResponse?.data?.loginV2;
-    console.log('Login API Response:', loginData);
+    let data: LoginV2Data;
+    try {
+      data = await this.loginClient.mutate(LOGIN_V2_MUTATION, credentials);
+    } catch (error) {
+      throw mapLoginApiError(error);
+    }
 
-    if (!loginData?.token || !loginData.user?.uuid || !loginData.user.email) {
+    // The schema guarantees token and user when loginV2 is present
+    const loginData = data.loginV2;
+
+    if (!loginData) {
       throw {
         type: AuthErrorType.UNKNOWN_ERROR,
         message: 'Invalid login response',
@@ -159,14 +292,25 @@ export class AuthService {
     const response: LoginResponse = {
       user: mappedUser,
       token: loginData.token,
+      ...(loginData.refreshToken
+        ? { refreshToken: loginData.refreshToken }
+        : {}),
     };
 
     await this.tokenStorage.setToken(response.token);
 
+    if (response.refreshToken) {
+      await this.tokenStorage.setRefreshToken(response.refreshToken);
+    }
+
     if (this.userStorage) {
       await this.userStorage.setUser(response.user);
     }
 
+    // Back online: revoke sessions that were logged out while offline
+    this.retryPendingLogouts().catch(() => undefined);
+
+    this.emit({ type: 'login', user: response.user });
     return response;
   }
 
@@ -177,18 +321,290 @@ export class AuthService {
     return this.tokenStorage.getToken();
   }
 
+  /**
+   * Exchange the stored refresh token for a new access token
+   * Clears the session and emits `sessionExpired` when the server rejects it;
+   * network and server failures keep the session so the call can be retried
+   * @returns The new access token, or null when refresh was not possible
+   */
+  async refreshAccessToken(): Promise<string | null> {
+    return this.renewAccessToken().catch(() => null);
+  }
+
+  /**
+   * Refresh the access token, telling a refused refresh token apart from a
+   * failure worth retrying
+   * @returns The new access token, or null when the session has expired
+   * @throws ApiError on network, timeout, rate limit and server failures;
+   * the session is kept
+   */
+  private async renewAccessToken(): Promise<string | null> {
+    const refreshToken = await this.tokenStorage.getRefreshToken();
+    if (!refreshToken) {
+      await this.expireSession();
+      return null;
+    }
+
+    let apiResponse: Infer<typeof REFRESH_RESPONSE_SCHEMA>;
+    try {
+      apiResponse = await this.httpClient.post(
+        API_ENDPOINTS.refresh,
+        { refreshToken },
+        { skipAuthRefresh: true, schema: REFRESH_RESPONSE_SCHEMA },
+      );
+    } catch (error) {
+      // A 400/401/403, or an answer without a token, means the refresh token
+      // is unusable; anything else can be retried
+      if (isRejectedTokenError(error)) {
+        await this.expireSession();
+        return null;
+      }
+      throw error;
+    }
+
+    await this.tokenStorage.setToken(apiResponse.token);
+    if (apiResponse.refreshToken) {
+      await this.tokenStorage.setRefreshToken(apiResponse.refreshToken);
+    }
+
+    this.emit({ type: 'refresh' });
+    return apiResponse.token;
+  }
+
+  /**
+   * Subscribe to session events
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: AuthEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /**
    * Logout operation
    */
   async logout(): Promise<void> {
-    await this.tokenStorage.removeToken();
+    const pending: PendingLogout = {
+      token: await this.tokenStorage.getToken(),
+      refreshToken: await this.tokenStorage.getRefreshToken(),
+    };
+
+    if (pending.token || pending.refreshToken) {
+      const revoked = await this.revokeSession(pending);
+      if (!revoked) {
+        await this.queuePendingLogout(pending);
+      }
+    }
+
+    await this.clearUserData();
+    await this.clearLocalSession();
+    this.emit({ type: 'logout' });
+  }
+
+  /**
+   * Retry server-side revocation of sessions logged out while offline
+   */
+  async retryPendingLogouts(): Promise<void> {
+    if (!this.pendingLogoutStorage) {
+      return;
+    }
+
+    const entries = await this.pendingLogoutStorage.getAll();
+    if (entries.length === 0) {
+      return;
+    }
+
+    const remaining: PendingLogout[] = [];
+    for (const entry of entries) {
+      if (!(await this.revokeSession(entry))) {
+        remaining.push(entry);
+      }
+    }
+
+    await this.pendingLogoutStorage.save(remaining);
+  }
+
+  /**
+   * Register a cleaner for per-user cached data, run on logout
+   * An expired session keeps its data, so writes queued by the user are
+   * still sent once they sign in again
+   * @returns Function removing the cleaner
+   */
+  addSessionCleaner(cleaner: SessionCleaner): () => void {
+    this.sessionCleaners.add(cleaner);
+    return () => {
+      this.sessionCleaners.delete(cleaner);
+    };
   }
 
   /**
    * Check if user is authenticated
    */
   async isAuthenticated(): Promise<boolean> {
+    return (await this.getSession()) !== null;
+  }
+
+  /**
+   * Validate the stored session locally
+   * Rejects malformed or expired tokens, and tokens whose subject does not
+   * match the stored user
+   * @returns The session, or null when the user must log in again
+   */
+  async getSession(): Promise<AuthSession | null> {
     const token = await this.tokenStorage.getToken();
-    return Boolean(token);
+    if (!token) {
+      return null;
+    }
+
+    const claims = decodeJwtClaims(token);
+    if (!claims) {
+      return null;
+    }
+
+    const expiresAt = claims.exp !== undefined ? claims.exp * 1000 : null;
+    if (expiresAt !== null && expiresAt - EXPIRY_LEEWAY_MS <= Date.now()) {
+      return null;
+    }
+
+    const user = this.userStorage ? await this.userStorage.getUser() : null;
+    if (user && claims.sub !== undefined && claims.sub !== user.id) {
+      return null;
+    }
+
+    return {
+      token,
+      userId: claims.sub ?? null,
+      user,
+      expiresAt,
+      issuedAt: claims.iat !== undefined ? claims.iat * 1000 : null,
+    };
+  }
+
+  /**
+   * Rehydrate the session persisted on the device (cold start)
+   * Renews an expired access token with the refresh token when possible and
+   * wipes leftovers of a session that can no longer be used; only a refused
+   * refresh token signs the user out, not a failure to reach the server
+   */
+  async restoreSession(): Promise<RestoredSession> {
+    const session = await this.getSession();
+    if (session) {
+      return { status: 'restored', session };
+    }
+
+    const [token, refreshToken] = await Promise.all([
+      this.tokenStorage.getToken(),
+      this.tokenStorage.getRefreshToken(),
+    ]);
+    if (!token && !refreshToken) {
+      return { status: 'signedOut' };
+    }
+
+    if (refreshToken) {
+      try {
+        if (await this.renewAccessToken()) {
+          const renewed = await this.getSession();
+          if (renewed) {
+            return { status: 'restored', session: renewed };
+          }
+        }
+      } catch (error) {
+        // Offline, timeout, rate limit or server error: keep tokens to retry
+        // later, no sooner than the server asked
+        const user = this.userStorage ? await this.userStorage.getUser() : null;
+        return isApiError(error) && error.retryAfterMs !== undefined
+          ? { status: 'offline', user, retryAfterMs: error.retryAfterMs }
+          : { status: 'offline', user };
+      }
+    }
+
+    await this.clearLocalSession();
+    return { status: 'signedOut' };
+  }
+
+  /**
+   * Remaining lifetime of the current session in milliseconds
+   * @returns 0 without a valid session, Infinity when the token never expires
+   */
+  async getSessionRemainingTime(): Promise<number> {
+    const session = await this.getSession();
+    if (!session) {
+      return 0;
+    }
+    if (session.expiresAt === null) {
+      return Number.POSITIVE_INFINITY;
+    }
+    return Math.max(0, session.expiresAt - Date.now());
+  }
+
+  /**
+   * Drop the local session after a failed refresh and notify listeners
+   */
+  private async expireSession(): Promise<void> {
+    await this.clearLocalSession();
+    this.emit({ type: 'sessionExpired' });
+  }
+
+  /**
+   * Ask the server to revoke the given tokens, authenticated as the session
+   * being revoked rather than whoever is signed in now
+   * @returns false when the call should be retried later (offline, 408,
+   * 429, 5xx)
+   */
+  private async revokeSession(entry: PendingLogout): Promise<boolean> {
+    try {
+      await this.httpClient.post(API_ENDPOINTS.logout, entry, {
+        skipAuth: true,
+        skipAuthRefresh: true,
+        schema: LOGOUT_RESPONSE_SCHEMA,
+        ...(entry.token
+          ? { headers: { Authorization: `Bearer ${entry.token}` } }
+          : {}),
+      });
+      return true;
+    } catch (error) {
+      // Tokens the server refuses are already unusable: nothing to revoke
+      return isRejectedTokenError(error);
+    }
+  }
+
+  private async queuePendingLogout(entry: PendingLogout): Promise<void> {
+    if (!this.pendingLogoutStorage) {
+      return;
+    }
+
+    const entries = await this.pendingLogoutStorage.getAll();
+    await this.pendingLogoutStorage.save([...entries, entry]);
+  }
+
+  /**
+   * Run the session cleaners while the user is still stored
+   */
+  private async clearUserData(): Promise<void> {
+    for (const cleaner of this.sessionCleaners) {
+      try {
+        await cleaner();
+      } catch (error) {
+        console.error('Failed to clear session data:', error);
+      }
+    }
+  }
+
+  /**
+   * Remove tokens and user from the device
+   */
+  private async clearLocalSession(): Promise<void> {
+    await this.tokenStorage.removeToken();
+    await this.tokenStorage.removeRefreshToken();
+
+    if (this.userStorage) {
+      await this.userStorage.removeUser();
+    }
+  }
+
+  private emit(event: AuthEvent): void {
+    this.listeners.forEach(listener => listener(event));
   }
 }
@@ -0,0 +1,205 @@
+/**
+ * Entity Service - Looks up scanned and linked kitchen records
+ * @file Resolves entity references through the authenticated API and runs
+ * the actions offered on the detail screen
+ */
+
+import { decodeResponse } from './api/apiErrors';
+import { IHttpClient } from './api/HttpClient';
+import { s, Schema } from './api/schema';
+import { ApiError, ApiErrorType, isApiError } from '../types/api.types';
+import { OutboxMutation, OutboxResult } from '../types/outbox.types';
+import {
+  EntityAction,
+  EntityDetails,
+  EntityLoadError,
+  EntityRef,
+  EntityType,
+} from '../types/entity.types';
+
+/**
+ * Queue for writes made while offline
+ */
+export interface IOutbox {
+  send<T>(mutation: OutboxMutation): Promise<OutboxResult<T>>;
+}
+
+/**
+ * Outbox type of entity actions
+ */
+export const ENTITY_ACTION_MUTATION = 'entityAction';
+
+/**
+ * API collection of each entity type
+ */
+const ENTITY_COLLECTIONS: Record<EntityType, string> = {
+  order: '/orders',
+  equipment: '/equipment',
+  location: '/locations',
+  lot: '/lots',
+};
+
+/**
+ * Fields shared by every entity record
+ */
+const ENTITY_REF_SHAPE = {
+  id: s.string(),
+  site: s.optional(s.string()),
+};
+
+/**
+ * Record returned for each entity type; a record of another type is rejected
+ */
+const ENTITY_DETAILS_SCHEMAS: {
+  [K in EntityType]: Schema<Extract<EntityDetails, { type: K }>>;
+} = {
+  order: s.object({
+    ...ENTITY_REF_SHAPE,
+    type: s.oneOf(['order'] as const),
+    reference: s.string(),
+    status: s.oneOf(['pending', 'received', 'cancelled'] as const),
+    supplier: s.optional(s.string()),
+    expectedAt: s.optional(s.string()),
+    lines: s.array(
+      s.object({ name: s.string(), quantity: s.number(), unit: s.string() }),
+    ),
+  }),
+  equipment: s.object({
+    ...ENTITY_REF_SHAPE,
+    type: s.oneOf(['equipment'] as const),
+    name: s.string(),
+    status: s.oneOf(['ok', 'maintenance', 'out_of_service'] as const),
+    kind: s.optional(
+      s.oneOf(['fridge', 'freezer', 'hotHold', 'other'] as const),
+    ),
+    temperatureC: s.optional(s.number()),
+    lastCheckedAt: s.optional(s.string()),
+  }),
+  location: s.object({
+    ...ENTITY_REF_SHAPE,
+    type: s.oneOf(['location'] as const),
+    name: s.string(),
+    storageType: s.oneOf(['ambient', 'chilled', 'frozen'] as const),
+    lastCleanedAt: s.optional(s.string()),
+  }),
+  lot: s.object({
+    ...ENTITY_REF_SHAPE,
+    type: s.oneOf(['lot'] as const),
+    productName: s.string(),
+    lotNumber: s.string(),
+    status: s.oneOf(['available', 'used', 'discarded'] as const),
+    quantity: s.number(),
+    unit: s.string(),
+    supplier: s.optional(s.string()),
+    expiresAt: s.optional(s.string()),
+  }),
+};
+
+/**
+ * Schema of the record a reference points to
+ */
+const getDetailsSchema = (type: EntityType): Schema<EntityDetails> =>
+  ENTITY_DETAILS_SCHEMAS[type];
+
+/**
+ * Actions offered for each entity type
+ */
+export const ENTITY_ACTIONS: Record<EntityType, EntityAction[]> = {
+  order: [{ id: 'receive', label: 'Mark as received' }],
+  equipment: [
+    { id: 'report-fault', label: 'Report a fault' },
+    { id: 'mark-serviced', label: 'Mark as serviced' },
+  ],
+  location: [{ id: 'mark-cleaned', label: 'Mark as cleaned' }],
+  lot: [
+    { id: 'mark-used', label: 'Mark as used' },
+    { id: 'discard', label: 'Discard' },
+  ],
+};
+
+/**
+ * Map a failed lookup to the state shown on screen
+ */
+export const getEntityLoadError = (error: unknown): EntityLoadError => {
+  if (!isApiError(error)) {
+    return 'unknown';
+  }
+  switch (error.type) {
+    case ApiErrorType.OFFLINE:
+    case ApiErrorType.TIMEOUT:
+      return 'offline';
+    case ApiErrorType.FORBIDDEN:
+      return 'forbidden';
+    case ApiErrorType.NOT_FOUND:
+      return 'notFound';
+    default:
+      return 'unknown';
+  }
+};
+
+/**
+ * Path of an entity, scoped to its site when known
+ */
+const getEntityUrl = (ref: EntityRef, suffix = ''): string => {
+  const path = `${ENTITY_COLLECTIONS[ref.type]}/${encodeURIComponent(
+    ref.id,
+  )}${suffix}`;
+  return ref.site ? `${path}?site=${encodeURIComponent(ref.site)}` : path;
+};
+
+export class EntityService {
+  private httpClient: IHttpClient;
+  private outbox: IOutbox;
+
+  constructor(httpClient: IHttpClient, outbox: IOutbox) {
+    this.httpClient = httpClient;
+    this.outbox = outbox;
+  }
+
+  /**
+   * Fetch the details of an entity
+   * @throws ApiError; see getEntityLoadError
+   */
+  async getEntity(ref: EntityRef): Promise<EntityDetails> {
+    const details = await this.httpClient.get(getEntityUrl(ref), {
+      schema: getDetailsSchema(ref.type),
+    });
+    return this.checkDetails(ref, details);
+  }
+
+  /**
+   * Run an action on an entity, or queue it in the outbox when offline
+   * @returns The entity as updated by the server, or null when queued
+   * @throws ApiError, or OutboxError when nobody is signed in
+   */
+  async performAction(
+    ref: EntityRef,
+    action: EntityAction,
+  ): Promise<EntityDetails | null> {
+    const result = await this.outbox.send<unknown>({
+      type: ENTITY_ACTION_MUTATION,
+      method: 'POST',
+      url: getEntityUrl(ref, `/actions/${encodeURIComponent(action.id)}`),
+      body: {},
+    });
+    return result.status === 'sent'
+      ? this.checkDetails(
+          ref,
+          decodeResponse(getDetailsSchema(ref.type), result.data),
+        )
+      : null;
+  }
+
+  /**
+   * Guard against a well-formed response for another record
+   */
+  private checkDetails(ref: EntityRef, details: EntityDetails): EntityDetails {
+    if (details.id !== ref.id) {
+      throw {
+        type: ApiErrorType.UNKNOWN,
+        message: 'Invalid entity response',
+      } as ApiError;
+    }
+    return details;
+  }
+}
@@ -5,9 +5,59 @@
  */
 
 import { AuthService, AuthValidator } from './AuthService';
-import { HttpClient, IHttpClient } from './api/HttpClient';
+import { EntityService } from './EntityService';
+import { GraphQLClient } from './api/GraphQLClient';
+import { API_ENDPOINTS, HttpClient, IHttpClient } from './api/HttpClient';
+import {
+  createAuthTokenInterceptor,
+  createClientInfoInterceptor,
+  createConnectivityInterceptor,
+  createLoggingInterceptors,
+} from './api/interceptors';
+import { MockServerHttpClient } from './api/MockServerHttpClient';
+import { ProductLotService } from './expiry/ProductLotService';
+import { TemperatureLogService } from './haccp/TemperatureLogService';
+import { OutboxService } from './outbox/OutboxService';
+import { PhotoService } from './photo/PhotoService';
+import { BUNDLED_QR_KEYS } from './scan/qrKeys';
+import { QrKeyStore } from './scan/QrKeyStore';
+import { QrSignatureVerifier } from './scan/QrSignatureVerifier';
+import { BatchCountService } from './scan/BatchCountService';
+import { ScanHistoryService } from './scan/ScanHistoryService';
+import { ScanPipeline } from './scan/ScanPipeline';
+import { parseScanContent } from './scan/scanContent';
+import { AsyncStorageBatchCountStorage } from './storage/AsyncStorageBatchCountStorage';
+import { AsyncStorageOutboxStorage } from './storage/AsyncStorageOutboxStorage';
+import { AsyncStorageProductLotStorage } from './storage/AsyncStorageProductLotStorage';
+import { AsyncStorageQrKeyStorage } from './storage/AsyncStorageQrKeyStorage';
+import { AsyncStorageScanHistoryStorage } from './storage/AsyncStorageScanHistoryStorage';
+import { AsyncStoragePendingLogoutStorage } from './storage/AsyncStoragePendingLogoutStorage';
+import { AsyncStoragePhotoStorage } from './storage/AsyncStoragePhotoStorage';
+import { AsyncStorageTemperatureLogStorage } from './storage/AsyncStorageTemperatureLogStorage';
 import { AsyncStorageTokenStorage } from './storage/AsyncStorageTokenStorage';
 import { AsyncStorageUserStorage } from './storage/AsyncStorageUserStorage';
+import { DevicePhotoFiles } from './storage/DevicePhotoFiles';
+import { QrUnsignedPolicy } from '../types/qrPayload.types';
+import { version as appVersion } from '../../package.json';
+
+/**
+ * Locale used until a user with a language preference is stored
+ */
+const DEFAULT_LOCALE = 'fr-FR';
+
+/**
+ * Unsigned code policy while signed labels roll out: labels and app links
+ * printed before signing keep opening, shown as unverified
+ * Set `QR_UNSIGNED_POLICY=reject` once every site has signed labels
+ */
+const DEFAULT_QR_UNSIGNED_POLICY: QrUnsignedPolicy = 'legacy';
+
+const getQrUnsignedPolicy = (): QrUnsignedPolicy => {
+  const policy = process.env.QR_UNSIGNED_POLICY;
+  return policy === 'reject' || policy === 'legacy'
+    ? policy
+    : DEFAULT_QR_UNSIGNED_POLICY;
+};
 
 /**
  * Container for all application services
@@ -16,28 +66,156 @@ import { AsyncStorageUserStorage } from './storage/AsyncStorageUserStorage';
 export class ServiceContainer {
   private static instance: ServiceContainer;
   private httpClient: IHttpClient;
+  private graphQLClient: GraphQLClient;
   private authService: AuthService;
   private userStorage: AsyncStorageUserStorage;
+  private entityService: EntityService;
+  private outboxService: OutboxService;
+  private qrKeyStore: QrKeyStore;
+  private scanPipeline: ScanPipeline;
+  private scanHistoryService: ScanHistoryService;
+  private batchCountService: BatchCountService;
+  private productLotService: ProductLotService;
+  private temperatureLogService: TemperatureLogService;
+  private photoService: PhotoService;
 
   private constructor() {
-    // Initialize HTTP Client
+    // Initialize HTTP Client (in-process mock backend when opted in)
     const baseUrl = process.env.API_URL || 'http://localhost:3000';
-    this.httpClient = new HttpClient(baseUrl, 10000);
+    this.httpClient =
+      process.env.USE_MOCK_API === 'true'
+        ? new MockServerHttpClient()
+        : new HttpClient(baseUrl, 10000);
+    this.graphQLClient = new GraphQLClient(this.httpClient);
 
     // Initialize storage
     const tokenStorage = new AsyncStorageTokenStorage();
     this.userStorage = new AsyncStorageUserStorage();
+    const pendingLogoutStorage = new AsyncStoragePendingLogoutStorage();
 
     // Initialize validators
     const authValidator = new AuthValidator();
 
-    // Initialize Auth Service with dependencies
+    // Initialize Auth Service with dependencies; loginV2 is a GraphQL
+    // mutation served by the login endpoint
     this.authService = new AuthService(
       this.httpClient,
+      new GraphQLClient(this.httpClient, {
+        endpoint: API_ENDPOINTS.login,
+        anonymous: true,
+      }),
       tokenStorage,
       authValidator,
       this.userStorage,
+      pendingLogoutStorage,
+    );
+
+    // Writes made offline wait in the user's outbox
+    this.outboxService = new OutboxService(
+      this.httpClient,
+      new AsyncStorageOutboxStorage(),
+      this.userStorage,
+    );
+
+    this.entityService = new EntityService(this.httpClient, this.outboxService);
+
+    if (this.httpClient instanceof HttpClient) {
+      this.configureHttpClient(this.httpClient, tokenStorage);
+    }
+
+    // Initialize scanning, with offline verification of signed codes
+    this.qrKeyStore = new QrKeyStore(
+      BUNDLED_QR_KEYS,
+      new AsyncStorageQrKeyStorage(),
+      this.httpClient,
+    );
+    const qrSignatureVerifier = new QrSignatureVerifier(
+      this.qrKeyStore,
+      Date.now,
+      getQrUnsignedPolicy(),
+    );
+    this.scanPipeline = new ScanPipeline({
+      parseContent: (rawValue, symbology) =>
+        parseScanContent(rawValue, symbology, qrSignatureVerifier),
+    });
+
+    // Record every scan in the signed-in user's history
+    this.scanHistoryService = new ScanHistoryService(
+      new AsyncStorageScanHistoryStorage(),
+      this.userStorage,
+    );
+    this.scanPipeline.subscribe(async result => {
+      await this.scanHistoryService.record(result);
+    });
+
+    this.batchCountService = new BatchCountService(
+      this.httpClient,
+      new AsyncStorageBatchCountStorage(),
+      this.userStorage,
+    );
+
+    // Track the expiry of supplier lots as they are scanned
+    this.productLotService = new ProductLotService(
+      this.httpClient,
+      new AsyncStorageProductLotStorage(),
+    );
+    this.scanPipeline.subscribe(async result => {
+      await this.productLotService.capture(result);
+    });
+
+    this.temperatureLogService = new TemperatureLogService(
+      this.httpClient,
+      new AsyncStorageTemperatureLogStorage(),
+      this.userStorage,
+    );
+
+    this.photoService = new PhotoService(
+      this.httpClient,
+      new AsyncStoragePhotoStorage(),
+      new DevicePhotoFiles(),
+      this.userStorage,
+    );
+
+    // Wipe the user's cached data on logout; writes not sent yet (outbox,
+    // count draft, pending readings and photos) stay keyed by user and are
+    // sent at their next sign-in
+    this.authService.addSessionCleaner(() => this.scanHistoryService.clear());
+    this.authService.addSessionCleaner(() => this.productLotService.clear());
+    this.authService.addSessionCleaner(() =>
+      this.temperatureLogService.clear(),
+    );
+    this.authService.addSessionCleaner(() => this.photoService.clear());
+  }
+
+  /**
+   * Register interceptors and token refresh on the real HTTP client
+   */
+  private configureHttpClient(
+    httpClient: HttpClient,
+    tokenStorage: AsyncStorageTokenStorage,
+  ): void {
+    httpClient.addRequestInterceptor(createAuthTokenInterceptor(tokenStorage));
+    httpClient.addRequestInterceptor(
+      createClientInfoInterceptor({
+        appVersion,
+        getLocale: async () =>
+          (await this.userStorage.getUser())?.lang ?? DEFAULT_LOCALE,
+      }),
+    );
+
+    httpClient.addResponseInterceptor(
+      createConnectivityInterceptor(() => {
+        this.outboxService.replay().catch(() => undefined);
+      }),
     );
+
+    if (__DEV__) {
+      const logging = createLoggingInterceptors();
+      httpClient.addRequestInterceptor(logging.request);
+      httpClient.addResponseInterceptor(logging.response);
+    }
+
+    httpClient.setTokenRefresher(this.authService);
   }
 
   /**
@@ -57,6 +235,13 @@ export class ServiceContainer {
     return this.httpClient;
   }
 
+  /**
+   * Get GraphQL Client instance
+   */
+  getGraphQLClient(): GraphQLClient {
+    return this.graphQLClient;
+  }
+
   /**
    * Get Auth Service instance
    */
@@ -64,12 +249,75 @@ export class ServiceContainer {
     return this.authService;
   }
 
+  /**
+   * Get Entity Service instance
+   */
+  getEntityService(): EntityService {
+    return this.entityService;
+  }
+
+  /**
+   * Get Outbox Service instance
+   */
+  getOutboxService(): OutboxService {
+    return this.outboxService;
+  }
+
   /**
    * Get User Storage instance
    */
   getUserStorage(): AsyncStorageUserStorage {
     return this.userStorage;
   }
+
+  /**
+   * Get QR Key Store instance
+   */
+  getQrKeyStore(): QrKeyStore {
+    return this.qrKeyStore;
+  }
+
+  /**
+   * Get Scan Pipeline instance
+   */
+  getScanPipeline(): ScanPipeline {
+    return this.scanPipeline;
+  }
+
+  /**
+   * Get Scan History Service instance
+   */
+  getScanHistoryService(): ScanHistoryService {
+    return this.scanHistoryService;
+  }
+
+  /**
+   * Get Batch Count Service instance
+   */
+  getBatchCountService(): BatchCountService {
+    return this.batchCountService;
+  }
+
+  /**
+   * Get Product Lot Service instance
+   */
+  getProductLotService(): ProductLotService {
+    return this.productLotService;
+  }
+
+  /**
+   * Get Temperature Log Service instance
+   */
+  getTemperatureLogService(): TemperatureLogService {
+    return this.temperatureLogService;
+  }
+
+  /**
+   * Get Photo Service instance
+   */
+  getPhotoService(): PhotoService {
+    return this.photoService;
+  }
 }
 
 /**
@@ -0,0 +1,133 @@
+/**
+ * Test Doubles - Shared fakes for service tests
+ * @file In-memory HTTP client and user storage used across
+ * `src/services/__tests__`
+ */
+
+import { IUserStorage } from '../AuthService';
+import { decodeResponse } from '../api/apiErrors';
+import { IHttpClient, RequestOptions } from '../api/HttpClient';
+import { User } from '../../types/auth.types';
+
+/**
+ * Request that reached the mock server
+ */
+export interface SentRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  data?: unknown;
+  options?: RequestOptions;
+}
+
+/**
+ * HTTP client answering from fields set by the test
+ * A request throws the next queued error, or `error`, as if it never reached
+ * the server; otherwise it is recorded and answered with the next queued
+ * response, or `response`, checked against `options.schema` like the real
+ * client does
+ */
+export class MockHttpClient implements IHttpClient {
+  /** Requests that reached the server, in order */
+  requests: SentRequest[] = [];
+  /** Responses of the next requests, in order; then `response` */
+  responses: unknown[] = [];
+  response: unknown = {};
+  /** Errors thrown by the next requests, in order; then `error` */
+  errors: unknown[] = [];
+  error: unknown = null;
+  /** Runs while a request is in flight, before it is answered */
+  onRequest?: (request: SentRequest) => Promise<void>;
+
+  /**
+   * POST requests as url and body
+   */
+  get posts(): Array<{ url: string; data: unknown }> {
+    return this.requests
+      .filter(request => request.method === 'POST')
+      .map(({ url, data }) => ({ url, data }));
+  }
+
+  async get<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    return this.respond({ method: 'GET', url, options }, options);
+  }
+
+  async post<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.respond({ method: 'POST', url, data, options }, options);
+  }
+
+  async put<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.respond({ method: 'PUT', url, data, options }, options);
+  }
+
+  async patch<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.respond({ method: 'PATCH', url, data, options }, options);
+  }
+
+  async delete<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    return this.respond({ method: 'DELETE', url, options }, options);
+  }
+
+  private async respond<T>(
+    request: SentRequest,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    const error = this.errors.length ? this.errors.shift() : this.error;
+    if (error) {
+      throw error;
+    }
+    this.requests.push(request);
+    await this.onRequest?.(request);
+    const response = this.responses.length
+      ? this.responses.shift()
+      : this.response;
+    return options?.schema
+      ? decodeResponse(options.schema, response)
+      : (response as T);
+  }
+}
+
+/**
+ * User storage holding the signed-in user in memory
+ */
+export class MockUserStorage implements IUserStorage {
+  user: User | null;
+
+  constructor(user: User | null = null) {
+    this.user = user;
+  }
+
+  async setUser(user: User): Promise<void> {
+    this.user = user;
+  }
+
+  async getUser(): Promise<User | null> {
+    return this.user;
+  }
+
+  async removeUser(): Promise<void> {
+    this.user = null;
+  }
+}
+
+/**
+ * Enabled user with the given id
+ */
+export const createUser = (id: string): User => ({
+  id,
+  email: `${id}@keytchens.com`,
+  roles: ['user'],
+  lang: 'fr-FR',
+  enabled: true,
+});
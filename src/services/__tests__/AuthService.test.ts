@@ -4,29 +4,37 @@
  * Follows AAA pattern: Arrange, Act, Assert
  */
 
-import { AuthService, AuthValidator, ITokenStorage } from '../AuthService';
-import { IHttpClient } from '../api/HttpClient';
-import { LoginRequest, LoginResponse, AuthErrorType, User } from '../../types/auth.types';
+import {
+  AuthService,
+  AuthValidator,
+  LOGIN_V2_DATA_SCHEMA,
+  LOGIN_V2_MUTATION,
+  IPendingLogoutStorage,
+  ITokenStorage,
+} from '../AuthService';
+import { createApiError } from '../api/apiErrors';
+import { GraphQLClient } from '../api/GraphQLClient';
+import { parse } from '../api/schema';
+import {
+  createUser,
+  MockHttpClient,
+  MockUserStorage,
+} from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+import {
+  LoginRequest,
+  LoginResponse,
+  AuthErrorType,
+  PendingLogout,
+  User,
+} from '../../types/auth.types';
 
 /**
  * Mock implementations for testing
  */
-class MockHttpClient implements IHttpClient {
-  async post<T>(url: string, data: unknown): Promise<T> {
-    return {} as T;
-  }
-
-  async get<T>(url: string): Promise<T> {
-    return {} as T;
-  }
-
-  async put<T>(url: string, data: unknown): Promise<T> {
-    return {} as T;
-  }
-}
-
 class MockTokenStorage implements ITokenStorage {
   private token: string | null = null;
+  private refreshToken: string | null = null;
 
   async setToken(token: string): Promise<void> {
     this.token = token;
@@ -39,8 +47,44 @@ class MockTokenStorage implements ITokenStorage {
   async removeToken(): Promise<void> {
     this.token = null;
   }
+
+  async setRefreshToken(token: string): Promise<void> {
+    this.refreshToken = token;
+  }
+
+  async getRefreshToken(): Promise<string | null> {
+    return this.refreshToken;
+  }
+
+  async removeRefreshToken(): Promise<void> {
+    this.refreshToken = null;
+  }
+}
+
+class MockPendingLogoutStorage implements IPendingLogoutStorage {
+  entries: PendingLogout[] = [];
+
+  async getAll(): Promise<PendingLogout[]> {
+    return this.entries;
+  }
+
+  async save(entries: PendingLogout[]): Promise<void> {
+    this.entries = entries;
+  }
 }
 
+/**
+ * Build an unsigned JWT carrying the given claims
+ */
+const createJwt = (claims: Record<string, unknown>): string =>
+  [
+    Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url'),
+    Buffer.from(JSON.stringify(claims)).toString('base64url'),
+    'signature',
+  ].join('.');
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
 describe('AuthValidator', () => {
   let validator: AuthValidator;
 
@@ -114,15 +158,21 @@ describe('AuthValidator', () => {
 describe('AuthService', () => {
   let authService: AuthService;
   let mockHttpClient: MockHttpClient;
+  let loginClient: GraphQLClient;
   let mockTokenStorage: MockTokenStorage;
   let validator: AuthValidator;
 
   beforeEach(() => {
     mockHttpClient = new MockHttpClient();
+    loginClient = new GraphQLClient(mockHttpClient, {
+      endpoint: '/auth/login',
+      anonymous: true,
+    });
     mockTokenStorage = new MockTokenStorage();
     validator = new AuthValidator();
     authService = new AuthService(
       mockHttpClient,
+      loginClient,
       mockTokenStorage,
       validator,
     );
@@ -174,7 +224,20 @@ describe('AuthService', () => {
 
       const result = await authService.login(credentials);
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/auth/login', credentials);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/auth/login',
+        {
+          operationName: 'LoginV2',
+          query: LOGIN_V2_MUTATION.document,
+          variables: credentials,
+        },
+        {
+          idempotent: false,
+          skipAuth: true,
+          skipAuthRefresh: true,
+          schema: expect.any(Function),
+        },
+      );
       const expectedResponse: LoginResponse = {
         user: mockUser,
         token: 'mock-token',
@@ -210,9 +273,301 @@ describe('AuthService', () => {
 
       expect(mockTokenStorage.setToken).toHaveBeenCalledWith('mock-token');
     });
+
+    it('should map UNAUTHENTICATED GraphQL error to invalid credentials', async () => {
+      const credentials: LoginRequest = {
+        email: 'test@example.com',
+        password: 'wrong-password',
+      };
+
+      jest.spyOn(mockHttpClient, 'post').mockResolvedValueOnce({
+        errors: [
+          {
+            message: 'Bad credentials',
+            extensions: { code: 'UNAUTHENTICATED' },
+          },
+        ],
+      } as any);
+      jest.spyOn(mockTokenStorage, 'setToken');
+
+      await expect(authService.login(credentials)).rejects.toMatchObject({
+        type: AuthErrorType.INVALID_CREDENTIALS,
+      });
+      expect(mockTokenStorage.setToken).not.toHaveBeenCalled();
+    });
+
+    it('should report rejected GraphQL input as a validation error', async () => {
+      const credentials: LoginRequest = {
+        email: 'test@example.com',
+        password: 'password123',
+      };
+
+      mockHttpClient.response = {
+        errors: [
+          {
+            message: 'Email is not registered',
+            extensions: { code: 'BAD_USER_INPUT', field: 'email' },
+          },
+        ],
+      };
+
+      await expect(authService.login(credentials)).rejects.toMatchObject({
+        type: AuthErrorType.VALIDATION_ERROR,
+        message: 'Email is not registered',
+        payload: [expect.objectContaining({ message: 'Email is not registered' })],
+      });
+    });
+
+    it('should surface unknown GraphQL errors with their message', async () => {
+      const credentials: LoginRequest = {
+        email: 'test@example.com',
+        password: 'password123',
+      };
+
+      jest.spyOn(mockHttpClient, 'post').mockResolvedValueOnce({
+        errors: [{ message: 'Account locked' }],
+      } as any);
+
+      await expect(authService.login(credentials)).rejects.toMatchObject({
+        type: AuthErrorType.UNKNOWN_ERROR,
+        message: 'Account locked',
+      });
+    });
+
+    it('should report a 401 from the login endpoint as invalid credentials', async () => {
+      const credentials: LoginRequest = {
+        email: 'test@example.com',
+        password: 'wrong-password',
+      };
+
+      jest.spyOn(mockHttpClient, 'post').mockRejectedValueOnce({
+        type: ApiErrorType.UNAUTHORIZED,
+        message: 'Your session has expired. Please sign in again.',
+        statusCode: 401,
+        requestId: 'req-1',
+      });
+
+      await expect(authService.login(credentials)).rejects.toEqual({
+        type: AuthErrorType.INVALID_CREDENTIALS,
+        message: 'Invalid email or password',
+        statusCode: 401,
+        requestId: 'req-1',
+      });
+    });
+
+    it('should keep the server reason of a 403 on login', async () => {
+      const credentials: LoginRequest = {
+        email: 'test@example.com',
+        password: 'password123',
+      };
+
+      jest.spyOn(mockHttpClient, 'post').mockRejectedValueOnce({
+        type: ApiErrorType.FORBIDDEN,
+        message: 'Account disabled',
+        statusCode: 403,
+      });
+
+      await expect(authService.login(credentials)).rejects.toMatchObject({
+        type: AuthErrorType.UNKNOWN_ERROR,
+        message: 'Account disabled',
+        statusCode: 403,
+      });
+    });
+
+    it('should report login network failures as network errors', async () => {
+      const credentials: LoginRequest = {
+        email: 'test@example.com',
+        password: 'password123',
+      };
+
+      jest.spyOn(mockHttpClient, 'post').mockRejectedValueOnce({
+        type: ApiErrorType.TIMEOUT,
+        message: 'Request timeout. Please try again.',
+      });
+
+      await expect(authService.login(credentials)).rejects.toMatchObject({
+        type: AuthErrorType.NETWORK_ERROR,
+        message: 'Request timeout. Please try again.',
+      });
+    });
+
+    it('should reject a response without loginV2 data', async () => {
+      const credentials: LoginRequest = {
+        email: 'test@example.com',
+        password: 'password123',
+      };
+
+      jest.spyOn(mockHttpClient, 'post').mockResolvedValueOnce({
+        data: { loginV2: null },
+      } as any);
+
+      await expect(authService.login(credentials)).rejects.toMatchObject({
+        type: AuthErrorType.UNKNOWN_ERROR,
+        message: 'Invalid login response',
+      });
+    });
+  });
+
+  describe('LOGIN_V2_DATA_SCHEMA', () => {
+    it('should accept GraphQL nulls and coerce the enabled flag', () => {
+      const data = parse(LOGIN_V2_DATA_SCHEMA, {
+        loginV2: {
+          token: 'mock-token',
+          refreshToken: null,
+          user: { uuid: '1', email: 'test@example.com', roles: null, lang: null, enabled: 'true' },
+        },
+      });
+
+      expect(data.loginV2?.user).toEqual({
+        uuid: '1',
+        email: 'test@example.com',
+        roles: null,
+        lang: null,
+        enabled: true,
+      });
+    });
+
+    it('should name the field a changed backend no longer sends', () => {
+      expect(() =>
+        parse(LOGIN_V2_DATA_SCHEMA, {
+          loginV2: { token: 'mock-token', user: { uuid: 1, email: 'test@example.com' } },
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          message: '$.loginV2.user.uuid: expected string, got number',
+        }),
+      );
+    });
+  });
+
+  describe('refreshAccessToken', () => {
+    it('should store and return the new token pair', async () => {
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      jest.spyOn(mockHttpClient, 'post').mockResolvedValueOnce({
+        token: 'access-2',
+        refreshToken: 'refresh-2',
+      } as any);
+
+      const result = await authService.refreshAccessToken();
+
+      expect(result).toBe('access-2');
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/auth/refresh',
+        { refreshToken: 'refresh-1' },
+        { skipAuthRefresh: true, schema: expect.any(Function) },
+      );
+      expect(await mockTokenStorage.getToken()).toBe('access-2');
+      expect(await mockTokenStorage.getRefreshToken()).toBe('refresh-2');
+    });
+
+    it('should clear the session and emit sessionExpired when rejected', async () => {
+      await mockTokenStorage.setToken('access-1');
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      jest.spyOn(mockHttpClient, 'post').mockRejectedValueOnce({
+        type: ApiErrorType.UNAUTHORIZED,
+        message: 'Your session has expired. Please sign in again.',
+        statusCode: 401,
+      });
+      const listener = jest.fn();
+      authService.subscribe(listener);
+
+      const result = await authService.refreshAccessToken();
+
+      expect(result).toBeNull();
+      expect(await mockTokenStorage.getToken()).toBeNull();
+      expect(await mockTokenStorage.getRefreshToken()).toBeNull();
+      expect(listener).toHaveBeenCalledWith({ type: 'sessionExpired' });
+    });
+
+    it('should keep per-user data when the session expires', async () => {
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      mockHttpClient.error = createApiError(401);
+      const cleaner = jest.fn().mockResolvedValue(undefined);
+      authService.addSessionCleaner(cleaner);
+
+      await authService.refreshAccessToken();
+
+      expect(cleaner).not.toHaveBeenCalled();
+    });
+
+    it('should clear the session when the answer carries no token', async () => {
+      await mockTokenStorage.setToken('access-1');
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      mockHttpClient.response = { refreshToken: 'refresh-2' };
+
+      const result = await authService.refreshAccessToken();
+
+      expect(result).toBeNull();
+      expect(await mockTokenStorage.getToken()).toBeNull();
+      expect(await mockTokenStorage.getRefreshToken()).toBeNull();
+    });
+
+    it('should keep the session when the refresh fails offline', async () => {
+      await mockTokenStorage.setToken('access-1');
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      jest.spyOn(mockHttpClient, 'post').mockRejectedValueOnce({
+        type: ApiErrorType.OFFLINE,
+        message: 'Network error. Please check your connection.',
+      });
+
+      const result = await authService.refreshAccessToken();
+
+      expect(result).toBeNull();
+      expect(await mockTokenStorage.getToken()).toBe('access-1');
+    });
+
+    it('should keep the session when the refresh is rate limited', async () => {
+      await mockTokenStorage.setToken('access-1');
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      mockHttpClient.error = createApiError(429, { retryAfterMs: 60000 });
+      const listener = jest.fn();
+      authService.subscribe(listener);
+
+      const result = await authService.refreshAccessToken();
+
+      expect(result).toBeNull();
+      expect(await mockTokenStorage.getToken()).toBe('access-1');
+      expect(await mockTokenStorage.getRefreshToken()).toBe('refresh-1');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep the session when the refresh times out', async () => {
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      mockHttpClient.error = createApiError(408);
+
+      await authService.refreshAccessToken();
+
+      expect(await mockTokenStorage.getRefreshToken()).toBe('refresh-1');
+    });
   });
 
   describe('logout', () => {
+    let mockUserStorage: MockUserStorage;
+    let mockPendingLogoutStorage: MockPendingLogoutStorage;
+
+    beforeEach(async () => {
+      mockHttpClient.response = { success: true };
+      mockUserStorage = new MockUserStorage();
+      mockPendingLogoutStorage = new MockPendingLogoutStorage();
+      authService = new AuthService(
+        mockHttpClient,
+        loginClient,
+        mockTokenStorage,
+        validator,
+        mockUserStorage,
+        mockPendingLogoutStorage,
+      );
+      await mockTokenStorage.setToken('access-1');
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      await mockUserStorage.setUser({
+        id: '1',
+        email: 'test@example.com',
+        roles: [],
+        lang: 'fr-FR',
+        enabled: true,
+      });
+    });
+
     it('should remove token from storage', async () => {
       jest.spyOn(mockTokenStorage, 'removeToken');
 
@@ -220,11 +575,101 @@ describe('AuthService', () => {
 
       expect(mockTokenStorage.removeToken).toHaveBeenCalled();
     });
+
+    it('should revoke the session on the server', async () => {
+      jest.spyOn(mockHttpClient, 'post');
+
+      await authService.logout();
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/auth/logout',
+        { token: 'access-1', refreshToken: 'refresh-1' },
+        {
+          skipAuth: true,
+          skipAuthRefresh: true,
+          schema: expect.any(Function),
+          headers: { Authorization: 'Bearer access-1' },
+        },
+      );
+      expect(mockPendingLogoutStorage.entries).toEqual([]);
+    });
+
+    it('should wipe refresh token, user and session data', async () => {
+      const cleaner = jest.fn().mockResolvedValue(undefined);
+      authService.addSessionCleaner(cleaner);
+
+      await authService.logout();
+
+      expect(await mockTokenStorage.getRefreshToken()).toBeNull();
+      expect(await mockUserStorage.getUser()).toBeNull();
+      expect(cleaner).toHaveBeenCalled();
+    });
+
+    it('should run session cleaners while the user is still stored', async () => {
+      let cleanedUserId: string | undefined;
+      authService.addSessionCleaner(async () => {
+        cleanedUserId = (await mockUserStorage.getUser())?.id;
+      });
+
+      await authService.logout();
+
+      expect(cleanedUserId).toBe('1');
+    });
+
+    it('should emit a logout event', async () => {
+      const listener = jest.fn();
+      authService.subscribe(listener);
+
+      await authService.logout();
+
+      expect(listener).toHaveBeenCalledWith({ type: 'logout' });
+    });
+
+    it('should queue revocation when offline and retry it later', async () => {
+      jest.spyOn(mockHttpClient, 'post').mockRejectedValueOnce({
+        type: ApiErrorType.OFFLINE,
+        message: 'Network error. Please check your connection.',
+      });
+
+      await authService.logout();
+
+      expect(await mockTokenStorage.getToken()).toBeNull();
+      expect(mockPendingLogoutStorage.entries).toEqual([
+        { token: 'access-1', refreshToken: 'refresh-1' },
+      ]);
+
+      await authService.retryPendingLogouts();
+
+      expect(mockHttpClient.post).toHaveBeenLastCalledWith(
+        '/auth/logout',
+        { token: 'access-1', refreshToken: 'refresh-1' },
+        {
+          skipAuth: true,
+          skipAuthRefresh: true,
+          schema: expect.any(Function),
+          headers: { Authorization: 'Bearer access-1' },
+        },
+      );
+      expect(mockPendingLogoutStorage.entries).toEqual([]);
+    });
+
+    it('should keep a rate-limited revocation queued', async () => {
+      mockHttpClient.error = createApiError(429);
+
+      await authService.logout();
+      await authService.retryPendingLogouts();
+
+      expect(mockPendingLogoutStorage.entries).toEqual([
+        { token: 'access-1', refreshToken: 'refresh-1' },
+      ]);
+    });
   });
 
   describe('isAuthenticated', () => {
-    it('should return true when token exists', async () => {
-      await mockTokenStorage.setToken('mock-token');
+    it('should return true for an unexpired token', async () => {
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', exp: nowInSeconds() + 3600 }),
+      );
 
       const result = await authService.isAuthenticated();
 
@@ -236,6 +681,193 @@ describe('AuthService', () => {
 
       expect(result).toBe(false);
     });
+
+    it('should return false for an expired token', async () => {
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', exp: nowInSeconds() - 60 }),
+      );
+
+      const result = await authService.isAuthenticated();
+
+      expect(result).toBe(false);
+    });
+
+    it('should return false for a malformed token', async () => {
+      await mockTokenStorage.setToken('mock-token');
+
+      const result = await authService.isAuthenticated();
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('getSession', () => {
+    let mockUserStorage: MockUserStorage;
+
+    beforeEach(() => {
+      mockUserStorage = new MockUserStorage();
+      authService = new AuthService(
+        mockHttpClient,
+        loginClient,
+        mockTokenStorage,
+        validator,
+        mockUserStorage,
+      );
+    });
+
+    it('should expose claims and the stored user', async () => {
+      const user: User = {
+        id: '1',
+        email: 'test@example.com',
+        roles: [],
+        lang: 'fr-FR',
+        enabled: true,
+      };
+      const iat = nowInSeconds();
+      await mockUserStorage.setUser(user);
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', iat, exp: iat + 3600 }),
+      );
+
+      const session = await authService.getSession();
+
+      expect(session).toMatchObject({
+        userId: '1',
+        user,
+        issuedAt: iat * 1000,
+        expiresAt: (iat + 3600) * 1000,
+      });
+    });
+
+    it('should reject a token issued for another user', async () => {
+      await mockUserStorage.setUser({
+        id: '2',
+        email: 'other@example.com',
+        roles: [],
+        lang: 'fr-FR',
+        enabled: true,
+      });
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', exp: nowInSeconds() + 3600 }),
+      );
+
+      const session = await authService.getSession();
+
+      expect(session).toBeNull();
+    });
+
+    it('should report the remaining session lifetime', async () => {
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', exp: nowInSeconds() + 600 }),
+      );
+
+      const remaining = await authService.getSessionRemainingTime();
+
+      expect(remaining).toBeGreaterThan(590 * 1000);
+      expect(remaining).toBeLessThanOrEqual(600 * 1000);
+    });
+
+    it('should report no remaining lifetime without a session', async () => {
+      const remaining = await authService.getSessionRemainingTime();
+
+      expect(remaining).toBe(0);
+    });
+  });
+
+  describe('restoreSession', () => {
+    it('should report a signed-out user when nothing is stored', async () => {
+      const restored = await authService.restoreSession();
+
+      expect(restored).toEqual({ status: 'signedOut' });
+    });
+
+    it('should renew an expired token with the refresh token', async () => {
+      const freshToken = createJwt({ sub: '1', exp: nowInSeconds() + 3600 });
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', exp: nowInSeconds() - 60 }),
+      );
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      jest
+        .spyOn(mockHttpClient, 'post')
+        .mockResolvedValueOnce({ token: freshToken } as any);
+
+      const restored = await authService.restoreSession();
+
+      expect(restored).toEqual({
+        status: 'restored',
+        session: expect.objectContaining({ token: freshToken }),
+      });
+    });
+
+    it('should keep the user signed in when the token expires offline', async () => {
+      // Arrange
+      const user = createUser('1');
+      const expiredToken = createJwt({ sub: '1', exp: nowInSeconds() - 60 });
+      authService = new AuthService(
+        mockHttpClient,
+        loginClient,
+        mockTokenStorage,
+        validator,
+        new MockUserStorage(user),
+      );
+      await mockTokenStorage.setToken(expiredToken);
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      mockHttpClient.error = {
+        type: ApiErrorType.OFFLINE,
+        message: 'Network error. Please check your connection.',
+      };
+      const listener = jest.fn();
+      authService.subscribe(listener);
+
+      // Act
+      const restored = await authService.restoreSession();
+
+      // Assert
+      expect(restored).toEqual({ status: 'offline', user });
+      expect(await mockTokenStorage.getToken()).toBe(expiredToken);
+      expect(await mockTokenStorage.getRefreshToken()).toBe('refresh-1');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should retry no sooner than a rate-limited refresh asks', async () => {
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', exp: nowInSeconds() - 60 }),
+      );
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      mockHttpClient.error = createApiError(429, { retryAfterMs: 60000 });
+
+      const restored = await authService.restoreSession();
+
+      expect(restored).toEqual({
+        status: 'offline',
+        user: null,
+        retryAfterMs: 60000,
+      });
+      expect(await mockTokenStorage.getRefreshToken()).toBe('refresh-1');
+    });
+
+    it('should sign out when the server refuses the refresh token', async () => {
+      await mockTokenStorage.setToken(
+        createJwt({ sub: '1', exp: nowInSeconds() - 60 }),
+      );
+      await mockTokenStorage.setRefreshToken('refresh-1');
+      mockHttpClient.error = createApiError(401);
+
+      const restored = await authService.restoreSession();
+
+      expect(restored).toEqual({ status: 'signedOut' });
+      expect(await mockTokenStorage.getToken()).toBeNull();
+      expect(await mockTokenStorage.getRefreshToken()).toBeNull();
+    });
+
+    it('should wipe an unusable session without refresh token', async () => {
+      await mockTokenStorage.setToken('malformed');
+
+      const restored = await authService.restoreSession();
+
+      expect(restored).toEqual({ status: 'signedOut' });
+      expect(await mockTokenStorage.getToken()).toBeNull();
+    });
   });
 
   describe('getToken', () => {
@@ -0,0 +1,279 @@
+/**
+ * Batch Count Tests
+ * @file Unit tests for count state updates, drafts and submission
+ */
+
+import { API_ENDPOINTS } from '../api/HttpClient';
+import {
+  batchCountReducer,
+  createBatchCount,
+  MAX_ITEM_QUANTITY,
+  toBatchCountItem,
+} from '../scan/batchCount';
+import {
+  BatchCountService,
+  IBatchCountStorage,
+} from '../scan/BatchCountService';
+import {
+  createUser,
+  MockHttpClient,
+  MockUserStorage,
+} from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+import { BatchCount } from '../../types/batchCount.types';
+import { ScanContent, ScanResult } from '../../types/scan.types';
+
+class MockBatchCountStorage implements IBatchCountStorage {
+  drafts: Record<string, BatchCount> = {};
+
+  async getDraft(userId: string): Promise<BatchCount | null> {
+    return this.drafts[userId] ?? null;
+  }
+
+  async saveDraft(userId: string, count: BatchCount): Promise<void> {
+    this.drafts[userId] = count;
+  }
+
+  async removeDraft(userId: string): Promise<void> {
+    delete this.drafts[userId];
+  }
+}
+
+const lotScan = (id: string, scannedAt = 1000): ScanResult => ({
+  rawValue: `KT:1:L:PAR1:${id}`,
+  symbology: 'qr',
+  scannedAt,
+  content: {
+    kind: 'entity',
+    payload: { version: 1, entity: { type: 'lot', id, site: 'PAR1' } },
+    verification: { status: 'unverified' },
+  },
+});
+
+const scanInto = (count: BatchCount, result: ScanResult): BatchCount => {
+  const item = toBatchCountItem(result);
+  if (!item) {
+    throw new Error('Scan was not countable');
+  }
+  return batchCountReducer(count, { type: 'scan', item });
+};
+
+describe('batchCountReducer', () => {
+  let count: BatchCount;
+
+  beforeEach(() => {
+    count = createBatchCount(1000);
+  });
+
+  it('should merge repeat scans of the same item', () => {
+    // Act
+    count = scanInto(count, lotScan('lot7'));
+    count = scanInto(count, lotScan('lot8'));
+    count = scanInto(count, lotScan('lot7', 2000));
+
+    // Assert
+    expect(count.items.map(item => [item.entity?.id, item.quantity])).toEqual([
+      ['lot7', 2],
+      ['lot8', 1],
+    ]);
+    expect(count.items[0].lastScannedAt).toBe(2000);
+  });
+
+  it('should count codes that are not Keytchens codes by raw value', () => {
+    count = scanInto(count, {
+      rawValue: '3017620422003',
+      symbology: 'ean-13',
+      scannedAt: 1000,
+      content: { kind: 'unknown' },
+    });
+
+    expect(count.items).toEqual([
+      expect.objectContaining({ key: '3017620422003', quantity: 1 }),
+    ]);
+  });
+
+  it('should merge GS1 barcodes by GTIN and lot', () => {
+    // Arrange
+    const caseScan = (lot: string, serial: string): ScanResult => ({
+      rawValue: `010950600013435210${lot}\u001d21${serial}`,
+      symbology: 'code-128',
+      scannedAt: 1000,
+      content: {
+        kind: 'gs1',
+        product: { gtin: '09506000134352', lot, serial, elements: [] },
+      },
+    });
+
+    // Act
+    count = scanInto(count, caseScan('A1', '1'));
+    count = scanInto(count, caseScan('A1', '2'));
+    count = scanInto(count, caseScan('B2', '3'));
+
+    // Assert
+    expect(count.items.map(item => [item.key, item.quantity])).toEqual([
+      ['gs1:09506000134352:B2', 1],
+      ['gs1:09506000134352:A1', 2],
+    ]);
+  });
+
+  it('should refuse invalid and untrusted codes', () => {
+    const untrusted: ScanContent = {
+      kind: 'entity',
+      payload: { version: 2, entity: { type: 'lot', id: 'lot7' } },
+      verification: { status: 'tampered', keyId: 'k1' },
+    };
+
+    expect(toBatchCountItem({ ...lotScan('lot7'), content: untrusted })).toBe(
+      null,
+    );
+  });
+
+  it('should refuse unsigned codes', () => {
+    const unsigned: ScanContent = {
+      kind: 'entity',
+      payload: { version: 1, entity: { type: 'lot', id: 'lot7' } },
+      verification: { status: 'unsigned' },
+    };
+
+    expect(toBatchCountItem({ ...lotScan('lot7'), content: unsigned })).toBe(
+      null,
+    );
+  });
+
+  it('should set quantities and remove items set to zero', () => {
+    // Arrange
+    count = scanInto(count, lotScan('lot7'));
+    const key = count.items[0].key;
+
+    // Act
+    const raised = batchCountReducer(count, {
+      type: 'setQuantity',
+      key,
+      quantity: 12,
+    });
+    const removed = batchCountReducer(raised, {
+      type: 'setQuantity',
+      key,
+      quantity: 0,
+    });
+
+    // Assert
+    expect(raised.items[0].quantity).toBe(12);
+    expect(removed.items).toEqual([]);
+    expect(removed.scanKeys).toEqual([]);
+  });
+
+  it('should cap quantities', () => {
+    count = scanInto(count, lotScan('lot7'));
+
+    const next = batchCountReducer(count, {
+      type: 'setQuantity',
+      key: count.items[0].key,
+      quantity: 1e9,
+    });
+
+    expect(next.items[0].quantity).toBe(MAX_ITEM_QUANTITY);
+  });
+
+  it('should undo the last scan', () => {
+    // Arrange
+    count = scanInto(count, lotScan('lot7'));
+    count = scanInto(count, lotScan('lot8'));
+    count = scanInto(count, lotScan('lot7'));
+
+    // Act
+    const once = batchCountReducer(count, { type: 'undoLastScan' });
+    const twice = batchCountReducer(once, { type: 'undoLastScan' });
+
+    // Assert
+    expect(once.items.map(item => [item.entity?.id, item.quantity])).toEqual([
+      ['lot7', 1],
+      ['lot8', 1],
+    ]);
+    expect(twice.items.map(item => item.entity?.id)).toEqual(['lot7']);
+  });
+
+  it('should ignore undo with no scans', () => {
+    expect(batchCountReducer(count, { type: 'undoLastScan' })).toBe(count);
+  });
+});
+
+describe('BatchCountService', () => {
+  let httpClient: MockHttpClient;
+  let storage: MockBatchCountStorage;
+  let userStorage: MockUserStorage;
+  let service: BatchCountService;
+
+  beforeEach(() => {
+    httpClient = new MockHttpClient();
+    httpClient.response = { countId: 'count1', status: 'accepted' };
+    storage = new MockBatchCountStorage();
+    userStorage = new MockUserStorage(createUser('cook1'));
+    service = new BatchCountService(httpClient, storage, userStorage, () =>
+      Date.UTC(2026, 0, 15, 10),
+    );
+  });
+
+  it('should keep drafts per user', async () => {
+    // Arrange
+    const count = createBatchCount(1000);
+    await service.saveDraft(count);
+
+    // Act
+    const own = await service.loadDraft();
+    userStorage.user = { ...userStorage.user!, id: 'cook2' };
+    const other = await service.loadDraft();
+
+    // Assert
+    expect(own).toEqual(count);
+    expect(other).toBeNull();
+  });
+
+  it('should submit the whole count in one request and drop the draft', async () => {
+    // Arrange
+    const count = scanInto(
+      createBatchCount(Date.UTC(2026, 0, 15, 9)),
+      lotScan('lot7'),
+    );
+    await service.saveDraft(count);
+
+    // Act
+    await service.submit(count);
+
+    // Assert
+    expect(httpClient.posts).toEqual([
+      {
+        url: API_ENDPOINTS.inventoryCounts,
+        data: {
+          countId: count.id,
+          startedAt: '2026-01-15T09:00:00.000Z',
+          submittedAt: '2026-01-15T10:00:00.000Z',
+          items: [
+            {
+              rawValue: 'KT:1:L:PAR1:lot7',
+              entity: { type: 'lot', id: 'lot7', site: 'PAR1' },
+              quantity: 1,
+            },
+          ],
+        },
+      },
+    ]);
+    expect(storage.drafts).toEqual({});
+  });
+
+  it('should keep the draft when submission fails', async () => {
+    // Arrange
+    const count = scanInto(createBatchCount(1000), lotScan('lot7'));
+    await service.saveDraft(count);
+    httpClient.error = {
+      type: ApiErrorType.OFFLINE,
+      message: 'Network error',
+    };
+
+    // Act & Assert
+    await expect(service.submit(count)).rejects.toEqual(
+      expect.objectContaining({ type: ApiErrorType.OFFLINE }),
+    );
+    expect(storage.drafts.cook1).toEqual(count);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Entity Service Tests
+ * @file Unit tests for entity lookups, actions and error states
+ */
+
+import { EntityService, getEntityLoadError, IOutbox } from '../EntityService';
+import { IHttpClient } from '../api/HttpClient';
+import { MockHttpClient } from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+import { LotDetails } from '../../types/entity.types';
+import { OutboxMutation, OutboxResult } from '../../types/outbox.types';
+
+/**
+ * Sends through the HTTP client, or queues everything when offline
+ */
+class MockOutbox implements IOutbox {
+  queued: OutboxMutation[] = [];
+  isOffline = false;
+  private httpClient: IHttpClient;
+
+  constructor(httpClient: IHttpClient) {
+    this.httpClient = httpClient;
+  }
+
+  async send<T>(mutation: OutboxMutation): Promise<OutboxResult<T>> {
+    if (this.isOffline) {
+      this.queued.push(mutation);
+      return {
+        status: 'queued',
+        entry: { ...mutation, id: 'w1', userId: 'cook1', createdAt: 0 },
+      };
+    }
+    return {
+      status: 'sent',
+      data: await this.httpClient.post<T>(mutation.url, mutation.body),
+    };
+  }
+}
+
+const lot: LotDetails = {
+  type: 'lot',
+  id: 'lot7',
+  site: 'PAR1',
+  productName: 'Filet de saumon',
+  lotNumber: 'SAL-2601-07',
+  status: 'available',
+  quantity: 4.5,
+  unit: 'kg',
+};
+
+describe('EntityService', () => {
+  let httpClient: MockHttpClient;
+  let outbox: MockOutbox;
+  let service: EntityService;
+
+  beforeEach(() => {
+    httpClient = new MockHttpClient();
+    outbox = new MockOutbox(httpClient);
+    service = new EntityService(httpClient, outbox);
+  });
+
+  describe('getEntity', () => {
+    it('should fetch the entity from its collection and site', async () => {
+      // Arrange
+      httpClient.response = lot;
+
+      // Act
+      const details = await service.getEntity({
+        type: 'lot',
+        id: 'lot7',
+        site: 'PAR1',
+      });
+
+      // Assert
+      expect(details).toEqual(lot);
+      expect(httpClient.requests).toEqual([
+        expect.objectContaining({ method: 'GET', url: '/lots/lot7?site=PAR1' }),
+      ]);
+    });
+
+    it('should omit the site when unknown', async () => {
+      httpClient.response = {
+        type: 'order',
+        id: 'ORD-42',
+        reference: 'PO-42',
+        status: 'pending',
+        lines: [],
+      };
+
+      await service.getEntity({ type: 'order', id: 'ORD-42' });
+
+      expect(httpClient.requests[0].url).toBe('/orders/ORD-42');
+    });
+
+    it('should reject records that do not match their schema', async () => {
+      // Arrange
+      httpClient.response = {
+        type: 'order',
+        id: 'ORD-42',
+        reference: 'PO-42',
+        status: 'pending',
+      };
+
+      // Act & Assert
+      await expect(
+        service.getEntity({ type: 'order', id: 'ORD-42' }),
+      ).rejects.toEqual({
+        type: ApiErrorType.INVALID_RESPONSE,
+        message: 'Invalid response: $.lines: expected array, got undefined',
+      });
+    });
+
+    it('should reject a record of another type', async () => {
+      httpClient.response = lot;
+
+      await expect(
+        service.getEntity({ type: 'order', id: 'lot7' }),
+      ).rejects.toEqual(
+        expect.objectContaining({ type: ApiErrorType.INVALID_RESPONSE }),
+      );
+    });
+
+    it('should reject a response for another entity', async () => {
+      httpClient.response = { ...lot, id: 'lot8' };
+
+      await expect(
+        service.getEntity({ type: 'lot', id: 'lot7' }),
+      ).rejects.toEqual(
+        expect.objectContaining({ type: ApiErrorType.UNKNOWN }),
+      );
+    });
+  });
+
+  describe('performAction', () => {
+    it('should post the action and return the updated entity', async () => {
+      // Arrange
+      httpClient.response = { ...lot, status: 'used' };
+
+      // Act
+      const details = await service.performAction(
+        { type: 'lot', id: 'lot7', site: 'PAR1' },
+        { id: 'mark-used', label: 'Mark as used' },
+      );
+
+      // Assert
+      expect(details).toEqual(expect.objectContaining({ status: 'used' }));
+      expect(httpClient.requests).toEqual([
+        expect.objectContaining({
+          method: 'POST',
+          url: '/lots/lot7/actions/mark-used?site=PAR1',
+        }),
+      ]);
+    });
+
+    it('should queue the action in the outbox when offline', async () => {
+      // Arrange
+      outbox.isOffline = true;
+
+      // Act
+      const details = await service.performAction(
+        { type: 'order', id: 'PO-1042' },
+        { id: 'receive', label: 'Mark as received' },
+      );
+
+      // Assert
+      expect(details).toBeNull();
+      expect(outbox.queued).toEqual([
+        {
+          type: 'entityAction',
+          method: 'POST',
+          url: '/orders/PO-1042/actions/receive',
+          body: {},
+        },
+      ]);
+    });
+  });
+});
+
+describe('getEntityLoadError', () => {
+  it('should map HTTP and network errors to screen states', () => {
+    expect(
+      getEntityLoadError({
+        type: ApiErrorType.NOT_FOUND,
+        message: 'Not found.',
+        statusCode: 404,
+      }),
+    ).toBe('notFound');
+    expect(
+      getEntityLoadError({
+        type: ApiErrorType.FORBIDDEN,
+        message: 'You are not allowed to do this.',
+        statusCode: 403,
+      }),
+    ).toBe('forbidden');
+    expect(
+      getEntityLoadError({
+        type: ApiErrorType.OFFLINE,
+        message: 'Network error',
+      }),
+    ).toBe('offline');
+    expect(
+      getEntityLoadError({
+        type: ApiErrorType.TIMEOUT,
+        message: 'Request timeout',
+      }),
+    ).toBe('offline');
+    expect(getEntityLoadError(new Error('boom'))).toBe('unknown');
+  });
+});
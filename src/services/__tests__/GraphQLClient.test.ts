@@ -0,0 +1,317 @@
+/**
+ * GraphQL Client Tests
+ * @file Unit tests for named operations, batching, persisted queries and
+ * error mapping
+ */
+
+import {
+  GraphQLClient,
+  GraphQLMutation,
+  GraphQLQuery,
+} from '../api/GraphQLClient';
+import { s } from '../api/schema';
+import { MockHttpClient } from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+
+const LOT_SCHEMA = s.object({
+  lot: s.object({ id: s.string(), status: s.string() }),
+});
+
+const LOT_QUERY: GraphQLQuery<
+  { lot: { id: string; status: string } },
+  { id: string }
+> = {
+  kind: 'query',
+  name: 'Lot',
+  document: 'query Lot($id: ID!) { lot(id: $id) { id status } }',
+  schema: LOT_SCHEMA,
+};
+
+const DISCARD_LOT: GraphQLMutation<{ discardLot: boolean }, { id: string }> = {
+  kind: 'mutation',
+  name: 'DiscardLot',
+  document: 'mutation DiscardLot($id: ID!) { discardLot(id: $id) }',
+};
+
+const lotResult = (id: string) => ({
+  data: { lot: { id, status: 'open' } },
+});
+
+describe('GraphQLClient', () => {
+  let httpClient: MockHttpClient;
+  let client: GraphQLClient;
+
+  beforeEach(() => {
+    httpClient = new MockHttpClient();
+    client = new GraphQLClient(httpClient);
+  });
+
+  describe('operations', () => {
+    it('should send a named query with its variables and return its data', async () => {
+      // Arrange
+      httpClient.responses = [lotResult('lot7')];
+
+      // Act
+      const data = await client.query(LOT_QUERY, { id: 'lot7' });
+
+      // Assert
+      expect(data).toEqual({ lot: { id: 'lot7', status: 'open' } });
+      expect(httpClient.requests).toEqual([
+        {
+          method: 'POST',
+          url: '/graphql',
+          data: {
+            operationName: 'Lot',
+            query: LOT_QUERY.document,
+            variables: { id: 'lot7' },
+          },
+          options: expect.objectContaining({ idempotent: true }),
+        },
+      ]);
+    });
+
+    it('should not let the HTTP client retry mutations', async () => {
+      httpClient.responses = [{ data: { discardLot: true } }];
+
+      expect(await client.mutate(DISCARD_LOT, { id: 'lot7' })).toEqual({
+        discardLot: true,
+      });
+      expect(httpClient.requests[0].options).toEqual(
+        expect.objectContaining({ idempotent: false }),
+      );
+    });
+
+    it('should send to another endpoint without the session when configured', async () => {
+      client = new GraphQLClient(httpClient, {
+        endpoint: '/auth/login',
+        anonymous: true,
+      });
+      httpClient.responses = [{ data: { discardLot: true } }];
+
+      await client.mutate(DISCARD_LOT, { id: 'lot7' });
+
+      expect(httpClient.requests[0]).toEqual(
+        expect.objectContaining({
+          url: '/auth/login',
+          options: expect.objectContaining({
+            skipAuth: true,
+            skipAuthRefresh: true,
+          }),
+        }),
+      );
+    });
+
+    it('should reject data that does not match the operation schema', async () => {
+      httpClient.responses = [{ data: { lot: { id: 7, status: 'open' } } }];
+
+      await expect(client.query(LOT_QUERY, { id: 'lot7' })).rejects.toEqual({
+        type: ApiErrorType.INVALID_RESPONSE,
+        message: 'Invalid response: $.data.lot.id: expected string, got number',
+      });
+    });
+  });
+
+  describe('batching', () => {
+    it('should send operations issued in the same tick as one request', async () => {
+      // Arrange
+      httpClient.responses = [
+        [lotResult('lot1'), { data: { discardLot: true } }, lotResult('lot3')],
+      ];
+
+      // Act
+      const results = await Promise.all([
+        client.query(LOT_QUERY, { id: 'lot1' }),
+        client.mutate(DISCARD_LOT, { id: 'lot2' }),
+        client.query(LOT_QUERY, { id: 'lot3' }),
+      ]);
+
+      // Assert
+      expect(results).toEqual([
+        { lot: { id: 'lot1', status: 'open' } },
+        { discardLot: true },
+        { lot: { id: 'lot3', status: 'open' } },
+      ]);
+      expect(httpClient.requests).toHaveLength(1);
+      expect(
+        (httpClient.requests[0].data as Array<{ operationName: string }>).map(
+          body => body.operationName,
+        ),
+      ).toEqual(['Lot', 'DiscardLot', 'Lot']);
+      expect(httpClient.requests[0].options).toEqual(
+        expect.objectContaining({ idempotent: false }),
+      );
+    });
+
+    it('should split batches larger than the maximum size', async () => {
+      client = new GraphQLClient(httpClient, { maxBatchSize: 2 });
+      httpClient.responses = [
+        [lotResult('lot1'), lotResult('lot2')],
+        lotResult('lot3'),
+      ];
+
+      await Promise.all(
+        ['lot1', 'lot2', 'lot3'].map(id => client.query(LOT_QUERY, { id })),
+      );
+
+      expect(httpClient.requests.map(request => request.data)).toEqual([
+        [
+          expect.objectContaining({ variables: { id: 'lot1' } }),
+          expect.objectContaining({ variables: { id: 'lot2' } }),
+        ],
+        expect.objectContaining({ variables: { id: 'lot3' } }),
+      ]);
+    });
+
+    it('should settle each operation with its own result', async () => {
+      httpClient.responses = [
+        [
+          lotResult('lot1'),
+          {
+            errors: [
+              { message: 'Lot not found', extensions: { code: 'NOT_FOUND' } },
+            ],
+          },
+        ],
+      ];
+
+      const [found, missing] = await Promise.allSettled([
+        client.query(LOT_QUERY, { id: 'lot1' }),
+        client.query(LOT_QUERY, { id: 'lot2' }),
+      ]);
+
+      expect(found.status).toBe('fulfilled');
+      expect(missing).toEqual({
+        status: 'rejected',
+        reason: expect.objectContaining({ type: ApiErrorType.NOT_FOUND }),
+      });
+    });
+
+    it('should reject the whole batch when the request fails', async () => {
+      // Arrange
+      httpClient.error = {
+        type: ApiErrorType.OFFLINE,
+        message: 'Network error. Please check your connection.',
+      };
+      const post = jest.spyOn(httpClient, 'post');
+
+      // Act
+      const results = await Promise.allSettled([
+        client.query(LOT_QUERY, { id: 'lot1' }),
+        client.query(LOT_QUERY, { id: 'lot2' }),
+      ]);
+
+      // Assert
+      expect(results.map(result => result.status)).toEqual([
+        'rejected',
+        'rejected',
+      ]);
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a batch answered with the wrong number of results', async () => {
+      httpClient.responses = [[lotResult('lot1')]];
+
+      const results = await Promise.allSettled([
+        client.query(LOT_QUERY, { id: 'lot1' }),
+        client.query(LOT_QUERY, { id: 'lot2' }),
+      ]);
+
+      expect(results[1]).toEqual({
+        status: 'rejected',
+        reason: expect.objectContaining({
+          type: ApiErrorType.INVALID_RESPONSE,
+        }),
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it('should map error codes to structured errors', async () => {
+      // Arrange
+      const errors = [
+        { message: 'Sign in again', extensions: { code: 'UNAUTHENTICATED' } },
+      ];
+      httpClient.responses = [{ data: null, errors }];
+
+      // Act & Assert
+      await expect(client.query(LOT_QUERY, { id: 'lot7' })).rejects.toEqual({
+        type: ApiErrorType.UNAUTHORIZED,
+        message: 'Sign in again',
+        code: 'UNAUTHENTICATED',
+        operationName: 'Lot',
+        payload: errors,
+      });
+    });
+
+    it('should list input errors per field', async () => {
+      httpClient.responses = [
+        {
+          errors: [
+            {
+              message: 'Lot already used',
+              extensions: { code: 'BAD_USER_INPUT', field: 'id' },
+            },
+          ],
+        },
+      ];
+
+      await expect(
+        client.mutate(DISCARD_LOT, { id: 'lot7' }),
+      ).rejects.toMatchObject({
+        type: ApiErrorType.VALIDATION,
+        fieldErrors: { id: ['Lot already used'] },
+      });
+    });
+
+    it('should keep unknown codes as unknown errors', async () => {
+      httpClient.responses = [{ errors: [{ message: 'Boom' }] }];
+
+      await expect(
+        client.query(LOT_QUERY, { id: 'lot7' }),
+      ).rejects.toMatchObject({ type: ApiErrorType.UNKNOWN, message: 'Boom' });
+    });
+  });
+
+  describe('persisted queries', () => {
+    const PERSISTED_LOT_QUERY = { ...LOT_QUERY, persistedId: 'abc123' };
+
+    it('should send the persisted id instead of the document', async () => {
+      httpClient.responses = [lotResult('lot7')];
+
+      await client.query(PERSISTED_LOT_QUERY, { id: 'lot7' });
+
+      expect(httpClient.requests[0].data).toEqual({
+        operationName: 'Lot',
+        variables: { id: 'lot7' },
+        extensions: { persistedQuery: { version: 1, sha256Hash: 'abc123' } },
+      });
+    });
+
+    it('should resend with the document when the server does not know the id', async () => {
+      // Arrange
+      httpClient.responses = [
+        {
+          errors: [
+            {
+              message: 'PersistedQueryNotFound',
+              extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+            },
+          ],
+        },
+        lotResult('lot7'),
+      ];
+
+      // Act
+      const data = await client.query(PERSISTED_LOT_QUERY, { id: 'lot7' });
+
+      // Assert
+      expect(data).toEqual({ lot: { id: 'lot7', status: 'open' } });
+      expect(httpClient.requests[1].data).toEqual(
+        expect.objectContaining({
+          query: LOT_QUERY.document,
+          extensions: { persistedQuery: { version: 1, sha256Hash: 'abc123' } },
+        }),
+      );
+    });
+  });
+});
@@ -3,8 +3,10 @@
  * @file Unit tests for HTTP client with various scenarios
  */
 
-import { HttpClient, IHttpClient } from '../api/HttpClient';
-import { AuthErrorType } from '../../types/auth.types';
+import { HttpClient, ITokenRefresher } from '../api/HttpClient';
+import { createAuthTokenInterceptor } from '../api/interceptors';
+import { s } from '../api/schema';
+import { ApiErrorType } from '../../types/api.types';
 
 describe('HttpClient', () => {
   let httpClient: HttpClient;
@@ -47,7 +49,7 @@ describe('HttpClient', () => {
       await expect(
         httpClient.post('/auth/login', { email: 'test@test.com' }),
       ).rejects.toMatchObject({
-        type: AuthErrorType.INVALID_CREDENTIALS,
+        type: ApiErrorType.UNAUTHORIZED,
       });
     });
 
@@ -57,7 +59,7 @@ describe('HttpClient', () => {
       await expect(
         httpClient.post('/auth/login', { email: 'test@test.com' }),
       ).rejects.toMatchObject({
-        type: AuthErrorType.NETWORK_ERROR,
+        type: ApiErrorType.OFFLINE,
       });
     });
 
@@ -69,9 +71,24 @@ describe('HttpClient', () => {
       await expect(
         httpClient.post('/auth/login', { email: 'test@test.com' }),
       ).rejects.toMatchObject({
-        type: AuthErrorType.NETWORK_ERROR,
+        type: ApiErrorType.TIMEOUT,
       });
     });
+
+    it('should send FormData as multipart without a JSON content type', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: 'stored' }),
+      });
+      const form = new FormData();
+      form.append('metadata', '{}');
+
+      await httpClient.post('/photos', form);
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.body).toBe(form);
+      expect(init.headers['Content-Type']).toBeUndefined();
+    });
   });
 
   describe('get', () => {
@@ -105,4 +122,642 @@ describe('HttpClient', () => {
       expect(result).toEqual(mockResponse);
     });
   });
+
+  describe('patch', () => {
+    it('should send the JSON body with PATCH', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await httpClient.patch('/user/profile', { lang: 'en-GB' });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:3000/user/profile');
+      expect(init.method).toBe('PATCH');
+      expect(init.body).toBe('{"lang":"en-GB"}');
+    });
+  });
+
+  describe('delete', () => {
+    it('should send DELETE without a body', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, status: 204 });
+
+      const result = await httpClient.delete('/photos/photo-1');
+
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.method).toBe('DELETE');
+      expect(init.body).toBeUndefined();
+      expect(result).toBeUndefined();
+    });
+
+    it('should map error statuses like other verbs', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 403, statusText: 'Forbidden' });
+
+      await expect(httpClient.delete('/photos/photo-1')).rejects.toMatchObject({
+        type: ApiErrorType.FORBIDDEN,
+        statusCode: 403,
+      });
+    });
+  });
+
+  describe('response types', () => {
+    it('should resolve 204 responses to undefined without reading the body', async () => {
+      const json = jest.fn();
+      fetchMock.mockResolvedValueOnce({ ok: true, status: 204, json });
+
+      const result = await httpClient.post('/auth/logout', {});
+
+      expect(result).toBeUndefined();
+      expect(json).not.toHaveBeenCalled();
+    });
+
+    it('should return the raw text when asked', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => 'id;name\n1;Fridge',
+      });
+
+      const result = await httpClient.get('/exports/equipment.csv', {
+        responseType: 'text',
+      });
+
+      expect(result).toBe('id;name\n1;Fridge');
+    });
+
+    it('should return a blob when asked', async () => {
+      const pdf = new Blob(['%PDF-1.7']);
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        blob: async () => pdf,
+      });
+
+      const result = await httpClient.get('/reports/haccp.pdf', {
+        responseType: 'blob',
+      });
+
+      expect(result).toBe(pdf);
+    });
+  });
+
+  describe('upload progress', () => {
+    class MockXMLHttpRequest {
+      static instances: MockXMLHttpRequest[] = [];
+      method = '';
+      url = '';
+      headers: Record<string, string> = {};
+      body: unknown;
+      timeout = 0;
+      responseType = '';
+      status = 0;
+      statusText = '';
+      response: unknown = '';
+      upload: { onprogress?: (event: object) => void } = {};
+      onload?: () => void;
+      onerror?: () => void;
+      ontimeout?: () => void;
+
+      constructor() {
+        MockXMLHttpRequest.instances.push(this);
+      }
+
+      open(method: string, url: string) {
+        this.method = method;
+        this.url = url;
+      }
+
+      setRequestHeader(name: string, value: string) {
+        this.headers[name] = value;
+      }
+
+      getAllResponseHeaders() {
+        return 'content-type: application/json\r\n';
+      }
+
+      send(body: unknown) {
+        this.body = body;
+      }
+
+      respond(status: number, response: string) {
+        this.status = status;
+        this.response = response;
+        this.onload?.();
+      }
+    }
+
+    const originalXMLHttpRequest = global.XMLHttpRequest;
+
+    beforeEach(() => {
+      MockXMLHttpRequest.instances = [];
+      global.XMLHttpRequest =
+        MockXMLHttpRequest as unknown as typeof XMLHttpRequest;
+    });
+
+    afterAll(() => {
+      global.XMLHttpRequest = originalXMLHttpRequest;
+    });
+
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should report progress and parse the JSON response', async () => {
+      const onUploadProgress = jest.fn();
+      const form = new FormData();
+      form.append('metadata', '{}');
+
+      const result = httpClient.post('/photos', form, { onUploadProgress });
+      await flush();
+      const xhr = MockXMLHttpRequest.instances[0];
+      xhr.upload.onprogress?.({ lengthComputable: true, loaded: 50, total: 200 });
+      xhr.respond(201, '{"status":"stored"}');
+
+      await expect(result).resolves.toEqual({ status: 'stored' });
+      expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 50, total: 200 });
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(xhr.method).toBe('POST');
+      expect(xhr.url).toBe('http://localhost:3000/photos');
+      expect(xhr.body).toBe(form);
+      expect(xhr.timeout).toBe(10000);
+    });
+
+    it('should run request interceptors on uploads', async () => {
+      httpClient.addRequestInterceptor(request => ({
+        ...request,
+        headers: { ...request.headers, Authorization: 'Bearer token' },
+      }));
+
+      const result = httpClient.post('/photos', new FormData(), {
+        onUploadProgress: jest.fn(),
+      });
+      await flush();
+      MockXMLHttpRequest.instances[0].respond(204, '');
+
+      await expect(result).resolves.toBeUndefined();
+      expect(MockXMLHttpRequest.instances[0].headers).toEqual({
+        Authorization: 'Bearer token',
+      });
+    });
+
+    it('should map timeouts and network failures like fetch', async () => {
+      const timedOut = httpClient.post('/photos', new FormData(), {
+        onUploadProgress: jest.fn(),
+      });
+      await flush();
+      MockXMLHttpRequest.instances[0].ontimeout?.();
+
+      await expect(timedOut).rejects.toEqual({
+        type: ApiErrorType.TIMEOUT,
+        message: 'Request timeout. Please try again.',
+      });
+
+      const offline = httpClient.post('/photos', new FormData(), {
+        onUploadProgress: jest.fn(),
+      });
+      await flush();
+      MockXMLHttpRequest.instances[1].onerror?.();
+
+      await expect(offline).rejects.toMatchObject({
+        type: ApiErrorType.OFFLINE,
+      });
+    });
+
+    it('should map error statuses like fetch', async () => {
+      const result = httpClient.post('/photos', new FormData(), {
+        onUploadProgress: jest.fn(),
+      });
+      await flush();
+      MockXMLHttpRequest.instances[0].respond(500, '');
+
+      await expect(result).rejects.toMatchObject({
+        type: ApiErrorType.SERVER_ERROR,
+        statusCode: 500,
+      });
+    });
+  });
+
+  describe('interceptors', () => {
+    it('should let request interceptors add headers', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+      httpClient.addRequestInterceptor(request => ({
+        ...request,
+        headers: { ...request.headers, 'X-App-Version': '1.2.3' },
+      }));
+
+      await httpClient.get('/user/profile');
+
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+        'Content-Type': 'application/json',
+        'X-App-Version': '1.2.3',
+      });
+    });
+
+    it('should stop running a removed interceptor', async () => {
+      fetchMock.mockResolvedValue({ ok: true, json: async () => ({}) });
+      const interceptor = jest.fn(request => request);
+      const remove = httpClient.addRequestInterceptor(interceptor);
+
+      await httpClient.get('/a');
+      remove();
+      await httpClient.get('/b');
+
+      expect(interceptor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let response interceptors transform data', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ value: 1 }),
+      });
+      httpClient.addResponseInterceptor(response => ({
+        ...response,
+        data: { wrapped: response.data },
+      }));
+
+      const result = await httpClient.get('/user/profile');
+
+      expect(result).toEqual({ wrapped: { value: 1 } });
+    });
+
+    it('should let response interceptors reject responses', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+      httpClient.addResponseInterceptor(() => {
+        throw {
+          type: ApiErrorType.UNKNOWN,
+          message: 'Rejected by interceptor',
+        };
+      });
+
+      await expect(httpClient.get('/user/profile')).rejects.toMatchObject({
+        message: 'Rejected by interceptor',
+      });
+    });
+  });
+
+  describe('token refresh', () => {
+    let token: string;
+    let refresher: jest.Mocked<ITokenRefresher>;
+
+    beforeEach(() => {
+      token = 'expired-token';
+      refresher = {
+        refreshAccessToken: jest.fn(async () => {
+          token = 'fresh-token';
+          return token;
+        }),
+      };
+      httpClient.addRequestInterceptor(
+        createAuthTokenInterceptor({
+          getToken: async () => token,
+        } as any),
+      );
+      httpClient.setTokenRefresher(refresher);
+    });
+
+    it('should send the access token as bearer header', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await httpClient.get('/user/profile');
+
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+        Authorization: 'Bearer expired-token',
+      });
+    });
+
+    it('should keep the stored token off requests sent with skipAuth', async () => {
+      fetchMock.mockResolvedValue({ ok: true, json: async () => ({}) });
+
+      await httpClient.post(
+        '/auth/logout',
+        {},
+        { skipAuth: true, headers: { Authorization: 'Bearer revoked-token' } },
+      );
+      await httpClient.post('/auth/login', {}, { skipAuth: true });
+
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+        Authorization: 'Bearer revoked-token',
+      });
+      expect(fetchMock.mock.calls[1][1].headers).not.toHaveProperty(
+        'Authorization',
+      );
+    });
+
+    it('should refresh and retry once on 401', async () => {
+      fetchMock
+        .mockResolvedValueOnce({ ok: false, status: 401 })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 1 }) });
+
+      const result = await httpClient.get('/user/profile');
+
+      expect(result).toEqual({ id: 1 });
+      expect(refresher.refreshAccessToken).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[1][1].headers).toMatchObject({
+        Authorization: 'Bearer fresh-token',
+      });
+    });
+
+    it('should share one refresh across concurrent 401s', async () => {
+      fetchMock.mockImplementation(async (_url, init) =>
+        init.headers.Authorization === 'Bearer fresh-token'
+          ? { ok: true, json: async () => ({}) }
+          : { ok: false, status: 401 },
+      );
+
+      await Promise.all([
+        httpClient.get('/a'),
+        httpClient.get('/b'),
+        httpClient.get('/c'),
+      ]);
+
+      expect(refresher.refreshAccessToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail with the 401 error when refresh fails', async () => {
+      refresher.refreshAccessToken.mockResolvedValueOnce(null);
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 401 });
+
+      await expect(httpClient.get('/user/profile')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh when the request opts out', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 401 });
+
+      await expect(
+        httpClient.post('/auth/refresh', {}, { skipAuthRefresh: true }),
+      ).rejects.toMatchObject({ statusCode: 401 });
+      expect(refresher.refreshAccessToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry', () => {
+    let sleep: jest.Mock;
+    let retryingClient: HttpClient;
+
+    const unavailable = (retryAfter?: string) => ({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+      headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+    });
+
+    beforeEach(() => {
+      sleep = jest.fn(async () => undefined);
+      retryingClient = new HttpClient('http://localhost:3000', 10000, {
+        maxAttempts: 3,
+        baseDelayMs: 200,
+        sleep,
+        random: () => 0.5,
+        now: () => Date.UTC(2026, 0, 15, 10),
+      });
+    });
+
+    it('should retry GET network errors with exponential backoff', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Network request failed'))
+        .mockRejectedValueOnce(new TypeError('Network request failed'))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 1 }) });
+
+      const result = await retryingClient.get('/user/profile');
+
+      expect(result).toEqual({ id: 1 });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[100], [200]]);
+    });
+
+    it('should give up after the last attempt with the mapped error', async () => {
+      const abortError = new Error('Aborted');
+      abortError.name = 'AbortError';
+      fetchMock.mockRejectedValue(abortError);
+
+      await expect(retryingClient.put('/user/profile', {})).rejects.toEqual({
+        type: ApiErrorType.TIMEOUT,
+        message: 'Request timeout. Please try again.',
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait as long as Retry-After asks on 503', async () => {
+      fetchMock
+        .mockResolvedValueOnce(unavailable('2'))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await retryingClient.get('/qr/keys');
+
+      expect(sleep).toHaveBeenCalledWith(2000);
+    });
+
+    it('should accept Retry-After as an HTTP date on 429', async () => {
+      fetchMock
+        .mockResolvedValueOnce({
+          ...unavailable(),
+          status: 429,
+          headers: new Headers({ 'Retry-After': 'Thu, 15 Jan 2026 10:00:03 GMT' }),
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await retryingClient.get('/qr/keys');
+
+      expect(sleep).toHaveBeenCalledWith(3000);
+    });
+
+    it('should not wait for a Retry-After longer than the maximum delay', async () => {
+      fetchMock.mockResolvedValueOnce(unavailable('120'));
+
+      await expect(retryingClient.get('/qr/keys')).rejects.toMatchObject({
+        statusCode: 503,
+      });
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should only retry POST when marked idempotent', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+      await expect(retryingClient.post('/inventory/counts', {})).rejects.toMatchObject({
+        type: ApiErrorType.OFFLINE,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await expect(
+        retryingClient.post('/inventory/counts', {}, { idempotent: true }),
+      ).rejects.toMatchObject({ type: ApiErrorType.OFFLINE });
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry when the request opts out', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+      await expect(
+        retryingClient.get('/user/profile', { retry: false }),
+      ).rejects.toMatchObject({ type: ApiErrorType.OFFLINE });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry client errors', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+      await expect(retryingClient.get('/orders/42')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying once the retry budget is spent', async () => {
+      const budgetedClient = new HttpClient('http://localhost:3000', 10000, {
+        maxAttempts: 5,
+        budgetMaxTokens: 2,
+        budgetRatio: 0,
+        sleep,
+      });
+      fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+      await expect(budgetedClient.get('/a')).rejects.toBeDefined();
+      await expect(budgetedClient.get('/b')).rejects.toBeDefined();
+
+      // 3 attempts for /a (2 retries), then no retry left for /b
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('errors', () => {
+    const failed = (status: number, body: string, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: '',
+      headers: new Headers(headers),
+      text: async () => body,
+    });
+
+    it('should map statuses to distinct error types', async () => {
+      const cases: Array<[number, ApiErrorType]> = [
+        [401, ApiErrorType.UNAUTHORIZED],
+        [403, ApiErrorType.FORBIDDEN],
+        [404, ApiErrorType.NOT_FOUND],
+        [409, ApiErrorType.CONFLICT],
+        [422, ApiErrorType.VALIDATION],
+        [429, ApiErrorType.RATE_LIMITED],
+        [500, ApiErrorType.SERVER_ERROR],
+      ];
+
+      for (const [status, type] of cases) {
+        fetchMock.mockResolvedValueOnce(failed(status, ''));
+        await expect(
+          httpClient.post('/orders', {}, { retry: false, skipAuthRefresh: true }),
+        ).rejects.toMatchObject({ type, statusCode: status });
+      }
+    });
+
+    it('should not report a 403 as wrong credentials', async () => {
+      fetchMock.mockResolvedValueOnce(failed(403, ''));
+
+      await expect(httpClient.get('/orders/42')).rejects.toEqual({
+        type: ApiErrorType.FORBIDDEN,
+        message: 'You are not allowed to do this.',
+        statusCode: 403,
+      });
+    });
+
+    it('should carry the server payload, message and request id', async () => {
+      const payload = { message: 'Order already received', code: 'ORDER_CLOSED' };
+      fetchMock.mockResolvedValueOnce(
+        failed(409, JSON.stringify(payload), { 'X-Request-Id': 'req-123' }),
+      );
+
+      await expect(httpClient.post('/orders/42/actions/receive', {})).rejects.toEqual({
+        type: ApiErrorType.CONFLICT,
+        message: 'Order already received',
+        statusCode: 409,
+        requestId: 'req-123',
+        payload,
+      });
+    });
+
+    it('should list validation messages per field', async () => {
+      fetchMock.mockResolvedValueOnce(
+        failed(
+          422,
+          JSON.stringify({
+            errors: [
+              { field: 'quantity', message: 'Must be positive' },
+              { field: 'quantity', message: 'Must be a whole number' },
+              { field: 'lot', message: 'Unknown lot' },
+            ],
+          }),
+        ),
+      );
+
+      await expect(httpClient.post('/inventory/counts', {})).rejects.toMatchObject({
+        type: ApiErrorType.VALIDATION,
+        fieldErrors: {
+          quantity: ['Must be positive', 'Must be a whole number'],
+          lot: ['Unknown lot'],
+        },
+      });
+    });
+
+    it('should keep a non-JSON error body as text', async () => {
+      fetchMock.mockResolvedValueOnce(failed(502, '<html>Bad Gateway</html>'));
+
+      await expect(httpClient.post('/orders', {})).rejects.toMatchObject({
+        type: ApiErrorType.SERVER_ERROR,
+        message: 'Server error. Please try again later.',
+        payload: '<html>Bad Gateway</html>',
+      });
+    });
+
+    it('should tell rate limiting and how long to wait', async () => {
+      fetchMock.mockResolvedValueOnce(failed(429, '', { 'Retry-After': '30' }));
+
+      await expect(httpClient.post('/orders', {})).rejects.toMatchObject({
+        type: ApiErrorType.RATE_LIMITED,
+        retryAfterMs: 30000,
+      });
+    });
+  });
+
+  describe('schema', () => {
+    const profileSchema = s.object({ id: s.string(), roles: s.array(s.string()) });
+
+    it('should return the decoded response', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'u1', roles: ['user'], internal: true }),
+      });
+
+      const profile = await httpClient.get('/user/profile', { schema: profileSchema });
+
+      expect(profile).toEqual({ id: 'u1', roles: ['user'] });
+    });
+
+    it('should reject responses that do not match at the boundary', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'X-Request-Id': 'req-7' }),
+        json: async () => ({ id: 'u1', roles: ['user', 3] }),
+      });
+
+      await expect(
+        httpClient.get('/user/profile', { schema: profileSchema }),
+      ).rejects.toEqual({
+        type: ApiErrorType.INVALID_RESPONSE,
+        message: 'Invalid response: $.roles[1]: expected string, got number',
+        statusCode: 200,
+        requestId: 'req-7',
+      });
+    });
+
+    it('should check the data returned by response interceptors', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+      httpClient.addResponseInterceptor(response => ({
+        ...response,
+        data: { id: 'u1', roles: [] },
+      }));
+
+      await expect(
+        httpClient.get('/user/profile', { schema: profileSchema }),
+      ).resolves.toEqual({ id: 'u1', roles: [] });
+    });
+  });
 });
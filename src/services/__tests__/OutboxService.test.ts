@@ -0,0 +1,343 @@
+/**
+ * Outbox Service Tests
+ * @file Unit tests for queuing offline writes and replaying them in order
+ */
+
+import { IOutboxStorage, OutboxService } from '../outbox/OutboxService';
+import { createApiError } from '../api/apiErrors';
+import {
+  createUser,
+  MockHttpClient,
+  MockUserStorage,
+} from '../__mocks__/testDoubles';
+import { ApiError, ApiErrorType } from '../../types/api.types';
+import {
+  OutboxEntry,
+  OutboxErrorType,
+  OutboxMutation,
+} from '../../types/outbox.types';
+
+const OFFLINE: ApiError = {
+  type: ApiErrorType.OFFLINE,
+  message: 'Network error. Please check your connection.',
+};
+
+const httpError = (statusCode: number): ApiError => createApiError(statusCode);
+
+class MockOutboxStorage implements IOutboxStorage {
+  entries: Record<string, OutboxEntry[]> = {};
+
+  async getEntries(userId: string): Promise<OutboxEntry[]> {
+    return this.entries[userId] ?? [];
+  }
+
+  async saveEntries(userId: string, entries: OutboxEntry[]): Promise<void> {
+    this.entries[userId] = entries;
+  }
+}
+
+const receiveOrder = (id: string): OutboxMutation => ({
+  type: 'entityAction',
+  method: 'POST',
+  url: `/orders/${id}/actions/receive`,
+  body: {},
+});
+
+describe('OutboxService', () => {
+  let httpClient: MockHttpClient;
+  let storage: MockOutboxStorage;
+  let userStorage: MockUserStorage;
+  let service: OutboxService;
+
+  beforeEach(() => {
+    httpClient = new MockHttpClient();
+    httpClient.response = { ok: true };
+    storage = new MockOutboxStorage();
+    userStorage = new MockUserStorage(createUser('cook1'));
+    service = new OutboxService(httpClient, storage, userStorage, () => 1000);
+  });
+
+  describe('send', () => {
+    it('should send right away when online', async () => {
+      // Act
+      const result = await service.send(receiveOrder('PO-1'));
+
+      // Assert
+      expect(result).toEqual({ status: 'sent', data: { ok: true } });
+      expect(httpClient.requests).toHaveLength(1);
+      expect(await service.getPendingCount()).toBe(0);
+    });
+
+    it('should send an idempotency key with each write', async () => {
+      await service.send(receiveOrder('PO-1'));
+
+      expect(httpClient.requests[0].options).toEqual({
+        headers: { 'Idempotency-Key': expect.any(String) },
+        idempotent: true,
+      });
+    });
+
+    it('should queue the write for the signed-in user when offline', async () => {
+      // Arrange
+      httpClient.error = OFFLINE;
+
+      // Act
+      const result = await service.send(receiveOrder('PO-1'));
+
+      // Assert
+      expect(result).toEqual({
+        status: 'queued',
+        entry: {
+          ...receiveOrder('PO-1'),
+          id: expect.any(String),
+          userId: 'cook1',
+          createdAt: 1000,
+        },
+      });
+      expect(storage.entries.cook1).toHaveLength(1);
+    });
+
+    it('should queue writes the server could not handle yet', async () => {
+      httpClient.errors = [httpError(503)];
+
+      const result = await service.send(receiveOrder('PO-1'));
+
+      expect(result.status).toBe('queued');
+    });
+
+    it('should throw refused writes to the caller', async () => {
+      httpClient.errors = [httpError(409)];
+
+      await expect(service.send(receiveOrder('PO-1'))).rejects.toEqual(
+        httpError(409),
+      );
+      expect(await service.getPendingCount()).toBe(0);
+    });
+
+    it('should queue behind earlier writes to keep their order', async () => {
+      // Arrange
+      httpClient.error = OFFLINE;
+      await service.send(receiveOrder('PO-1'));
+      httpClient.error = null;
+
+      // Act
+      const result = await service.send(receiveOrder('PO-2'));
+      await service.replay();
+
+      // Assert
+      expect(result.status).toBe('queued');
+      expect(httpClient.requests.map(request => request.url)).toEqual([
+        '/orders/PO-1/actions/receive',
+        '/orders/PO-2/actions/receive',
+      ]);
+    });
+
+    it('should refuse writes without a signed-in user', async () => {
+      userStorage.user = null;
+
+      await expect(service.send(receiveOrder('PO-1'))).rejects.toEqual(
+        expect.objectContaining({ type: OutboxErrorType.NOT_SIGNED_IN }),
+      );
+    });
+  });
+
+  describe('replay', () => {
+    const queue = async (...mutations: OutboxMutation[]) => {
+      httpClient.error = OFFLINE;
+      for (const mutation of mutations) {
+        await service.send(mutation);
+      }
+      // Let the replay started by queuing behind a write fail while offline
+      await service.replay().catch(() => undefined);
+      httpClient.error = null;
+    };
+
+    it('should send queued writes in order with their idempotency keys', async () => {
+      // Arrange
+      await queue(receiveOrder('PO-1'), {
+        type: 'lotStatus',
+        method: 'PATCH',
+        url: '/lots/lot7',
+        body: { status: 'used' },
+      });
+      const keys = storage.entries.cook1.map(entry => entry.id);
+
+      // Act
+      const delivered = await service.replay();
+
+      // Assert
+      expect(delivered).toBe(2);
+      expect(
+        httpClient.requests.map(({ method, url, options }) => [
+          method,
+          url,
+          options?.headers?.['Idempotency-Key'],
+        ]),
+      ).toEqual([
+        ['POST', '/orders/PO-1/actions/receive', keys[0]],
+        ['PATCH', '/lots/lot7', keys[1]],
+      ]);
+      expect(storage.entries.cook1).toEqual([]);
+    });
+
+    it('should stop at the first transient failure and keep the rest', async () => {
+      // Arrange
+      await queue(receiveOrder('PO-1'), receiveOrder('PO-2'));
+      httpClient.errors = [OFFLINE];
+
+      // Act & Assert
+      await expect(service.replay()).rejects.toEqual(OFFLINE);
+      expect(storage.entries.cook1.map(entry => entry.url)).toEqual([
+        '/orders/PO-1/actions/receive',
+        '/orders/PO-2/actions/receive',
+      ]);
+    });
+
+    it('should keep writes when the session has expired', async () => {
+      await queue(receiveOrder('PO-1'));
+      httpClient.errors = [httpError(401)];
+
+      await expect(service.replay()).rejects.toEqual(httpError(401));
+      expect(storage.entries.cook1).toHaveLength(1);
+    });
+
+    it('should drop writes the server refuses and go on', async () => {
+      // Arrange
+      await queue(receiveOrder('PO-1'), receiveOrder('PO-2'));
+      httpClient.errors = [httpError(404)];
+
+      // Act
+      const delivered = await service.replay();
+
+      // Assert
+      expect(delivered).toBe(1);
+      expect(httpClient.requests.map(request => request.url)).toEqual([
+        '/orders/PO-2/actions/receive',
+      ]);
+    });
+
+    it('should only replay the writes of the signed-in user', async () => {
+      // Arrange
+      await queue(receiveOrder('PO-1'));
+      userStorage.user = { ...userStorage.user!, id: 'cook2' };
+
+      // Act
+      const delivered = await service.replay();
+
+      // Assert
+      expect(delivered).toBe(0);
+      expect(storage.entries.cook1).toHaveLength(1);
+      expect(await service.getPendingCount()).toBe(0);
+    });
+
+    it('should share one replay across concurrent calls', async () => {
+      await queue(receiveOrder('PO-1'));
+
+      const counts = await Promise.all([service.replay(), service.replay()]);
+
+      expect(counts).toEqual([1, 1]);
+      expect(httpClient.requests).toHaveLength(1);
+    });
+
+    it('should keep writes queued while a replay removes sent ones', async () => {
+      // Arrange
+      await queue(receiveOrder('PO-1'));
+      let sending: Promise<unknown> | undefined;
+      httpClient.onRequest = async () => {
+        if (sending) {
+          return;
+        }
+        // Hold the next save so the send and the removal overlap
+        jest
+          .spyOn(storage, 'saveEntries')
+          .mockImplementationOnce(async (userId, entries) => {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            storage.entries[userId] = entries;
+          });
+        sending = service.send(receiveOrder('PO-2'));
+      };
+
+      // Act
+      await service.replay();
+      await sending;
+      await service.replay();
+
+      // Assert
+      expect(httpClient.requests.map(request => request.url)).toEqual([
+        '/orders/PO-1/actions/receive',
+        '/orders/PO-2/actions/receive',
+      ]);
+      expect(storage.entries.cook1).toEqual([]);
+    });
+
+    describe('conflicts', () => {
+      it('should drop conflicting writes without a resolver', async () => {
+        await queue(receiveOrder('PO-1'));
+        httpClient.errors = [httpError(409)];
+
+        expect(await service.replay()).toBe(0);
+        expect(storage.entries.cook1).toEqual([]);
+      });
+
+      it('should resend once with the body from the resolver', async () => {
+        // Arrange
+        await queue({
+          type: 'lotStatus',
+          method: 'PUT',
+          url: '/lots/lot7',
+          body: { status: 'used', version: 3 },
+        });
+        const resolver = jest.fn(() => ({
+          action: 'retry' as const,
+          body: { status: 'used', version: 4 },
+        }));
+        service.setConflictResolver('lotStatus', resolver);
+        httpClient.errors = [httpError(409)];
+
+        // Act
+        const delivered = await service.replay();
+
+        // Assert
+        expect(delivered).toBe(1);
+        expect(resolver).toHaveBeenCalledWith(
+          expect.objectContaining({ url: '/lots/lot7' }),
+          httpError(409),
+        );
+        expect(httpClient.requests[0].data).toEqual({
+          status: 'used',
+          version: 4,
+        });
+      });
+
+      it('should drop the write when the resend conflicts again', async () => {
+        await queue(receiveOrder('PO-1'));
+        service.setConflictResolver('entityAction', () => ({
+          action: 'retry',
+          body: {},
+        }));
+        httpClient.errors = [httpError(409), httpError(409)];
+
+        expect(await service.replay()).toBe(0);
+        expect(storage.entries.cook1).toEqual([]);
+      });
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should report the pending count as writes are queued and sent', async () => {
+      // Arrange
+      const counts: number[] = [];
+      service.subscribe(count => counts.push(count));
+      httpClient.error = OFFLINE;
+
+      // Act
+      await service.send(receiveOrder('PO-1'));
+      await service.send(receiveOrder('PO-2'));
+      httpClient.error = null;
+      await service.replay();
+
+      // Assert
+      expect(counts).toEqual([1, 2, 1, 0]);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Photo Service Tests
+ * @file Unit tests for the photo queue and its multipart upload
+ */
+
+import { API_ENDPOINTS } from '../api/HttpClient';
+import {
+  IPhotoFiles,
+  IPhotoStorage,
+  PhotoService,
+} from '../photo/PhotoService';
+import {
+  createUser,
+  MockHttpClient,
+  MockUserStorage,
+} from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+import {
+  CapturedPhoto,
+  PhotoAttachment,
+  PhotoSubject,
+  StoredPhotoFiles,
+} from '../../types/photo.types';
+
+class MockPhotoStorage implements IPhotoStorage {
+  photos: PhotoAttachment[] = [];
+
+  async getPhotos(): Promise<PhotoAttachment[]> {
+    return this.photos;
+  }
+
+  async savePhotos(photos: PhotoAttachment[]): Promise<void> {
+    this.photos = photos;
+  }
+}
+
+/**
+ * Stores each photo as numbered files, listed in `uris` until removed
+ */
+class MockPhotoFiles implements IPhotoFiles {
+  uris = new Set<string>();
+  private count = 0;
+
+  async store(photo: CapturedPhoto): Promise<StoredPhotoFiles> {
+    this.count++;
+    const files = {
+      uri: `file:///documents/photos/${this.count}.jpg`,
+      thumbnailUri: `file:///documents/photos/${this.count}-thumb.jpg`,
+      width: photo.width,
+      height: photo.height,
+    };
+    this.uris.add(files.uri).add(files.thumbnailUri);
+    return files;
+  }
+
+  async remove(uri: string): Promise<void> {
+    this.uris.delete(uri);
+  }
+}
+
+/**
+ * Jest runs on Node, whose FormData can be read back
+ */
+type ReadableFormData = { get(name: string): unknown };
+
+const NOW = Date.UTC(2026, 0, 15, 10);
+
+const FRIDGE = { type: 'equipment' as const, id: 'fridge-2', site: 'PAR1' };
+
+const PHOTO: CapturedPhoto = {
+  path: '/data/cache/mrousavy123.jpg',
+  width: 1920,
+  height: 1080,
+};
+
+const scanSubject = (entity = FRIDGE): PhotoSubject => ({
+  type: 'scan',
+  rawValue: 'https://app.keytchens.com/e/equipment/fridge-2',
+  scannedAt: NOW,
+  entity,
+});
+
+describe('PhotoService', () => {
+  let httpClient: MockHttpClient;
+  let storage: MockPhotoStorage;
+  let files: MockPhotoFiles;
+  let userStorage: MockUserStorage;
+  let currentTime: number;
+  let service: PhotoService;
+
+  beforeEach(() => {
+    httpClient = new MockHttpClient();
+    httpClient.response = { status: 'stored' };
+    storage = new MockPhotoStorage();
+    files = new MockPhotoFiles();
+    userStorage = new MockUserStorage(createUser('inspector1'));
+    currentTime = NOW;
+    service = new PhotoService(
+      httpClient,
+      storage,
+      files,
+      userStorage,
+      () => currentTime,
+    );
+  });
+
+  describe('attach', () => {
+    it('should queue a copy of the photo kept in app storage', async () => {
+      // Act
+      const photo = await service.attach(scanSubject(), PHOTO);
+
+      // Assert
+      expect(photo).toEqual({
+        id: expect.any(String),
+        subject: scanSubject(),
+        uri: 'file:///documents/photos/1.jpg',
+        thumbnailUri: 'file:///documents/photos/1-thumb.jpg',
+        width: 1920,
+        height: 1080,
+        userId: 'inspector1',
+        takenAt: NOW,
+        uploaded: false,
+      });
+      expect(storage.photos).toEqual([photo]);
+    });
+
+    it('should not queue photos without a signed-in user', async () => {
+      userStorage.user = null;
+
+      expect(await service.attach(scanSubject(), PHOTO)).toBeNull();
+      expect(storage.photos).toEqual([]);
+    });
+
+    it('should drop old uploaded photos but never queued ones', async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+      await service.upload();
+      await service.attach(scanSubject(), PHOTO);
+      currentTime += 31 * 24 * 60 * 60 * 1000;
+
+      // Act
+      await service.attach(scanSubject(), PHOTO);
+
+      // Assert
+      expect(storage.photos.map(photo => photo.uploaded)).toEqual([
+        false,
+        false,
+      ]);
+      expect(files.uris).not.toContain('file:///documents/photos/1-thumb.jpg');
+    });
+  });
+
+  describe('getEntityPhotos', () => {
+    it('should list photos of scans and readings of the entity', async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+      await service.attach(
+        { type: 'temperatureReading', readingId: 'r1', equipment: FRIDGE },
+        PHOTO,
+      );
+      await service.attach(scanSubject({ ...FRIDGE, id: 'freezer-1' }), PHOTO);
+      await service.attach(
+        { type: 'scan', rawValue: '4006381333931', scannedAt: NOW },
+        PHOTO,
+      );
+
+      // Act
+      const photos = await service.getEntityPhotos(FRIDGE);
+
+      // Assert
+      expect(photos.map(photo => photo.subject.type)).toEqual([
+        'scan',
+        'temperatureReading',
+      ]);
+    });
+  });
+
+  describe('upload', () => {
+    it("should leave other users' photos for their next sign-in", async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+      userStorage.user = createUser('inspector2');
+
+      // Act
+      const count = await service.upload();
+
+      // Assert
+      expect(count).toBe(0);
+      expect(httpClient.posts).toEqual([]);
+    });
+
+    it('should send each photo as multipart photo and metadata', async () => {
+      // Arrange
+      const photo = await service.attach(scanSubject(), PHOTO);
+
+      // Act
+      const count = await service.upload();
+
+      // Assert
+      expect(count).toBe(1);
+      expect(httpClient.posts).toHaveLength(1);
+      expect(httpClient.posts[0].url).toBe(API_ENDPOINTS.photos);
+      const form = httpClient.posts[0].data as ReadableFormData;
+      expect(JSON.parse(form.get('metadata') as string)).toEqual({
+        id: photo?.id,
+        subject: scanSubject(),
+        width: 1920,
+        height: 1080,
+        userId: 'inspector1',
+        takenAt: new Date(NOW).toISOString(),
+      });
+      expect(storage.photos.map(item => item.uploaded)).toEqual([true]);
+    });
+
+    it('should delete the uploaded file but keep its thumbnail', async () => {
+      await service.attach(scanSubject(), PHOTO);
+
+      await service.upload();
+
+      expect([...files.uris]).toEqual(['file:///documents/photos/1-thumb.jpg']);
+    });
+
+    it('should keep the remaining photos queued after a failure', async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+      await service.attach(scanSubject(), PHOTO);
+      httpClient.onRequest = async () => {
+        httpClient.error = {
+          type: ApiErrorType.OFFLINE,
+          message: 'Network error',
+        };
+      };
+
+      // Act & Assert
+      await expect(service.upload()).rejects.toEqual(
+        expect.objectContaining({ type: ApiErrorType.OFFLINE }),
+      );
+      expect(storage.photos.map(photo => photo.uploaded)).toEqual([
+        true,
+        false,
+      ]);
+    });
+
+    it('should send each photo once when uploads overlap', async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+
+      // Act
+      const counts = await Promise.all([service.upload(), service.upload()]);
+
+      // Assert
+      expect(counts).toEqual([1, 1]);
+      expect(httpClient.posts).toHaveLength(1);
+    });
+
+    it('should keep photos taken during the upload queued', async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+      httpClient.onRequest = async () => {
+        httpClient.onRequest = undefined;
+        await service.attach(scanSubject(), PHOTO);
+      };
+
+      // Act
+      await service.upload();
+
+      // Assert
+      expect(storage.photos.map(photo => photo.uploaded)).toEqual([
+        true,
+        false,
+      ]);
+    });
+  });
+
+  describe('storage', () => {
+    it('should keep a photo attached while an upload saves', async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+      let attaching: Promise<unknown> | undefined;
+      httpClient.onRequest = async () => {
+        if (attaching) {
+          return;
+        }
+        // Hold the next save so the attach and the upload overlap
+        jest
+          .spyOn(storage, 'savePhotos')
+          .mockImplementationOnce(async photos => {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            storage.photos = photos;
+          });
+        attaching = service.attach(scanSubject(), PHOTO);
+      };
+
+      // Act
+      await service.upload();
+      await attaching;
+
+      // Assert
+      expect(storage.photos.map(photo => [photo.uri, photo.uploaded])).toEqual([
+        ['file:///documents/photos/1.jpg', true],
+        ['file:///documents/photos/2.jpg', false],
+      ]);
+      expect(await service.upload()).toBe(1);
+    });
+  });
+
+  describe('clear', () => {
+    it("should only delete the signed-in user's uploaded photos", async () => {
+      // Arrange
+      await service.attach(scanSubject(), PHOTO);
+      await service.upload();
+      await service.attach(scanSubject(), PHOTO);
+      userStorage.user = createUser('inspector2');
+      await service.attach(scanSubject(), PHOTO);
+      await service.upload();
+      userStorage.user = createUser('inspector1');
+
+      // Act
+      await service.clear();
+
+      // Assert
+      expect(
+        storage.photos.map(photo => [photo.userId, photo.uploaded]),
+      ).toEqual([
+        ['inspector1', false],
+        ['inspector2', true],
+      ]);
+      expect([...files.uris]).toEqual([
+        'file:///documents/photos/2.jpg',
+        'file:///documents/photos/2-thumb.jpg',
+        'file:///documents/photos/3-thumb.jpg',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Product Lot Tests
+ * @file Unit tests for expiry grouping, lot capture and sync
+ */
+
+import { API_ENDPOINTS } from '../api/HttpClient';
+import {
+  DEFAULT_EXPIRY_THRESHOLDS,
+  groupExpiringLots,
+  toProductLot,
+} from '../expiry/expiry';
+import {
+  IProductLotStorage,
+  ProductLotService,
+} from '../expiry/ProductLotService';
+import { MockHttpClient } from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+import { ExpiryThresholds, ProductLot } from '../../types/productLot.types';
+import { ScanResult } from '../../types/scan.types';
+
+class MockProductLotStorage implements IProductLotStorage {
+  lots: ProductLot[] = [];
+  thresholds: Partial<ExpiryThresholds> = {};
+
+  async getLots(): Promise<ProductLot[]> {
+    return this.lots;
+  }
+
+  async saveLots(lots: ProductLot[]): Promise<void> {
+    this.lots = lots;
+  }
+
+  async getThresholds(): Promise<Partial<ExpiryThresholds>> {
+    return this.thresholds;
+  }
+
+  async saveThresholds(thresholds: Partial<ExpiryThresholds>): Promise<void> {
+    this.thresholds = thresholds;
+  }
+}
+
+// Noon, so local dates match UTC ones in any test time zone
+const NOW = new Date(2026, 0, 15, 12).getTime();
+
+const productScan = (
+  expiry: string,
+  lot = 'A1',
+  scannedAt = NOW,
+): ScanResult => ({
+  rawValue: `0109506000134352${lot}`,
+  symbology: 'code-128',
+  scannedAt,
+  content: {
+    kind: 'gs1',
+    product: { gtin: '09506000134352', lot, expiry, elements: [] },
+  },
+});
+
+const makeLot = (
+  expiresOn: string,
+  overrides: Partial<ProductLot> = {},
+): ProductLot => ({
+  id: `09506000134352:A1:${expiresOn}`,
+  gtin: '09506000134352',
+  lot: 'A1',
+  category: 'other',
+  expiresOn,
+  dateKind: 'useBy',
+  status: 'active',
+  updatedAt: NOW,
+  pendingSync: false,
+  ...overrides,
+});
+
+describe('toProductLot', () => {
+  it('should create a lot from a GS1 barcode with an expiry date', () => {
+    expect(toProductLot(productScan('2026-01-20'))).toEqual({
+      id: '09506000134352:A1:2026-01-20',
+      gtin: '09506000134352',
+      lot: 'A1',
+      category: 'other',
+      expiresOn: '2026-01-20',
+      dateKind: 'useBy',
+      status: 'active',
+      updatedAt: NOW,
+      pendingSync: true,
+    });
+  });
+
+  it('should fall back to the best before date', () => {
+    const lot = toProductLot({
+      ...productScan('2026-01-20'),
+      content: {
+        kind: 'gs1',
+        product: {
+          gtin: '09506000134352',
+          bestBefore: '2026-03-01',
+          elements: [],
+        },
+      },
+    });
+
+    expect(lot).toMatchObject({
+      expiresOn: '2026-03-01',
+      dateKind: 'bestBefore',
+    });
+  });
+
+  it('should ignore scans without an expiry date', () => {
+    expect(
+      toProductLot({
+        ...productScan('2026-01-20'),
+        content: {
+          kind: 'gs1',
+          product: { gtin: '09506000134352', elements: [] },
+        },
+      }),
+    ).toBeNull();
+    expect(
+      toProductLot({
+        ...productScan('2026-01-20'),
+        content: { kind: 'unknown' },
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('groupExpiringLots', () => {
+  it('should group active lots by how soon they expire', () => {
+    // Arrange
+    const lots = [
+      makeLot('2026-01-18', { id: 'in3days' }),
+      makeLot('2026-01-14', { id: 'expired' }),
+      makeLot('2026-01-15', { id: 'today' }),
+      makeLot('2026-01-16', { id: 'tomorrow' }),
+      makeLot('2026-01-19', { id: 'later' }),
+      makeLot('2026-01-10', { id: 'used', status: 'used' }),
+    ];
+
+    // Act
+    const dashboard = groupExpiringLots(lots, DEFAULT_EXPIRY_THRESHOLDS, NOW);
+
+    // Assert
+    expect(dashboard.expired.map(lot => lot.id)).toEqual(['expired']);
+    expect(dashboard.today.map(lot => lot.id)).toEqual(['today']);
+    expect(dashboard.soon.map(lot => lot.id)).toEqual(['tomorrow', 'in3days']);
+  });
+
+  it('should use the threshold of each category', () => {
+    const lots = [
+      makeLot('2026-01-17', { id: 'fish', category: 'fish' }),
+      makeLot('2026-01-22', { id: 'dry', category: 'dry' }),
+    ];
+
+    const dashboard = groupExpiringLots(
+      lots,
+      { ...DEFAULT_EXPIRY_THRESHOLDS, fish: 1, dry: 7 },
+      NOW,
+    );
+
+    expect(dashboard.soon.map(lot => lot.id)).toEqual(['dry']);
+  });
+});
+
+describe('ProductLotService', () => {
+  let httpClient: MockHttpClient;
+  let storage: MockProductLotStorage;
+  let service: ProductLotService;
+
+  beforeEach(() => {
+    httpClient = new MockHttpClient();
+    httpClient.response = { lots: [] };
+    storage = new MockProductLotStorage();
+    service = new ProductLotService(httpClient, storage, () => NOW);
+  });
+
+  it('should store each scanned lot once', async () => {
+    // Act
+    await service.capture(productScan('2026-01-16'));
+    await service.capture(productScan('2026-01-16', 'A1', NOW + 1000));
+    await service.capture(productScan('2026-01-16', 'B2'));
+
+    // Assert
+    expect(storage.lots.map(lot => lot.id)).toEqual([
+      '09506000134352:A1:2026-01-16',
+      '09506000134352:B2:2026-01-16',
+    ]);
+    expect(storage.lots[0].updatedAt).toBe(NOW);
+  });
+
+  it('should take lots off the dashboard once used or discarded', async () => {
+    // Arrange
+    storage.lots = [makeLot('2026-01-15')];
+
+    // Act
+    const updated = await service.markLot(storage.lots[0].id, 'discarded');
+    const dashboard = await service.getDashboard();
+
+    // Assert
+    expect(updated).toMatchObject({ status: 'discarded', pendingSync: true });
+    expect(dashboard).toEqual({ expired: [], today: [], soon: [] });
+  });
+
+  it('should keep thresholds within bounds', async () => {
+    await service.setThreshold('fish', -2);
+    const thresholds = await service.setThreshold('dry', 100);
+
+    expect(thresholds).toEqual({
+      ...DEFAULT_EXPIRY_THRESHOLDS,
+      fish: 0,
+      dry: 30,
+    });
+  });
+
+  it('should send pending changes and store the lots of the site', async () => {
+    // Arrange
+    storage.lots = [
+      makeLot('2026-01-16', { pendingSync: true }),
+      makeLot('2026-01-20', { id: 'synced' }),
+    ];
+    httpClient.response = {
+      lots: [
+        {
+          id: '09506000134352:A1:2026-01-16',
+          gtin: '09506000134352',
+          lot: 'A1',
+          productName: 'Crème fraîche 35%',
+          category: 'dairy',
+          expiresOn: '2026-01-16',
+          dateKind: 'useBy',
+          status: 'active',
+          updatedAt: new Date(NOW).toISOString(),
+        },
+      ],
+    };
+
+    // Act
+    await service.sync();
+
+    // Assert
+    expect(httpClient.posts).toEqual([
+      {
+        url: API_ENDPOINTS.productLotsSync,
+        data: {
+          changes: [
+            {
+              id: '09506000134352:A1:2026-01-16',
+              gtin: '09506000134352',
+              lot: 'A1',
+              category: 'other',
+              expiresOn: '2026-01-16',
+              dateKind: 'useBy',
+              status: 'active',
+              updatedAt: new Date(NOW).toISOString(),
+            },
+          ],
+        },
+      },
+    ]);
+    expect(storage.lots).toEqual([
+      makeLot('2026-01-16', {
+        productName: 'Crème fraîche 35%',
+        category: 'dairy',
+      }),
+    ]);
+  });
+
+  it('should keep changes made while syncing pending', async () => {
+    // Arrange
+    storage.lots = [makeLot('2026-01-16', { pendingSync: true })];
+    httpClient.onRequest = async () => {
+      storage.lots = [
+        makeLot('2026-01-16', {
+          status: 'used',
+          updatedAt: NOW + 1000,
+          pendingSync: true,
+        }),
+      ];
+    };
+
+    // Act
+    await service.sync();
+
+    // Assert
+    expect(storage.lots).toEqual([
+      makeLot('2026-01-16', {
+        status: 'used',
+        updatedAt: NOW + 1000,
+        pendingSync: true,
+      }),
+    ]);
+  });
+
+  it('should keep local lots when offline', async () => {
+    // Arrange
+    const lot = makeLot('2026-01-16', { pendingSync: true });
+    storage.lots = [lot];
+    httpClient.error = {
+      type: ApiErrorType.OFFLINE,
+      message: 'Network error',
+    };
+
+    // Act & Assert
+    await expect(service.sync()).rejects.toEqual(
+      expect.objectContaining({ type: ApiErrorType.OFFLINE }),
+    );
+    expect(storage.lots).toEqual([lot]);
+  });
+
+  it('should keep local lots when the response is malformed', async () => {
+    // Arrange
+    const lot = makeLot('2026-01-16', { pendingSync: true });
+    storage.lots = [lot];
+    httpClient.response = { lots: null };
+
+    // Act & Assert
+    await expect(service.sync()).rejects.toEqual({
+      type: ApiErrorType.INVALID_RESPONSE,
+      message: 'Invalid response: $.lots: expected array, got null',
+    });
+    expect(storage.lots).toEqual([lot]);
+  });
+
+  it('should keep changes not synced yet when cleared', async () => {
+    // Arrange
+    const changed = makeLot('2026-01-16', { pendingSync: true });
+    storage.lots = [makeLot('2026-01-15'), changed];
+
+    // Act
+    await service.clear();
+
+    // Assert
+    expect(storage.lots).toEqual([changed]);
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * QR Signature Verifier Tests
+ * @file Unit tests for offline verification of signed QR payloads and the
+ * key store feeding it
+ */
+
+import nacl from 'tweetnacl';
+import { parseQrPayload } from '../scan/qrPayload';
+import { IQrKeyStorage, QrKeyStore } from '../scan/QrKeyStore';
+import {
+  IQrKeyStore,
+  isTrustedVerification,
+  QrSignatureVerifier,
+} from '../scan/QrSignatureVerifier';
+import { parseScanContent } from '../scan/scanContent';
+import { MockHttpClient } from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+import { QrKeySet, QrPayload, QrSigningKey } from '../../types/qrPayload.types';
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  Buffer.from(bytes).toString('base64url');
+
+/**
+ * Sign a payload the way the back office does
+ */
+const signPayload = (content: string, secretKey: Uint8Array): string =>
+  `${content}:${toBase64Url(
+    nacl.sign.detached(Buffer.from(content, 'ascii'), secretKey),
+  )}`;
+
+const parse = (rawValue: string): QrPayload => {
+  const result = parseQrPayload(rawValue);
+  if (!result.ok) {
+    throw new Error(result.error.message);
+  }
+  return result.payload;
+};
+
+class MockKeyStore implements IQrKeyStore {
+  keys: Record<string, QrSigningKey> = {};
+
+  getKey(keyId: string): QrSigningKey | null {
+    return this.keys[keyId] ?? null;
+  }
+}
+
+class MockQrKeyStorage implements IQrKeyStorage {
+  keySet: QrKeySet = { keys: [], revokedKeyIds: [] };
+
+  async getAll(): Promise<QrKeySet> {
+    return this.keySet;
+  }
+
+  async save(keySet: QrKeySet): Promise<void> {
+    this.keySet = keySet;
+  }
+}
+
+describe('QrSignatureVerifier', () => {
+  const keyPair = nacl.sign.keyPair();
+  const now = Date.UTC(2026, 0, 15);
+  let keyStore: MockKeyStore;
+  let verifier: QrSignatureVerifier;
+
+  beforeEach(() => {
+    keyStore = new MockKeyStore();
+    keyStore.keys.k1 = {
+      keyId: 'k1',
+      publicKey: toBase64Url(keyPair.publicKey),
+    };
+    verifier = new QrSignatureVerifier(keyStore, () => now);
+  });
+
+  it('should parse the signed fields of a v2 payload', () => {
+    const rawValue = signPayload(
+      'KT:2:O:PAR1:42:1800000000:k1',
+      keyPair.secretKey,
+    );
+
+    const payload = parse(rawValue);
+
+    expect(payload.version).toBe(2);
+    expect(payload.entity).toEqual({ type: 'order', id: '42', site: 'PAR1' });
+    expect(payload.signature).toEqual(
+      expect.objectContaining({
+        keyId: 'k1',
+        signedContent: 'KT:2:O:PAR1:42:1800000000:k1',
+        expiresAt: 1800000000 * 1000,
+      }),
+    );
+  });
+
+  describe('unsigned payloads', () => {
+    it('should not trust them by default', () => {
+      // Act
+      const verification = verifier.verify(parse('KT:1:O:PAR1:42'));
+
+      // Assert
+      expect(verification).toEqual({ status: 'unsigned' });
+      expect(isTrustedVerification(verification)).toBe(false);
+    });
+
+    it('should reject a signed code downgraded to an unsigned one', () => {
+      // Arrange
+      const signed = signPayload(
+        'KT:2:O:PAR1:42:1800000000:k1',
+        keyPair.secretKey,
+      );
+      const stripped = 'KT:2:O:PAR1:42:1800000000:k1';
+      const downgraded = 'KT:1:O:PAR1:42';
+
+      // Act
+      const contents = [stripped, downgraded].map(rawValue =>
+        parseScanContent(rawValue, 'qr', verifier),
+      );
+
+      // Assert
+      expect(parseScanContent(signed, 'qr', verifier)).toEqual(
+        expect.objectContaining({
+          verification: { status: 'valid', keyId: 'k1' },
+        }),
+      );
+      expect(contents[0].kind).toBe('invalid');
+      expect(contents[1]).toEqual(
+        expect.objectContaining({ verification: { status: 'unsigned' } }),
+      );
+    });
+
+    it('should accept legacy codes as unverified under the legacy policy', () => {
+      // Arrange
+      verifier = new QrSignatureVerifier(keyStore, () => now, 'legacy');
+
+      // Act
+      const verification = verifier.verify(parse('keytchens://orders/42'));
+
+      // Assert
+      expect(verification).toEqual({ status: 'unverified' });
+      expect(isTrustedVerification(verification)).toBe(true);
+    });
+
+    it('should never accept an unsigned version 2 payload', () => {
+      // Arrange
+      verifier = new QrSignatureVerifier(keyStore, () => now, 'legacy');
+      const payload = parse(
+        signPayload('KT:2:O:PAR1:42:1800000000:k1', keyPair.secretKey),
+      );
+
+      // Act
+      const verification = verifier.verify({
+        ...payload,
+        signature: undefined,
+      });
+
+      // Assert
+      expect(verification).toEqual({ status: 'unsigned' });
+      expect(isTrustedVerification(verification)).toBe(false);
+    });
+  });
+
+  it('should accept a valid signature without expiry', () => {
+    const payload = parse(
+      signPayload('KT:2:E:PAR1:oven1::k1', keyPair.secretKey),
+    );
+
+    expect(verifier.verify(payload)).toEqual({ status: 'valid', keyId: 'k1' });
+  });
+
+  it('should report tampered content', () => {
+    // Arrange
+    const signed = signPayload('KT:2:L:PAR1:lot7::k1', keyPair.secretKey);
+    const tampered = signed.replace(':lot7:', ':lot8:');
+
+    // Act
+    const verification = verifier.verify(parse(tampered));
+
+    // Assert
+    expect(verification).toEqual({ status: 'tampered', keyId: 'k1' });
+  });
+
+  it('should report a signature made with another key as tampered', () => {
+    const forger = nacl.sign.keyPair();
+    const payload = parse(signPayload('KT:2:O:PAR1:42::k1', forger.secretKey));
+
+    expect(verifier.verify(payload).status).toBe('tampered');
+  });
+
+  it('should report an edited expiry as tampered', () => {
+    // Arrange
+    const signed = signPayload(
+      'KT:2:O:PAR1:42:1700000000:k1',
+      keyPair.secretKey,
+    );
+    const extended = signed.replace(':1700000000:', ':1900000000:');
+
+    // Act & Assert
+    expect(verifier.verify(parse(extended)).status).toBe('tampered');
+  });
+
+  it('should report expired codes with a valid signature', () => {
+    const payload = parse(
+      signPayload('KT:2:O:PAR1:42:1700000000:k1', keyPair.secretKey),
+    );
+
+    expect(verifier.verify(payload)).toEqual({
+      status: 'expired',
+      keyId: 'k1',
+      expiresAt: 1700000000 * 1000,
+    });
+  });
+
+  it('should report unknown key ids', () => {
+    const payload = parse(signPayload('KT:2:O:PAR1:42::k2', keyPair.secretKey));
+
+    expect(verifier.verify(payload)).toEqual({
+      status: 'unknownKey',
+      keyId: 'k2',
+    });
+  });
+
+  it('should verify with the key matching the key id after rotation', () => {
+    // Arrange
+    const rotated = nacl.sign.keyPair();
+    keyStore.keys.k2 = {
+      keyId: 'k2',
+      publicKey: toBase64Url(rotated.publicKey),
+    };
+
+    // Act
+    const oldCode = verifier.verify(
+      parse(signPayload('KT:2:O:PAR1:42::k1', keyPair.secretKey)),
+    );
+    const newCode = verifier.verify(
+      parse(signPayload('KT:2:O:PAR1:43::k2', rotated.secretKey)),
+    );
+
+    // Assert
+    expect(oldCode.status).toBe('valid');
+    expect(newCode.status).toBe('valid');
+  });
+});
+
+describe('QrKeyStore', () => {
+  const bundledKey: QrSigningKey = { keyId: 'bundled', publicKey: 'AAAA' };
+  let storage: MockQrKeyStorage;
+  let httpClient: MockHttpClient;
+  let store: QrKeyStore;
+
+  beforeEach(() => {
+    storage = new MockQrKeyStorage();
+    httpClient = new MockHttpClient();
+    store = new QrKeyStore([bundledKey], storage, httpClient);
+  });
+
+  it('should serve bundled keys before any sync', () => {
+    expect(store.getKey('bundled')).toEqual(bundledKey);
+    expect(store.getKey('other')).toBeNull();
+  });
+
+  it('should restore previously synced keys', async () => {
+    // Arrange
+    storage.keySet = {
+      keys: [{ keyId: 'synced', publicKey: 'BBBB' }],
+      revokedKeyIds: ['bundled'],
+    };
+
+    // Act
+    await store.load();
+
+    // Assert
+    expect(store.getKey('synced')).toEqual({
+      keyId: 'synced',
+      publicKey: 'BBBB',
+    });
+    expect(store.getKey('bundled')).toBeNull();
+  });
+
+  it('should replace and persist synced keys', async () => {
+    // Arrange
+    storage.keySet = {
+      keys: [{ keyId: 'old', publicKey: 'BBBB' }],
+      revokedKeyIds: [],
+    };
+    await store.load();
+    httpClient.response = {
+      keys: [{ keyId: 'new', publicKey: 'CCCC', algorithm: 'ed25519' }],
+    };
+
+    // Act
+    const synced = await store.sync();
+
+    // Assert
+    expect(synced).toBe(true);
+    expect(store.getKey('old')).toBeNull();
+    expect(store.getKey('new')).not.toBeNull();
+    expect(store.getKey('bundled')).toEqual(bundledKey);
+    expect(storage.keySet).toEqual({
+      keys: [{ keyId: 'new', publicKey: 'CCCC' }],
+      revokedKeyIds: [],
+    });
+  });
+
+  it('should keep the bundled key when a synced key reuses its id', async () => {
+    // Arrange
+    httpClient.response = {
+      keys: [
+        { keyId: 'bundled', publicKey: 'EVIL' },
+        { keyId: 'new', publicKey: 'CCCC' },
+      ],
+    };
+
+    // Act
+    await store.sync();
+
+    // Assert
+    expect(store.getKey('bundled')).toEqual(bundledKey);
+    expect(store.getKey('new')).toEqual({ keyId: 'new', publicKey: 'CCCC' });
+  });
+
+  it('should revoke bundled and synced keys listed as revoked', async () => {
+    // Arrange
+    httpClient.response = {
+      keys: [{ keyId: 'new', publicKey: 'CCCC' }],
+      revokedKeyIds: ['bundled', 'new'],
+    };
+
+    // Act
+    await store.sync();
+
+    // Assert
+    expect(store.getKey('bundled')).toBeNull();
+    expect(store.getKey('new')).toBeNull();
+    expect(storage.keySet.revokedKeyIds).toEqual(['bundled', 'new']);
+  });
+
+  it('should trust a bundled key again once it is no longer revoked', async () => {
+    // Arrange
+    storage.keySet = { keys: [], revokedKeyIds: ['bundled'] };
+    await store.load();
+    httpClient.response = { keys: [] };
+
+    // Act
+    await store.sync();
+
+    // Assert
+    expect(store.getKey('bundled')).toEqual(bundledKey);
+  });
+
+  it('should keep synced keys when offline', async () => {
+    // Arrange
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+    storage.keySet = {
+      keys: [{ keyId: 'old', publicKey: 'BBBB' }],
+      revokedKeyIds: [],
+    };
+    await store.load();
+    httpClient.error = new TypeError('Network request failed');
+
+    // Act
+    const synced = await store.sync();
+
+    // Assert
+    expect(synced).toBe(false);
+    expect(store.getKey('old')).not.toBeNull();
+    consoleWarn.mockRestore();
+  });
+
+  it('should keep synced keys when the list is malformed', async () => {
+    // Arrange
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+    storage.keySet = {
+      keys: [{ keyId: 'old', publicKey: 'BBBB' }],
+      revokedKeyIds: [],
+    };
+    await store.load();
+    httpClient.response = {
+      keys: [{ keyId: 'new', publicKey: 'CCCC' }, { keyId: 42 }],
+    };
+
+    // Act
+    const synced = await store.sync();
+
+    // Assert
+    expect(synced).toBe(false);
+    expect(store.getKey('old')).not.toBeNull();
+    expect(store.getKey('new')).toBeNull();
+    expect(consoleWarn).toHaveBeenCalledWith(
+      'QR key sync failed:',
+      expect.objectContaining({ type: ApiErrorType.INVALID_RESPONSE }),
+    );
+    consoleWarn.mockRestore();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Scan History Service Tests
+ * @file Unit tests for recording, querying and scoping scan history
+ */
+
+import {
+  getScanOutcome,
+  IScanHistoryStorage,
+  ScanHistoryService,
+} from '../scan/ScanHistoryService';
+import { createUser, MockUserStorage } from '../__mocks__/testDoubles';
+import { QrPayloadErrorCode } from '../../types/qrPayload.types';
+import { ScanContent, ScanResult } from '../../types/scan.types';
+import { ScanHistoryEntry } from '../../types/scanHistory.types';
+
+class MockScanHistoryStorage implements IScanHistoryStorage {
+  entries: Record<string, ScanHistoryEntry[]> = {};
+
+  async getEntries(userId: string): Promise<ScanHistoryEntry[]> {
+    return this.entries[userId] ?? [];
+  }
+
+  async saveEntries(
+    userId: string,
+    entries: ScanHistoryEntry[],
+  ): Promise<void> {
+    this.entries[userId] = entries;
+  }
+}
+
+const entityContent = (
+  type: 'order' | 'lot',
+  id: string,
+  site = 'PAR1',
+): ScanContent => ({
+  kind: 'entity',
+  payload: { version: 1, entity: { type, id, site } },
+  verification: { status: 'unverified' },
+});
+
+const scan = (
+  scannedAt: number,
+  rawValue: string,
+  content: ScanContent = { kind: 'unknown' },
+): ScanResult => ({ rawValue, symbology: 'qr', scannedAt, content });
+
+describe('ScanHistoryService', () => {
+  const now = Date.UTC(2026, 0, 15, 12);
+  let storage: MockScanHistoryStorage;
+  let userStorage: MockUserStorage;
+  let service: ScanHistoryService;
+
+  beforeEach(() => {
+    storage = new MockScanHistoryStorage();
+    userStorage = new MockUserStorage();
+    userStorage.user = createUser('cook1');
+    service = new ScanHistoryService(storage, userStorage, {
+      maxEntries: 5,
+      maxAgeMs: 24 * 60 * 60 * 1000,
+      now: () => now,
+    });
+  });
+
+  describe('record', () => {
+    it('should store the scan for the signed-in user', async () => {
+      // Act
+      const entry = await service.record(
+        scan(now, 'KT:1:O:PAR1:42', entityContent('order', '42')),
+      );
+
+      // Assert
+      expect(entry).toEqual(
+        expect.objectContaining({
+          userId: 'cook1',
+          scannedAt: now,
+          rawValue: 'KT:1:O:PAR1:42',
+          entity: { type: 'order', id: '42', site: 'PAR1' },
+          outcome: 'unverified',
+        }),
+      );
+      expect(storage.entries.cook1).toEqual([entry]);
+    });
+
+    it('should not record scans without a signed-in user', async () => {
+      userStorage.user = null;
+
+      const entry = await service.record(scan(now, 'hello'));
+
+      expect(entry).toBeNull();
+      expect(storage.entries).toEqual({});
+    });
+
+    it('should keep only the newest entries', async () => {
+      // Act
+      for (let i = 0; i < 7; i++) {
+        await service.record(scan(now - i * 1000, `code-${i}`));
+      }
+
+      // Assert
+      const rawValues = storage.entries.cook1.map(entry => entry.rawValue);
+      expect(rawValues).toEqual([
+        'code-0',
+        'code-1',
+        'code-2',
+        'code-3',
+        'code-4',
+      ]);
+    });
+
+    it('should drop entries older than the retention period', async () => {
+      // Arrange
+      await service.record(scan(now - 25 * 60 * 60 * 1000, 'old'));
+
+      // Act
+      await service.record(scan(now, 'new'));
+
+      // Assert
+      expect(storage.entries.cook1.map(entry => entry.rawValue)).toEqual([
+        'new',
+      ]);
+    });
+  });
+
+  describe('query', () => {
+    beforeEach(async () => {
+      await service.record(
+        scan(
+          now - 3000,
+          'KT:1:O:PAR1:ORD-42',
+          entityContent('order', 'ORD-42'),
+        ),
+      );
+      await service.record(
+        scan(
+          now - 2000,
+          'KT:1:L:LYO2:lot7',
+          entityContent('lot', 'lot7', 'LYO2'),
+        ),
+      );
+      await service.record(scan(now - 1000, '3017620422003'));
+    });
+
+    it('should list entries newest first', async () => {
+      const page = await service.query();
+
+      expect(page.entries.map(entry => entry.rawValue)).toEqual([
+        '3017620422003',
+        'KT:1:L:LYO2:lot7',
+        'KT:1:O:PAR1:ORD-42',
+      ]);
+      expect(page.total).toBe(3);
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('should search raw values, ids and sites case-insensitively', async () => {
+      const bySite = await service.query({ search: 'lyo2' });
+      const byId = await service.query({ search: 'ord-42' });
+
+      expect(bySite.entries.map(entry => entry.entity?.id)).toEqual(['lot7']);
+      expect(byId.entries.map(entry => entry.entity?.id)).toEqual(['ORD-42']);
+    });
+
+    it('should filter by entity type and date', async () => {
+      const lots = await service.query({ entityType: 'lot' });
+      const recent = await service.query({ from: now - 2000, to: now - 1000 });
+
+      expect(lots.entries.map(entry => entry.rawValue)).toEqual([
+        'KT:1:L:LYO2:lot7',
+      ]);
+      expect(recent.entries.map(entry => entry.rawValue)).toEqual([
+        'KT:1:L:LYO2:lot7',
+      ]);
+    });
+
+    it('should paginate results', async () => {
+      const first = await service.query({ offset: 0, limit: 2 });
+      const second = await service.query({ offset: 2, limit: 2 });
+
+      expect(first.entries).toHaveLength(2);
+      expect(first.hasMore).toBe(true);
+      expect(second.entries).toHaveLength(1);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it("should not show another user's history", async () => {
+      // Arrange
+      userStorage.user = createUser('cook2');
+
+      // Act
+      const page = await service.query();
+
+      // Assert
+      expect(page.entries).toEqual([]);
+      expect(storage.entries.cook1).toHaveLength(3);
+    });
+  });
+
+  describe('clear', () => {
+    it("should only delete the signed-in user's history", async () => {
+      // Arrange
+      await service.record(scan(now, 'mine'));
+      userStorage.user = createUser('cook2');
+      await service.record(scan(now, 'theirs'));
+
+      // Act
+      await service.clear();
+
+      // Assert
+      expect(storage.entries.cook2).toEqual([]);
+      expect(storage.entries.cook1).toHaveLength(1);
+    });
+  });
+});
+
+describe('getScanOutcome', () => {
+  it('should classify scan contents', () => {
+    expect(
+      getScanOutcome({
+        kind: 'entity',
+        payload: { version: 2, entity: { type: 'order', id: '42' } },
+        verification: { status: 'tampered', keyId: 'k1' },
+      }),
+    ).toBe('untrusted');
+    expect(
+      getScanOutcome({
+        kind: 'entity',
+        payload: { version: 2, entity: { type: 'order', id: '42' } },
+        verification: { status: 'valid', keyId: 'k1' },
+      }),
+    ).toBe('accepted');
+    expect(
+      getScanOutcome({
+        kind: 'entity',
+        payload: { version: 1, entity: { type: 'order', id: '42' } },
+        verification: { status: 'unsigned' },
+      }),
+    ).toBe('untrusted');
+    expect(
+      getScanOutcome({
+        kind: 'invalid',
+        error: { code: QrPayloadErrorCode.MALFORMED, message: 'Malformed' },
+      }),
+    ).toBe('invalid');
+    expect(getScanOutcome({ kind: 'unknown' })).toBe('unknown');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Scan Pipeline Tests
+ * @file Unit tests for filtering, debouncing and dispatching scanned codes
+ */
+
+import { ScanPipeline } from '../scan/ScanPipeline';
+import { ScannedCode } from '../../types/scan.types';
+
+const qr = (value: string, frame?: ScannedCode['frame']): ScannedCode => ({
+  value,
+  type: 'qr',
+  frame,
+});
+
+describe('ScanPipeline', () => {
+  let now: number;
+  let pipeline: ScanPipeline;
+
+  beforeEach(() => {
+    now = 1000;
+    pipeline = new ScanPipeline({ debounceMs: 2000, now: () => now });
+  });
+
+  it('should dispatch a scanned code with its parsed content', async () => {
+    // Arrange
+    const listener = jest.fn();
+    pipeline.subscribe(listener);
+
+    // Act
+    const result = await pipeline.process([qr('keytchens://orders/42')]);
+
+    // Assert
+    expect(result).toEqual({
+      rawValue: 'keytchens://orders/42',
+      symbology: 'qr',
+      scannedAt: 1000,
+      content: {
+        kind: 'entity',
+        payload: { version: 0, entity: { type: 'order', id: '42' } },
+        verification: { status: 'unsigned' },
+      },
+    });
+    expect(listener).toHaveBeenCalledWith(result);
+  });
+
+  it('should mark values that are not Keytchens codes as unknown', async () => {
+    const result = await pipeline.process([qr('hello')]);
+
+    expect(result?.content).toEqual({ kind: 'unknown' });
+  });
+
+  it('should ignore codes outside the scan region', async () => {
+    // Arrange
+    pipeline.setRegion({ x: 100, y: 100, width: 200, height: 200 });
+
+    // Act
+    const result = await pipeline.process([
+      qr('outside', { x: 0, y: 0, width: 50, height: 50 }),
+      qr('inside', { x: 150, y: 150, width: 50, height: 50 }),
+    ]);
+
+    // Assert
+    expect(result?.rawValue).toBe('inside');
+  });
+
+  it('should ignore repeat reads within the debounce window', async () => {
+    // Arrange
+    const listener = jest.fn();
+    pipeline.subscribe(listener);
+    await pipeline.process([qr('same')]);
+
+    // Act
+    now += 1999;
+    const repeat = await pipeline.process([qr('same')]);
+    const other = await pipeline.process([qr('other')]);
+    now += 2000;
+    const later = await pipeline.process([qr('other')]);
+
+    // Assert
+    expect(repeat).toBeNull();
+    expect(other?.rawValue).toBe('other');
+    expect(later?.rawValue).toBe('other');
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should pause while listeners handle a result', async () => {
+    // Arrange
+    const pauses: boolean[] = [];
+    let finishHandling = () => {};
+    pipeline.onPauseChange(isPaused => pauses.push(isPaused));
+    pipeline.subscribe(
+      () =>
+        new Promise<void>(resolve => {
+          finishHandling = resolve;
+        }),
+    );
+
+    // Act
+    const first = pipeline.process([qr('first')]);
+    await Promise.resolve();
+    const whilePaused = await pipeline.process([qr('second')]);
+    finishHandling();
+    await first;
+
+    // Assert
+    expect(whilePaused).toBeNull();
+    expect(pauses).toEqual([true, false]);
+    expect(pipeline.isPaused()).toBe(false);
+  });
+
+  it('should stay paused until every async listener settles', async () => {
+    // Arrange
+    let dismissAlert = () => {};
+    pipeline.subscribe(async () => undefined);
+    pipeline.subscribe(async () => {
+      await Promise.resolve();
+      await new Promise<void>(resolve => {
+        dismissAlert = resolve;
+      });
+    });
+
+    // Act
+    const first = pipeline.process([qr('first')]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const whileAlertShown = await pipeline.process([qr('second')]);
+    const wasPaused = pipeline.isPaused();
+    dismissAlert();
+    await first;
+
+    // Assert
+    expect(whileAlertShown).toBeNull();
+    expect(wasPaused).toBe(true);
+    expect(pipeline.isPaused()).toBe(false);
+  });
+
+  it('should resume when an async listener rejects', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    pipeline.subscribe(async () => {
+      throw new Error('boom');
+    });
+
+    await pipeline.process([qr('value')]);
+
+    expect(pipeline.isPaused()).toBe(false);
+    consoleError.mockRestore();
+  });
+
+  it('should resume when a listener fails', async () => {
+    // Arrange
+    const consoleError = jest.spyOn(console, 'error').mockImplementation();
+    pipeline.subscribe(() => {
+      throw new Error('boom');
+    });
+
+    // Act
+    const result = await pipeline.process([qr('value')]);
+
+    // Assert
+    expect(result).not.toBeNull();
+    expect(pipeline.isPaused()).toBe(false);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Service Container Tests
+ * @file Checks how the container wires scanning into navigation
+ */
+
+import { getScanTarget } from '../../navigation/deepLinks';
+import { serviceContainer } from '../ServiceContainer';
+import { isTrustedVerification } from '../scan/QrSignatureVerifier';
+import { EntityRef } from '../../types/entity.types';
+
+/**
+ * Route HomeScreen opens for a scanned value, or null when it refuses it
+ */
+const scanAndRoute = async (value: string) => {
+  const result = await serviceContainer
+    .getScanPipeline()
+    .process([{ value, type: 'qr' }]);
+  return result?.content.kind === 'entity' &&
+    isTrustedVerification(result.content.verification)
+    ? getScanTarget(result.content.payload.entity)
+    : null;
+};
+
+describe('ServiceContainer', () => {
+  describe('scanning', () => {
+    it('should still open a scanned custom scheme app link', async () => {
+      const entity: EntityRef = { type: 'order', id: 'ORD-42' };
+
+      expect(await scanAndRoute('keytchens://orders/ORD-42')).toEqual({
+        name: 'EntityDetails',
+        params: entity,
+      });
+    });
+
+    it('should still open a scanned https app link', async () => {
+      const entity: EntityRef = { type: 'lot', id: 'L123', site: 'PAR1' };
+
+      expect(
+        await scanAndRoute('https://app.keytchens.com/lots/L123?site=PAR1'),
+      ).toEqual({ name: 'EntityDetails', params: entity });
+    });
+  });
+});
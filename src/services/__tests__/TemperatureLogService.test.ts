@@ -0,0 +1,346 @@
+/**
+ * Temperature Log Tests
+ * @file Unit tests for HACCP reading checks, offline storage and upload
+ */
+
+import { API_ENDPOINTS } from '../api/HttpClient';
+import {
+  ITemperatureLogStorage,
+  TemperatureLogService,
+} from '../haccp/TemperatureLogService';
+import {
+  createUser,
+  MockHttpClient,
+  MockUserStorage,
+} from '../__mocks__/testDoubles';
+import { ApiErrorType } from '../../types/api.types';
+import {
+  TemperatureLogErrorType,
+  TemperatureReading,
+  TemperatureReadingInput,
+} from '../../types/temperatureLog.types';
+
+class MockTemperatureLogStorage implements ITemperatureLogStorage {
+  readings: TemperatureReading[] = [];
+
+  async getReadings(): Promise<TemperatureReading[]> {
+    return this.readings;
+  }
+
+  async saveReadings(readings: TemperatureReading[]): Promise<void> {
+    this.readings = readings;
+  }
+}
+
+const NOW = Date.UTC(2026, 0, 15, 10);
+
+const fridgeReading = (
+  temperatureC: number,
+  correctiveAction?: string,
+): TemperatureReadingInput => ({
+  equipment: { type: 'equipment', id: 'fridge-2', site: 'PAR1' },
+  equipmentKind: 'fridge',
+  temperatureC,
+  correctiveAction,
+});
+
+describe('TemperatureLogService', () => {
+  let httpClient: MockHttpClient;
+  let storage: MockTemperatureLogStorage;
+  let userStorage: MockUserStorage;
+  let currentTime: number;
+  let service: TemperatureLogService;
+
+  beforeEach(() => {
+    httpClient = new MockHttpClient();
+    httpClient.response = { accepted: 1 };
+    storage = new MockTemperatureLogStorage();
+    userStorage = new MockUserStorage(createUser('cook1'));
+    currentTime = NOW;
+    service = new TemperatureLogService(httpClient, storage, userStorage, {
+      now: () => currentTime,
+    });
+  });
+
+  describe('record', () => {
+    it('should store a reading signed by the signed-in user', async () => {
+      // Act
+      const reading = await service.record(fridgeReading(3.5));
+
+      // Assert
+      expect(reading).toEqual({
+        id: expect.any(String),
+        equipment: { type: 'equipment', id: 'fridge-2', site: 'PAR1' },
+        equipmentKind: 'fridge',
+        temperatureC: 3.5,
+        range: { minC: 0, maxC: 4 },
+        withinRange: true,
+        userId: 'cook1',
+        recordedAt: NOW,
+        uploaded: false,
+      });
+      expect(storage.readings).toEqual([reading]);
+    });
+
+    it('should require a corrective action out of range', async () => {
+      await expect(service.record(fridgeReading(7))).rejects.toEqual(
+        expect.objectContaining({
+          type: TemperatureLogErrorType.CORRECTIVE_ACTION_REQUIRED,
+        }),
+      );
+      await expect(service.record(fridgeReading(7, '   '))).rejects.toEqual(
+        expect.objectContaining({
+          type: TemperatureLogErrorType.CORRECTIVE_ACTION_REQUIRED,
+        }),
+      );
+      expect(storage.readings).toEqual([]);
+    });
+
+    it('should keep the corrective action of out-of-range readings', async () => {
+      const reading = await service.record(
+        fridgeReading(7, ' Moved stock to cold room '),
+      );
+
+      expect(reading).toMatchObject({
+        withinRange: false,
+        correctiveAction: 'Moved stock to cold room',
+      });
+    });
+
+    it('should check the range of each equipment kind', async () => {
+      const freezer = await service.record({
+        ...fridgeReading(-16, 'Door left open, closed it'),
+        equipmentKind: 'freezer',
+      });
+      const hotHold = await service.record({
+        ...fridgeReading(65),
+        equipmentKind: 'hotHold',
+      });
+
+      expect(freezer.withinRange).toBe(false);
+      expect(hotHold.withinRange).toBe(true);
+    });
+
+    it('should reject implausible temperatures', async () => {
+      await expect(service.record(fridgeReading(NaN))).rejects.toEqual(
+        expect.objectContaining({
+          type: TemperatureLogErrorType.INVALID_TEMPERATURE,
+        }),
+      );
+      await expect(service.record(fridgeReading(400))).rejects.toEqual(
+        expect.objectContaining({
+          type: TemperatureLogErrorType.INVALID_TEMPERATURE,
+        }),
+      );
+    });
+
+    it('should refuse readings without a signed-in user', async () => {
+      userStorage.user = null;
+
+      await expect(service.record(fridgeReading(3))).rejects.toEqual(
+        expect.objectContaining({
+          type: TemperatureLogErrorType.NOT_SIGNED_IN,
+        }),
+      );
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should list the readings of one equipment, newest first', async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      currentTime += 1000;
+      await service.record({
+        ...fridgeReading(-20),
+        equipment: { type: 'equipment', id: 'freezer-1', site: 'PAR1' },
+        equipmentKind: 'freezer',
+      });
+      currentTime += 1000;
+      await service.record(fridgeReading(3));
+
+      // Act
+      const history = await service.getHistory({
+        type: 'equipment',
+        id: 'fridge-2',
+        site: 'PAR1',
+      });
+
+      // Assert
+      expect(history.map(reading => reading.temperatureC)).toEqual([3, 2]);
+    });
+  });
+
+  describe('upload', () => {
+    it('should send pending readings in one request', async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      currentTime += 1000;
+      await service.record(fridgeReading(3));
+
+      // Act
+      const count = await service.upload();
+
+      // Assert
+      expect(count).toBe(2);
+      expect(httpClient.posts).toHaveLength(1);
+      expect(httpClient.posts[0].url).toBe(API_ENDPOINTS.temperatureReadings);
+      expect(httpClient.posts[0].data).toEqual({
+        readings: [
+          expect.objectContaining({ temperatureC: 3 }),
+          expect.objectContaining({
+            temperatureC: 2,
+            userId: 'cook1',
+            recordedAt: new Date(NOW).toISOString(),
+          }),
+        ],
+      });
+      expect(storage.readings.every(reading => reading.uploaded)).toBe(true);
+    });
+
+    it('should not send anything when nothing is pending', async () => {
+      expect(await service.upload()).toBe(0);
+      expect(httpClient.posts).toEqual([]);
+    });
+
+    it('should share one upload across concurrent calls', async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+
+      // Act
+      const counts = await Promise.all([service.upload(), service.upload()]);
+
+      // Assert
+      expect(counts).toEqual([1, 1]);
+      expect(httpClient.posts).toHaveLength(1);
+    });
+
+    it("should leave other users' readings for their next sign-in", async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      userStorage.user = createUser('cook2');
+
+      // Act
+      const count = await service.upload();
+
+      // Assert
+      expect(count).toBe(0);
+      expect(httpClient.posts).toEqual([]);
+    });
+
+    it('should keep readings recorded during the upload pending', async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      httpClient.onRequest = async () => {
+        currentTime += 1000;
+        await service.record(fridgeReading(3));
+      };
+
+      // Act
+      await service.upload();
+
+      // Assert
+      expect(
+        storage.readings.map(reading => [
+          reading.temperatureC,
+          reading.uploaded,
+        ]),
+      ).toEqual([
+        [3, false],
+        [2, true],
+      ]);
+    });
+
+    it('should keep a reading recorded while the upload saves', async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      let recording: Promise<unknown> | undefined;
+      httpClient.onRequest = async () => {
+        // Hold the next save so the record and the upload overlap
+        jest
+          .spyOn(storage, 'saveReadings')
+          .mockImplementationOnce(async readings => {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            storage.readings = readings;
+          });
+        currentTime += 1000;
+        recording = service.record(fridgeReading(3));
+      };
+
+      // Act
+      await service.upload();
+      await recording;
+
+      // Assert
+      expect(
+        storage.readings.map(reading => [
+          reading.temperatureC,
+          reading.uploaded,
+        ]),
+      ).toEqual([
+        [3, false],
+        [2, true],
+      ]);
+    });
+
+    it('should keep readings on the device when offline', async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      httpClient.error = {
+        type: ApiErrorType.OFFLINE,
+        message: 'Network error',
+      };
+
+      // Act & Assert
+      await expect(service.upload()).rejects.toEqual(
+        expect.objectContaining({ type: ApiErrorType.OFFLINE }),
+      );
+      expect(storage.readings.map(reading => reading.uploaded)).toEqual([
+        false,
+      ]);
+    });
+
+    it('should drop old uploaded readings but never pending ones', async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      await service.upload();
+      await service.record(fridgeReading(3));
+      currentTime += 91 * 24 * 60 * 60 * 1000;
+
+      // Act
+      const history = await service.getHistory(fridgeReading(0).equipment);
+
+      // Assert
+      expect(history.map(reading => reading.temperatureC)).toEqual([3]);
+    });
+  });
+
+  describe('clear', () => {
+    it("should only delete the signed-in user's uploaded readings", async () => {
+      // Arrange
+      await service.record(fridgeReading(2));
+      await service.upload();
+      currentTime += 1000;
+      await service.record(fridgeReading(3));
+      userStorage.user = createUser('cook2');
+      currentTime += 1000;
+      await service.record(fridgeReading(4));
+      await service.upload();
+      userStorage.user = createUser('cook1');
+
+      // Act
+      await service.clear();
+
+      // Assert
+      expect(
+        storage.readings.map(reading => [
+          reading.userId,
+          reading.temperatureC,
+          reading.uploaded,
+        ]),
+      ).toEqual([
+        ['cook2', 4, true],
+        ['cook1', 3, false],
+      ]);
+    });
+  });
+});
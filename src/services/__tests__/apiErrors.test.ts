@@ -0,0 +1,75 @@
+/**
+ * API Error Tests
+ * @file Unit tests for mapping failed responses to ApiError
+ */
+
+import { createApiError, getFieldErrors } from '../api/apiErrors';
+import { ApiErrorType, isApiError } from '../../types/api.types';
+import { AuthErrorType, isAuthError } from '../../types/auth.types';
+
+describe('getFieldErrors', () => {
+  it('should read messages keyed by field', () => {
+    expect(
+      getFieldErrors({
+        errors: { email: ['Required', 'Invalid'], password: 'Too short' },
+      }),
+    ).toEqual({ email: ['Required', 'Invalid'], password: ['Too short'] });
+  });
+
+  it('should read a list of field errors', () => {
+    expect(
+      getFieldErrors({ errors: [{ field: 'quantity', message: 'Too low' }] }),
+    ).toEqual({ quantity: ['Too low'] });
+  });
+
+  it('should ignore bodies without field errors', () => {
+    expect(getFieldErrors('Bad Request')).toEqual({});
+    expect(getFieldErrors({ errors: [{ message: 'No field' }] })).toEqual({});
+  });
+});
+
+describe('createApiError', () => {
+  it('should fall back to the request id of the payload', () => {
+    // Act
+    const error = createApiError(500, { payload: { requestId: 'req-9' } });
+
+    // Assert
+    expect(error).toMatchObject({
+      type: ApiErrorType.SERVER_ERROR,
+      requestId: 'req-9',
+    });
+  });
+
+  it('should prefer the request id header', () => {
+    const error = createApiError(500, {
+      payload: { requestId: 'req-9' },
+      requestId: 'req-1',
+    });
+
+    expect(error.requestId).toBe('req-1');
+  });
+
+  it('should only add field errors to validation errors', () => {
+    const payload = { errors: { email: ['Taken'] } };
+
+    expect(createApiError(400, { payload }).fieldErrors).toEqual({
+      email: ['Taken'],
+    });
+    expect(createApiError(409, { payload }).fieldErrors).toBeUndefined();
+  });
+});
+
+describe('error guards', () => {
+  it('should tell API errors from auth errors', () => {
+    const apiError = createApiError(401);
+    const authError = {
+      type: AuthErrorType.INVALID_CREDENTIALS,
+      message: 'Invalid email or password',
+    };
+
+    expect(isApiError(apiError)).toBe(true);
+    expect(isAuthError(apiError)).toBe(false);
+    expect(isAuthError(authError)).toBe(true);
+    expect(isApiError(authError)).toBe(false);
+  });
+});
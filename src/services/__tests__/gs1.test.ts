@@ -0,0 +1,181 @@
+/**
+ * GS1 Tests
+ * @file Unit tests for GS1 barcode parsing
+ */
+
+import {
+  decodeGs1Date,
+  GROUP_SEPARATOR,
+  isValidGs1CheckDigit,
+  parseGs1Barcode,
+  parseGs1ElementString,
+} from '../scan/gs1';
+import { parseScanContent } from '../scan/scanContent';
+import { Gs1ErrorCode } from '../../types/gs1.types';
+
+const NOW = Date.UTC(2026, 5, 15);
+const now = () => NOW;
+
+describe('isValidGs1CheckDigit', () => {
+  it('should accept valid GTINs and SSCCs', () => {
+    expect(isValidGs1CheckDigit('4006381333931')).toBe(true);
+    expect(isValidGs1CheckDigit('09506000134352')).toBe(true);
+    expect(isValidGs1CheckDigit('106141412345678908')).toBe(true);
+  });
+
+  it('should reject a wrong check digit', () => {
+    expect(isValidGs1CheckDigit('4006381333932')).toBe(false);
+  });
+});
+
+describe('decodeGs1Date', () => {
+  it('should decode YYMMDD', () => {
+    expect(decodeGs1Date('260228', NOW)).toBe('2026-02-28');
+  });
+
+  it('should read day 00 as the last day of the month', () => {
+    expect(decodeGs1Date('280200', NOW)).toBe('2028-02-29');
+  });
+
+  it('should place years far in the future in the previous century', () => {
+    expect(decodeGs1Date('990101', NOW)).toBe('1999-01-01');
+    expect(decodeGs1Date('750101', NOW)).toBe('2075-01-01');
+  });
+
+  it('should reject dates that do not exist', () => {
+    expect(decodeGs1Date('261301', NOW)).toBeNull();
+    expect(decodeGs1Date('260230', NOW)).toBeNull();
+  });
+});
+
+describe('parseGs1ElementString', () => {
+  it('should parse raw GS1-128 data with separators', () => {
+    // Arrange
+    const value = `]C101095060001343521726022810ABC12${GROUP_SEPARATOR}15260131`;
+
+    // Act
+    const result = parseGs1ElementString(value, { now });
+
+    // Assert
+    expect(result).toEqual({
+      ok: true,
+      product: {
+        gtin: '09506000134352',
+        expiry: '2026-02-28',
+        lot: 'ABC12',
+        bestBefore: '2026-01-31',
+        elements: [
+          { ai: '01', value: '09506000134352' },
+          { ai: '17', value: '260228' },
+          { ai: '10', value: 'ABC12' },
+          { ai: '15', value: '260131' },
+        ],
+      },
+    });
+  });
+
+  it('should parse the human-readable form', () => {
+    const result = parseGs1ElementString('(00)106141412345678908(21)SN-1', {
+      now,
+    });
+
+    expect(result.ok && result.product).toMatchObject({
+      sscc: '106141412345678908',
+      serial: 'SN-1',
+    });
+  });
+
+  it('should reject an unknown AI', () => {
+    const result = parseGs1ElementString('9912345', { now });
+
+    expect(!result.ok && result.error.code).toBe(Gs1ErrorCode.UNKNOWN_AI);
+  });
+
+  it('should reject a GTIN with a wrong check digit', () => {
+    const result = parseGs1ElementString('0109506000134353', { now });
+
+    expect(!result.ok && result.error.code).toBe(
+      Gs1ErrorCode.INVALID_CHECK_DIGIT,
+    );
+  });
+
+  it('should reject a lot longer than 20 characters', () => {
+    const result = parseGs1ElementString(`10${'A'.repeat(21)}`, { now });
+
+    expect(!result.ok && result.error.code).toBe(Gs1ErrorCode.INVALID_LENGTH);
+  });
+
+  it('should reject an invalid date', () => {
+    const result = parseGs1ElementString('17261340', { now });
+
+    expect(!result.ok && result.error.code).toBe(Gs1ErrorCode.INVALID_DATE);
+  });
+});
+
+describe('parseGs1Barcode', () => {
+  it('should read an EAN-13 as a GTIN-14', () => {
+    const result = parseGs1Barcode('4006381333931', 'ean-13');
+
+    expect(result).toEqual({
+      ok: true,
+      product: {
+        gtin: '04006381333931',
+        elements: [{ ai: '01', value: '04006381333931' }],
+      },
+    });
+  });
+
+  it('should reject an EAN-13 with a wrong check digit', () => {
+    const result = parseGs1Barcode('4006381333932', 'ean-13');
+
+    expect(result && !result.ok && result.error.code).toBe(
+      Gs1ErrorCode.INVALID_CHECK_DIGIT,
+    );
+  });
+
+  it('should read a DataMatrix without a leading FNC1', () => {
+    const result = parseGs1Barcode('010950600013435210LOT7', 'data-matrix', {
+      now,
+    });
+
+    expect(result?.ok && result.product).toMatchObject({
+      gtin: '09506000134352',
+      lot: 'LOT7',
+    });
+  });
+
+  it('should leave plain Code 128 labels to other parsers', () => {
+    expect(parseGs1Barcode('SHELF-A3', 'code-128')).toBeNull();
+    expect(parseGs1Barcode('1234', 'code-128')).toBeNull();
+  });
+
+  it('should leave QR codes without GS1 data to other parsers', () => {
+    expect(parseGs1Barcode('KT:1:O:PAR1:ORD-42', 'qr')).toBeNull();
+  });
+});
+
+describe('parseScanContent', () => {
+  it('should return a product for a GS1 barcode', () => {
+    const content = parseScanContent('4006381333931', 'ean-13');
+
+    expect(content).toEqual({
+      kind: 'gs1',
+      product: {
+        gtin: '04006381333931',
+        elements: [{ ai: '01', value: '04006381333931' }],
+      },
+    });
+  });
+
+  it('should report a malformed GS1 barcode as invalid', () => {
+    const content = parseScanContent('4006381333932', 'ean-13');
+
+    expect(content.kind).toBe('invalid');
+  });
+
+  it('should still parse Keytchens QR payloads', () => {
+    const content = parseScanContent('KT:1:O:PAR1:ORD-42', 'qr');
+
+    expect(content.kind).toBe('entity');
+  });
+});
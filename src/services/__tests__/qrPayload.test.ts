@@ -0,0 +1,161 @@
+/**
+ * QR Payload Tests
+ * @file Unit tests for parsing and encoding Keytchens QR payloads
+ */
+
+import {
+  computeQrChecksum,
+  encodeQrPayload,
+  parseQrPayload,
+} from '../scan/qrPayload';
+import { QrPayloadErrorCode } from '../../types/qrPayload.types';
+
+const errorCodeOf = (rawValue: string) => {
+  const result = parseQrPayload(rawValue);
+  return result.ok ? null : result.error.code;
+};
+
+describe('computeQrChecksum', () => {
+  it('should compute CRC-16/CCITT-FALSE', () => {
+    expect(computeQrChecksum('123456789')).toBe('29B1');
+  });
+});
+
+describe('parseQrPayload', () => {
+  it('should parse a v1 payload without checksum', () => {
+    expect(parseQrPayload('KT:1:O:PAR1:ORD-42')).toEqual({
+      ok: true,
+      payload: {
+        version: 1,
+        entity: { type: 'order', id: 'ORD-42', site: 'PAR1' },
+      },
+    });
+  });
+
+  it('should parse a v1 payload with a valid checksum', () => {
+    // Arrange
+    const body = 'KT:1:L:PAR1:lot_7';
+    const checksum = computeQrChecksum(body);
+
+    // Act
+    const result = parseQrPayload(`${body}:${checksum.toLowerCase()}`);
+
+    // Assert
+    expect(result).toEqual({
+      ok: true,
+      payload: {
+        version: 1,
+        entity: { type: 'lot', id: 'lot_7', site: 'PAR1' },
+        checksum,
+      },
+    });
+  });
+
+  it('should map every type code', () => {
+    const types = ['O', 'E', 'S', 'L'].map(code => {
+      const result = parseQrPayload(`KT:1:${code}:PAR1:X1`);
+      return result.ok ? result.payload.entity.type : null;
+    });
+
+    expect(types).toEqual(['order', 'equipment', 'location', 'lot']);
+  });
+
+  it('should parse legacy app links as version 0', () => {
+    expect(parseQrPayload('keytchens://equipment/fridge-2?site=PAR1')).toEqual({
+      ok: true,
+      payload: {
+        version: 0,
+        entity: { type: 'equipment', id: 'fridge-2', site: 'PAR1' },
+      },
+    });
+  });
+
+  it('should report codes that are not Keytchens codes', () => {
+    expect(errorCodeOf('3017620422003')).toBe(
+      QrPayloadErrorCode.UNKNOWN_FORMAT,
+    );
+    expect(errorCodeOf('https://example.com/orders/42')).toBe(
+      QrPayloadErrorCode.UNKNOWN_FORMAT,
+    );
+    expect(errorCodeOf('')).toBe(QrPayloadErrorCode.UNKNOWN_FORMAT);
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(errorCodeOf('KT:3:O:PAR1:42')).toBe(
+      QrPayloadErrorCode.UNSUPPORTED_VERSION,
+    );
+  });
+
+  it('should reject payloads with missing or extra fields', () => {
+    expect(errorCodeOf('KT:1:O:PAR1')).toBe(QrPayloadErrorCode.MALFORMED);
+    expect(errorCodeOf('KT:1:O:PAR1:42:29B1:extra')).toBe(
+      QrPayloadErrorCode.MALFORMED,
+    );
+  });
+
+  it('should reject signed payloads with malformed signature fields', () => {
+    const signature = 'A'.repeat(86);
+
+    expect(errorCodeOf('KT:2:O:PAR1:42::k1')).toBe(
+      QrPayloadErrorCode.MALFORMED,
+    );
+    expect(errorCodeOf(`KT:2:O:PAR1:42:soon:k1:${signature}`)).toBe(
+      QrPayloadErrorCode.INVALID_SIGNATURE,
+    );
+    expect(errorCodeOf('KT:2:O:PAR1:42::k1:short')).toBe(
+      QrPayloadErrorCode.INVALID_SIGNATURE,
+    );
+  });
+
+  it('should reject unknown type codes', () => {
+    expect(errorCodeOf('KT:1:X:PAR1:42')).toBe(QrPayloadErrorCode.INVALID_TYPE);
+  });
+
+  it('should reject invalid ids and sites', () => {
+    expect(errorCodeOf('KT:1:O:PAR1:')).toBe(QrPayloadErrorCode.INVALID_ID);
+    expect(errorCodeOf('KT:1:O:PAR1:a b')).toBe(QrPayloadErrorCode.INVALID_ID);
+    expect(errorCodeOf('KT:1:O::42')).toBe(QrPayloadErrorCode.INVALID_SITE);
+  });
+
+  it('should reject a checksum that does not match', () => {
+    // Arrange
+    const encoded = encodeQrPayload({ type: 'order', id: '42', site: 'PAR1' });
+    const tampered = encoded.replace(':42:', ':43:');
+
+    // Act & Assert
+    expect(errorCodeOf(tampered)).toBe(QrPayloadErrorCode.CHECKSUM_MISMATCH);
+    expect(errorCodeOf('KT:1:O:PAR1:42:XYZ')).toBe(
+      QrPayloadErrorCode.CHECKSUM_MISMATCH,
+    );
+  });
+});
+
+describe('encodeQrPayload', () => {
+  it('should round-trip through the parser', () => {
+    // Arrange
+    const input = { type: 'location' as const, id: 'walk-in_1', site: 'LYO2' };
+
+    // Act
+    const encoded = encodeQrPayload(input);
+    const result = parseQrPayload(encoded);
+
+    // Assert
+    expect(encoded).toMatch(/^KT:1:S:LYO2:walk-in_1:[0-9A-F]{4}$/);
+    expect(result.ok && result.payload.entity).toEqual(input);
+  });
+
+  it('should omit the checksum on request', () => {
+    expect(
+      encodeQrPayload(
+        { type: 'equipment', id: 'oven1', site: 'PAR1' },
+        { checksum: false },
+      ),
+    ).toBe('KT:1:E:PAR1:oven1');
+  });
+
+  it('should throw a structured error for invalid ids', () => {
+    expect(() =>
+      encodeQrPayload({ type: 'order', id: 'a:b', site: 'PAR1' }),
+    ).toThrow(expect.objectContaining({ code: QrPayloadErrorCode.INVALID_ID }));
+  });
+});
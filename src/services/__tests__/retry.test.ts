@@ -0,0 +1,76 @@
+/**
+ * Retry Policy Tests
+ * @file Unit tests for backoff delays, Retry-After parsing and the budget
+ */
+
+import { getBackoffDelay, parseRetryAfter, RetryBudget } from '../api/retry';
+
+describe('getBackoffDelay', () => {
+  const policy = { baseDelayMs: 300, maxDelayMs: 1000 };
+
+  it('should double the bound on each retry, up to the maximum', () => {
+    // Arrange
+    const almostOne = () => 0.999;
+
+    // Act
+    const delays = [1, 2, 3, 4].map(retry =>
+      getBackoffDelay(retry, policy, almostOne),
+    );
+
+    // Assert
+    expect(delays).toEqual([299, 599, 999, 999]);
+  });
+
+  it('should pick a random delay below the bound', () => {
+    expect(getBackoffDelay(2, policy, () => 0)).toBe(0);
+    expect(getBackoffDelay(2, policy, () => 0.25)).toBe(150);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.UTC(2026, 0, 15, 10);
+
+  it('should read delay-seconds', () => {
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('should read HTTP dates relative to now', () => {
+    expect(parseRetryAfter('Thu, 15 Jan 2026 10:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Thu, 15 Jan 2026 09:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing and malformed values', () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('', now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter('-3', now)).toBeNull();
+  });
+});
+
+describe('RetryBudget', () => {
+  it('should allow retries up to the bucket size, then earn them back', () => {
+    // Arrange
+    const budget = new RetryBudget(0.5, 2);
+
+    // Act & Assert
+    expect(budget.withdraw()).toBe(true);
+    expect(budget.withdraw()).toBe(true);
+    expect(budget.withdraw()).toBe(false);
+
+    budget.deposit();
+    expect(budget.withdraw()).toBe(false);
+    budget.deposit();
+    expect(budget.withdraw()).toBe(true);
+  });
+
+  it('should not earn more tokens than the bucket holds', () => {
+    const budget = new RetryBudget(1, 1);
+
+    budget.deposit();
+    budget.deposit();
+
+    expect(budget.withdraw()).toBe(true);
+    expect(budget.withdraw()).toBe(false);
+  });
+});
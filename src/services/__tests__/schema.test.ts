@@ -0,0 +1,138 @@
+/**
+ * Schema Tests
+ * @file Unit tests for the response decoders and their error paths
+ */
+
+import { Infer, parse, s, Schema } from '../api/schema';
+
+/**
+ * Message of the error thrown when decoding fails
+ */
+const failure = <T>(schema: Schema<T>, value: unknown): string => {
+  try {
+    parse(schema, value);
+  } catch (error) {
+    return (error as { message: string }).message;
+  }
+  throw new Error('Expected decoding to fail');
+};
+
+describe('schema', () => {
+  describe('primitives', () => {
+    it('should accept values of the declared type', () => {
+      expect(parse(s.string(), 'PO-1')).toBe('PO-1');
+      expect(parse(s.number(), 3.5)).toBe(3.5);
+      expect(parse(s.boolean(), false)).toBe(false);
+    });
+
+    it('should name the expected and received types', () => {
+      expect(failure(s.string(), 42)).toBe('$: expected string, got number');
+      expect(failure(s.number(), NaN)).toBe('$: expected number, got NaN');
+      expect(failure(s.boolean(), null)).toBe('$: expected boolean, got null');
+    });
+  });
+
+  describe('oneOf', () => {
+    it('should only accept the listed values', () => {
+      const status = s.oneOf(['ok', 'fault'] as const);
+
+      expect(parse(status, 'fault')).toBe('fault');
+      expect(failure(status, 'broken')).toBe(
+        '$: expected one of "ok", "fault", got string "broken"',
+      );
+    });
+  });
+
+  describe('object', () => {
+    const lot = s.object({
+      id: s.string(),
+      quantity: s.number(),
+      note: s.optional(s.string()),
+    });
+
+    it('should keep declared keys only', () => {
+      // Act
+      const decoded = parse(lot, { id: 'lot7', quantity: 2, extra: true });
+
+      // Assert
+      expect(decoded).toEqual({ id: 'lot7', quantity: 2 });
+    });
+
+    it('should make keys with optional schemas optional', () => {
+      const decoded: Infer<typeof lot> = { id: 'lot7', quantity: 2 };
+
+      expect(parse(lot, decoded)).toEqual(decoded);
+    });
+
+    it('should report the path of nested values', () => {
+      // Arrange
+      const count = s.object({
+        items: s.array(s.object({ lot, 'unit-code': s.string() })),
+      });
+
+      // Act & Assert
+      expect(
+        failure(count, {
+          items: [
+            { lot: { id: 'lot1', quantity: 1 }, 'unit-code': 'kg' },
+            { lot: { id: 'lot2', quantity: '2' }, 'unit-code': 'kg' },
+          ],
+        }),
+      ).toBe('$.items[1].lot.quantity: expected number, got string "2"');
+      expect(
+        failure(count, { items: [{ lot: { id: 'a', quantity: 1 } }] }),
+      ).toBe('$.items[0]["unit-code"]: expected string, got undefined');
+    });
+
+    it('should reject arrays and null', () => {
+      expect(failure(lot, [])).toBe('$: expected object, got array');
+      expect(failure(lot, null)).toBe('$: expected object, got null');
+    });
+  });
+
+  describe('nullable and nullish', () => {
+    it('should accept null, and undefined only when nullish', () => {
+      expect(parse(s.nullable(s.string()), null)).toBeNull();
+      expect(failure(s.nullable(s.string()), undefined)).toBe(
+        '$: expected string, got undefined',
+      );
+      expect(parse(s.nullish(s.string()), undefined)).toBeUndefined();
+    });
+  });
+
+  describe('union', () => {
+    const id = s.union(s.string(), s.number());
+
+    it('should return the first matching option', () => {
+      expect(parse(id, 'lot7')).toBe('lot7');
+      expect(parse(id, 7)).toBe(7);
+    });
+
+    it('should list why each option failed', () => {
+      expect(failure(id, true)).toBe(
+        '$: matched no option ($: expected string, got boolean; $: expected number, got boolean)',
+      );
+    });
+  });
+
+  describe('coerce', () => {
+    it('should read numbers and booleans sent as strings', () => {
+      expect(parse(s.coerce.number(), '3.5')).toBe(3.5);
+      expect(parse(s.coerce.boolean(), 'false')).toBe(false);
+      expect(parse(s.coerce.boolean(), 1)).toBe(true);
+      expect(parse(s.coerce.string(), 42)).toBe('42');
+    });
+
+    it('should still reject values that are not convertible', () => {
+      expect(failure(s.coerce.number(), 'abc')).toBe(
+        '$: expected number, got string "abc"',
+      );
+      expect(failure(s.coerce.number(), '')).toBe(
+        '$: expected number, got string ""',
+      );
+      expect(failure(s.coerce.boolean(), 'yes')).toBe(
+        '$: expected boolean, got string "yes"',
+      );
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * GraphQL Client - Named operations over the API client
+ * @file Sends queries and mutations with their variables, batches the ones
+ * issued in the same tick into one request and maps GraphQL `errors` onto
+ * ApiError
+ */
+
+import { ApiError, ApiErrorType } from '../../types/api.types';
+import { GraphQLApiError } from '../../types/graphql.types';
+import { decodeResponse } from './apiErrors';
+import { API_ENDPOINTS, IHttpClient } from './HttpClient';
+import { Infer, s, Schema } from './schema';
+
+/**
+ * Named GraphQL operation
+ * Declare it with its result and variable types, e.g.
+ * `const LOT_QUERY: GraphQLQuery<LotData, { id: string }> = {...}`
+ */
+export interface GraphQLOperation<TData, TVariables> {
+  kind: 'query' | 'mutation';
+  /** Sent as `operationName`; must match the name in `document` */
+  name: string;
+  document: string;
+  /**
+   * Hash the server knows the document by; the document itself is then
+   * only sent when the server asks for it
+   */
+  persistedId?: string;
+  /** Shape of `data`; results not matching it are rejected */
+  schema?: Schema<TData>;
+  /** Type-only marker tying the variables to the operation; never set */
+  variables?: TVariables;
+}
+
+export interface GraphQLQuery<TData, TVariables = Record<string, never>>
+  extends GraphQLOperation<TData, TVariables> {
+  kind: 'query';
+}
+
+export interface GraphQLMutation<TData, TVariables = Record<string, never>>
+  extends GraphQLOperation<TData, TVariables> {
+  kind: 'mutation';
+}
+
+/**
+ * Single entry of a GraphQL `errors` array
+ */
+export const GRAPHQL_ERROR_SCHEMA = s.object({
+  message: s.string(),
+  path: s.nullish(s.array(s.union(s.string(), s.number()))),
+  extensions: s.nullish(
+    s.object({
+      code: s.nullish(s.string()),
+      /** Input field a BAD_USER_INPUT error is about */
+      field: s.nullish(s.string()),
+    }),
+  ),
+});
+
+export type GraphQLErrorEntry = Infer<typeof GRAPHQL_ERROR_SCHEMA>;
+
+/**
+ * Result of one operation; `data` is checked by the operation schema
+ */
+const GRAPHQL_RESULT_SCHEMA = s.object({
+  data: s.unknown(),
+  errors: s.nullish(s.array(GRAPHQL_ERROR_SCHEMA)),
+});
+
+type GraphQLResult = Infer<typeof GRAPHQL_RESULT_SCHEMA>;
+
+/**
+ * Code sent back when the server does not know a persisted id
+ */
+export const PERSISTED_QUERY_NOT_FOUND = 'PERSISTED_QUERY_NOT_FOUND';
+
+/**
+ * ApiError type of each GraphQL error code
+ */
+const GRAPHQL_ERROR_TYPES: Record<string, ApiErrorType> = {
+  UNAUTHENTICATED: ApiErrorType.UNAUTHORIZED,
+  INVALID_CREDENTIALS: ApiErrorType.UNAUTHORIZED,
+  FORBIDDEN: ApiErrorType.FORBIDDEN,
+  NOT_FOUND: ApiErrorType.NOT_FOUND,
+  CONFLICT: ApiErrorType.CONFLICT,
+  BAD_USER_INPUT: ApiErrorType.VALIDATION,
+  GRAPHQL_VALIDATION_FAILED: ApiErrorType.VALIDATION,
+  RATE_LIMITED: ApiErrorType.RATE_LIMITED,
+  INTERNAL_SERVER_ERROR: ApiErrorType.SERVER_ERROR,
+};
+
+/**
+ * Map the `errors` of an operation onto an ApiError; the first error gives
+ * the type and message
+ */
+export const createGraphQLError = (
+  operationName: string,
+  errors: GraphQLErrorEntry[],
+): GraphQLApiError => {
+  const [first] = errors;
+  const code = first.extensions?.code ?? undefined;
+  const type = (code && GRAPHQL_ERROR_TYPES[code]) || ApiErrorType.UNKNOWN;
+
+  const fieldErrors: Record<string, string[]> = {};
+  errors.forEach(({ message, extensions }) => {
+    const field = extensions?.field;
+    if (field) {
+      fieldErrors[field] = [...(fieldErrors[field] ?? []), message];
+    }
+  });
+
+  return {
+    type,
+    message: first.message,
+    operationName,
+    payload: errors,
+    ...(code ? { code } : {}),
+    ...(type === ApiErrorType.VALIDATION ? { fieldErrors } : {}),
+  };
+};
+
+export interface GraphQLClientOptions {
+  /** Path of the GraphQL endpoint */
+  endpoint?: string;
+  /** Most operations sent in one request */
+  maxBatchSize?: number;
+  /**
+   * Send without the session, e.g. for the login endpoint: no access token,
+   * and no refresh on a 401
+   */
+  anonymous?: boolean;
+  /** Runs the flush once the current tick is over; replaced in tests */
+  schedule?: (flush: () => void) => void;
+}
+
+/**
+ * Operation waiting for the next flush
+ */
+interface PendingOperation {
+  operation: GraphQLOperation<unknown, unknown>;
+  variables: unknown;
+  /** Send the document even though the operation has a persisted id */
+  includeDocument: boolean;
+  resolve: (data: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Request body of one operation
+ */
+const toRequestBody = ({
+  operation,
+  variables,
+  includeDocument,
+}: PendingOperation) => ({
+  operationName: operation.name,
+  variables,
+  ...(includeDocument ? { query: operation.document } : {}),
+  ...(operation.persistedId
+    ? {
+        extensions: {
+          persistedQuery: { version: 1, sha256Hash: operation.persistedId },
+        },
+      }
+    : {}),
+});
+
+/**
+ * Interface for sending GraphQL operations - allows different implementations
+ */
+export interface IGraphQLClient {
+  query<TData, TVariables>(
+    operation: GraphQLQuery<TData, TVariables>,
+    variables: TVariables,
+  ): Promise<TData>;
+  mutate<TData, TVariables>(
+    operation: GraphQLMutation<TData, TVariables>,
+    variables: TVariables,
+  ): Promise<TData>;
+}
+
+export class GraphQLClient implements IGraphQLClient {
+  private httpClient: IHttpClient;
+  private endpoint: string;
+  private maxBatchSize: number;
+  private anonymous: boolean;
+  private schedule: (flush: () => void) => void;
+  private queue: PendingOperation[] = [];
+
+  constructor(httpClient: IHttpClient, options: GraphQLClientOptions = {}) {
+    this.httpClient = httpClient;
+    this.endpoint = options.endpoint ?? API_ENDPOINTS.graphql;
+    this.maxBatchSize = options.maxBatchSize ?? 10;
+    this.anonymous = options.anonymous ?? false;
+    this.schedule = options.schedule ?? (flush => setTimeout(flush, 0));
+  }
+
+  /**
+   * Run a query; queries issued in the same tick share one request
+   * @throws GraphQLApiError when the server answers with `errors`,
+   * ApiError otherwise
+   */
+  query<TData, TVariables>(
+    operation: GraphQLQuery<TData, TVariables>,
+    variables: TVariables,
+  ): Promise<TData> {
+    return this.enqueue(operation, variables);
+  }
+
+  /**
+   * Run a mutation; batched like queries, in the order they were issued
+   * @throws GraphQLApiError when the server answers with `errors`,
+   * ApiError otherwise
+   */
+  mutate<TData, TVariables>(
+    operation: GraphQLMutation<TData, TVariables>,
+    variables: TVariables,
+  ): Promise<TData> {
+    return this.enqueue(operation, variables);
+  }
+
+  private enqueue<TData, TVariables>(
+    operation: GraphQLOperation<TData, TVariables>,
+    variables: TVariables,
+  ): Promise<TData> {
+    return new Promise<TData>((resolve, reject) => {
+      this.push({
+        operation,
+        variables,
+        includeDocument: !operation.persistedId,
+        resolve: data => resolve(data as TData),
+        reject,
+      });
+    });
+  }
+
+  private push(pending: PendingOperation): void {
+    this.queue.push(pending);
+    if (this.queue.length === 1) {
+      this.schedule(() => this.flush());
+    }
+  }
+
+  /**
+   * Send the queued operations, `maxBatchSize` per request
+   */
+  private flush(): void {
+    const queued = this.queue;
+    this.queue = [];
+    for (let start = 0; start < queued.length; start += this.maxBatchSize) {
+      this.sendBatch(queued.slice(start, start + this.maxBatchSize));
+    }
+  }
+
+  /**
+   * Send a batch as one request: a single operation as an object, several
+   * as an array answered by an array of results in the same order
+   * Only batches of queries may be retried by the HTTP client
+   */
+  private async sendBatch(batch: PendingOperation[]): Promise<void> {
+    const options = {
+      idempotent: batch.every(({ operation }) => operation.kind === 'query'),
+      ...(this.anonymous ? { skipAuth: true, skipAuthRefresh: true } : {}),
+    };
+
+    let results: GraphQLResult[];
+    try {
+      results =
+        batch.length === 1
+          ? [
+              await this.httpClient.post(
+                this.endpoint,
+                toRequestBody(batch[0]),
+                { ...options, schema: GRAPHQL_RESULT_SCHEMA },
+              ),
+            ]
+          : await this.httpClient.post(
+              this.endpoint,
+              batch.map(toRequestBody),
+              { ...options, schema: s.array(GRAPHQL_RESULT_SCHEMA) },
+            );
+    } catch (error) {
+      batch.forEach(pending => pending.reject(error));
+      return;
+    }
+
+    if (results.length !== batch.length) {
+      const error: ApiError = {
+        type: ApiErrorType.INVALID_RESPONSE,
+        message: `Invalid response: expected ${batch.length} results, got ${results.length}`,
+      };
+      batch.forEach(pending => pending.reject(error));
+      return;
+    }
+
+    batch.forEach((pending, index) => this.settle(pending, results[index]));
+  }
+
+  private settle(pending: PendingOperation, result: GraphQLResult): void {
+    const { operation } = pending;
+
+    if (result.errors?.length) {
+      const isUnknownId =
+        !pending.includeDocument &&
+        result.errors.some(
+          ({ extensions }) => extensions?.code === PERSISTED_QUERY_NOT_FOUND,
+        );
+      if (isUnknownId) {
+        // Register the document with the server on the next flush
+        this.push({ ...pending, includeDocument: true });
+        return;
+      }
+
+      pending.reject(createGraphQLError(operation.name, result.errors));
+      return;
+    }
+
+    try {
+      pending.resolve(
+        operation.schema
+          ? decodeResponse(s.object({ data: operation.schema }), result).data
+          : result.data,
+      );
+    } catch (error) {
+      pending.reject(error);
+    }
+  }
+}
@@ -3,17 +3,189 @@
  * @file Handles all HTTP communication with proper error handling
  */
 
-import { AuthError, AuthErrorType, isAuthError } from '../../types/auth.types';
+import { ApiError, ApiErrorType, isApiError } from '../../types/api.types';
+import {
+  createApiError,
+  createTransportError,
+  decodeResponse,
+} from './apiErrors';
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  parseRetryAfter,
+  RETRYABLE_STATUSES,
+  RetryBudget,
+  RetryPolicy,
+} from './retry';
+import { Schema } from './schema';
+
+/**
+ * How the response body is read
+ * - json: parsed JSON (default)
+ * - text: raw string, e.g. CSV exports
+ * - blob: binary content, e.g. PDF reports
+ */
+export type HttpResponseType = 'json' | 'text' | 'blob';
+
+/**
+ * Bytes of the request body sent so far
+ */
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions<T = unknown> {
+  /** Do not try to refresh the access token when this request gets a 401 */
+  skipAuthRefresh?: boolean;
+  /**
+   * Do not send the stored access token, e.g. for login or to revoke another
+   * session; an `Authorization` set in `headers` is still sent
+   */
+  skipAuth?: boolean;
+  /** Defaults to `json`; 204 responses resolve to undefined whatever the type */
+  responseType?: HttpResponseType;
+  /** Called as the body is sent; the request then goes through XMLHttpRequest */
+  onUploadProgress?: (progress: UploadProgress) => void;
+  /** Set to false to fail on the first network error or 429/5xx */
+  retry?: boolean;
+  /** Allow retrying this POST, e.g. when it carries an idempotency key */
+  idempotent?: boolean;
+  /** Extra headers, e.g. `Idempotency-Key` */
+  headers?: Record<string, string>;
+  /** Shape the endpoint promises; a response not matching it is rejected */
+  schema?: Schema<T>;
+}
 
 /**
  * Interface for HTTP client - allows for different implementations/mocking
+ * Request bodies are sent as JSON, except FormData which is sent as
+ * multipart/form-data. Failures reject with an ApiError, and responses are
+ * checked against `options.schema` when given
  */
 export interface IHttpClient {
-  post<T>(url: string, data: unknown): Promise<T>;
-  get<T>(url: string): Promise<T>;
-  put<T>(url: string, data: unknown): Promise<T>;
+  post<T>(url: string, data: unknown, options?: RequestOptions<T>): Promise<T>;
+  get<T>(url: string, options?: RequestOptions<T>): Promise<T>;
+  put<T>(url: string, data: unknown, options?: RequestOptions<T>): Promise<T>;
+  patch<T>(url: string, data: unknown, options?: RequestOptions<T>): Promise<T>;
+  delete<T>(url: string, options?: RequestOptions<T>): Promise<T>;
+}
+
+/**
+ * Renews the access token when the server rejects it
+ */
+export interface ITokenRefresher {
+  /**
+   * Obtain and store a new access token
+   * @returns The new token, or null when the session could not be renewed
+   */
+  refreshAccessToken(): Promise<string | null>;
+}
+
+/**
+ * Outgoing request as seen by request interceptors
+ */
+export interface HttpRequestConfig {
+  /** Path relative to the client base URL */
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string | FormData;
+  options: RequestOptions;
 }
 
+/**
+ * Parsed response as seen by response interceptors
+ */
+export interface HttpResponse<T = unknown> {
+  status: number;
+  headers?: Headers;
+  data: T;
+  request: HttpRequestConfig;
+}
+
+/**
+ * Part of a fetch Response read by the client; uploads with progress build
+ * one from an XMLHttpRequest
+ */
+type RawResponse = Pick<
+  Response,
+  'ok' | 'status' | 'statusText' | 'headers' | 'json' | 'text' | 'blob'
+>;
+
+/**
+ * Transforms a request before it is sent
+ */
+export type RequestInterceptor = (
+  request: HttpRequestConfig,
+) => HttpRequestConfig | Promise<HttpRequestConfig>;
+
+/**
+ * Transforms a successful response, or rejects it by throwing
+ */
+export type ResponseInterceptor = (
+  response: HttpResponse,
+) => HttpResponse | Promise<HttpResponse>;
+
+/**
+ * Response of a completed XMLHttpRequest, read like a fetch Response
+ */
+const toRawResponse = (xhr: XMLHttpRequest): RawResponse => {
+  const headers = new Headers();
+  xhr
+    .getAllResponseHeaders()
+    .split('\r\n')
+    .forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers.append(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim(),
+        );
+      }
+    });
+  const text = (): string =>
+    typeof xhr.response === 'string' ? xhr.response : '';
+
+  return {
+    ok: xhr.status >= 200 && xhr.status < 300,
+    status: xhr.status,
+    statusText: xhr.statusText,
+    headers,
+    json: async () => JSON.parse(text()),
+    text: async () => text(),
+    blob: async () => xhr.response as Blob,
+  };
+};
+
+/**
+ * Retry policy of a client, with hooks for tests
+ */
+export interface RetryOptions extends Partial<RetryPolicy> {
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+/**
+ * Methods that can be repeated without changing the result
+ */
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+const wait = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Failures where the request may not have reached the server: network
+ * errors and timeouts
+ */
+const isTransientError = (error: unknown): boolean =>
+  error instanceof TypeError ||
+  (error instanceof Error && error.name === 'AbortError');
+
 /**
  * Default HTTP client implementation
  * Uses React Native's fetch API
@@ -21,125 +193,422 @@ export interface IHttpClient {
 export class HttpClient implements IHttpClient {
   private baseUrl: string;
   private timeout: number;
+  private tokenRefresher: ITokenRefresher | null = null;
+  private pendingRefresh: Promise<string | null> | null = null;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private retryPolicy: RetryPolicy;
+  private retryBudget: RetryBudget;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+  private now: () => number;
 
-  constructor(baseUrl: string, timeout: number = 10000) {
+  constructor(
+    baseUrl: string,
+    timeout: number = 10000,
+    retryOptions: RetryOptions = {},
+  ) {
     this.baseUrl = baseUrl;
     this.timeout = timeout;
+
+    const { sleep, random, now, ...policy } = retryOptions;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+    this.retryBudget = new RetryBudget(
+      this.retryPolicy.budgetRatio,
+      this.retryPolicy.budgetMaxTokens,
+    );
+    this.sleep = sleep ?? wait;
+    this.random = random ?? Math.random;
+    this.now = now ?? Date.now;
+  }
+
+  /**
+   * Register the service used to refresh the access token on 401
+   */
+  setTokenRefresher(refresher: ITokenRefresher | null): void {
+    this.tokenRefresher = refresher;
+  }
+
+  /**
+   * Append a request interceptor; interceptors run in registration order
+   * @returns Function removing the interceptor
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(
+        item => item !== interceptor,
+      );
+    };
+  }
+
+  /**
+   * Append a response interceptor; interceptors run in registration order
+   * @returns Function removing the interceptor
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(
+        item => item !== interceptor,
+      );
+    };
   }
 
   /**
    * Perform POST request with timeout handling
    */
-  async post<T>(url: string, data: unknown): Promise<T> {
-    return this.request<T>(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
+  async post<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.request<T>('POST', url, this.toBody(data), options);
   }
 
   /**
    * Perform GET request
    */
-  async get<T>(url: string): Promise<T> {
-    return this.request<T>(url, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+  async get<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>('GET', url, undefined, options);
   }
 
   /**
    * Perform PUT request
    */
-  async put<T>(url: string, data: unknown): Promise<T> {
-    return this.request<T>(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
+  async put<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.request<T>('PUT', url, this.toBody(data), options);
+  }
+
+  /**
+   * Perform PATCH request
+   */
+  async patch<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.request<T>('PATCH', url, this.toBody(data), options);
+  }
+
+  /**
+   * Perform DELETE request
+   */
+  async delete<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    return this.request<T>('DELETE', url, undefined, options);
+  }
+
+  /**
+   * FormData is sent as multipart/form-data, anything else as JSON
+   */
+  private toBody(data: unknown): string | FormData {
+    return data instanceof FormData ? data : JSON.stringify(data);
   }
 
   /**
-   * Core request logic with error handling and timeout
+   * Core request logic with interceptors, error handling and token refresh
+   * A 401 triggers a single refresh and one retry through the interceptors;
+   * network errors, timeouts and 429/5xx are retried with backoff
    */
   private async request<T>(
+    method: string,
     url: string,
-    options: RequestInit,
+    body: string | FormData | undefined,
+    options: RequestOptions<T> = {},
   ): Promise<T> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const initialRequest: HttpRequestConfig = {
+      url,
+      method,
+      headers: {
+        // fetch sets the multipart boundary itself
+        ...(body instanceof FormData
+          ? {}
+          : { 'Content-Type': 'application/json' }),
+        ...options.headers,
+      },
+      body,
+      options,
+    };
+
+    this.retryBudget.deposit();
 
     try {
-      const response = await fetch(`${this.baseUrl}${url}`, {
-        ...options,
-        signal: controller.signal,
-      });
+      let { request, response } = await this.sendWithRetry(initialRequest);
+
+      if (response.status === 401 && !options.skipAuthRefresh) {
+        const refreshedToken = await this.refreshAccessToken();
+        if (refreshedToken) {
+          ({ request, response } = await this.sendWithRetry(initialRequest));
+        }
+      }
 
       if (!response.ok) {
-        throw this.createError(response.status, response.statusText);
+        throw await this.readError(response);
       }
 
-      const data = await response.json();
-      return data as T;
+      let result: HttpResponse = {
+        status: response.status,
+        headers: response.headers,
+        data: await this.readBody(response, options.responseType),
+        request,
+      };
+      for (const interceptor of this.responseInterceptors) {
+        result = await interceptor(result);
+      }
+
+      if (options.schema) {
+        return decodeResponse(options.schema, result.data, {
+          statusCode: result.status,
+          requestId: result.headers?.get('X-Request-Id') ?? undefined,
+        });
+      }
+      return result.data as T;
     } catch (error) {
       throw this.handleFetchError(error);
+    }
+  }
+
+  /**
+   * Send, retrying transient failures while the policy and budget allow
+   * Each attempt goes through the interceptors and gets its own timeout
+   */
+  private async sendWithRetry(
+    initialRequest: HttpRequestConfig,
+  ): Promise<{ request: HttpRequestConfig; response: RawResponse }> {
+    const canRetry = this.isRetryable(initialRequest);
+
+    for (let attempt = 1; ; attempt++) {
+      let delay: number | null;
+      try {
+        const sent = await this.send(initialRequest);
+        if (!canRetry || !RETRYABLE_STATUSES.includes(sent.response.status)) {
+          return sent;
+        }
+        delay = this.getRetryDelay(
+          attempt,
+          parseRetryAfter(
+            sent.response.headers?.get('Retry-After'),
+            this.now(),
+          ),
+        );
+        if (delay === null) {
+          return sent;
+        }
+      } catch (error) {
+        delay =
+          canRetry && isTransientError(error)
+            ? this.getRetryDelay(attempt, null)
+            : null;
+        if (delay === null) {
+          throw error;
+        }
+      }
+
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * GET, PUT and DELETE are retried unless turned off; POST only when the
+   * caller marks it idempotent; PATCH never
+   */
+  private isRetryable({ method, options }: HttpRequestConfig): boolean {
+    if (options.retry === false || this.retryPolicy.maxAttempts <= 1) {
+      return false;
+    }
+    return (
+      IDEMPOTENT_METHODS.includes(method) ||
+      (method === 'POST' && options.idempotent === true)
+    );
+  }
+
+  /**
+   * Delay before the next attempt, or null to give up: out of attempts or
+   * budget, or the server asks to wait longer than `maxDelayMs`
+   */
+  private getRetryDelay(
+    attempt: number,
+    retryAfterMs: number | null,
+  ): number | null {
+    if (attempt >= this.retryPolicy.maxAttempts) {
+      return null;
+    }
+    if (retryAfterMs !== null && retryAfterMs > this.retryPolicy.maxDelayMs) {
+      return null;
+    }
+    if (!this.retryBudget.withdraw()) {
+      return null;
+    }
+    return (
+      retryAfterMs ?? getBackoffDelay(attempt, this.retryPolicy, this.random)
+    );
+  }
+
+  /**
+   * Run request interceptors and send a single request with timeout
+   */
+  private async send(
+    initialRequest: HttpRequestConfig,
+  ): Promise<{ request: HttpRequestConfig; response: RawResponse }> {
+    let request: HttpRequestConfig = {
+      ...initialRequest,
+      headers: { ...initialRequest.headers },
+    };
+    for (const interceptor of this.requestInterceptors) {
+      request = await interceptor(request);
+    }
+
+    const { onUploadProgress } = request.options;
+    if (onUploadProgress) {
+      const response = await this.sendWithProgress(request, onUploadProgress);
+      return { request, response };
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${request.url}`, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+      return { request, response };
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
   /**
-   * Create structured error from HTTP response
+   * Send through XMLHttpRequest, as fetch does not report upload progress
+   * Timeouts and network failures reject like fetch does, so they map to
+   * the same errors
    */
-  private createError(statusCode: number, statusText: string): AuthError {
-    if (statusCode === 401 || statusCode === 403) {
-      return {
-        type: AuthErrorType.INVALID_CREDENTIALS,
-        message: 'Invalid email or password',
-        statusCode,
+  private sendWithProgress(
+    request: HttpRequestConfig,
+    onUploadProgress: (progress: UploadProgress) => void,
+  ): Promise<RawResponse> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(request.method, `${this.baseUrl}${request.url}`);
+      Object.entries(request.headers).forEach(([name, value]) =>
+        xhr.setRequestHeader(name, value),
+      );
+      xhr.timeout = this.timeout;
+      xhr.responseType =
+        request.options.responseType === 'blob' ? 'blob' : 'text';
+
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable) {
+          onUploadProgress({ loaded: event.loaded, total: event.total });
+        }
+      };
+      xhr.onload = () => resolve(toRawResponse(xhr));
+      xhr.onerror = () => reject(new TypeError('Network request failed'));
+      xhr.ontimeout = () => {
+        const error = new Error('Request timeout');
+        error.name = 'AbortError';
+        reject(error);
       };
+
+      xhr.send(request.body ?? null);
+    });
+  }
+
+  /**
+   * Read the body as requested; 204 No Content has none
+   */
+  private async readBody(
+    response: RawResponse,
+    responseType: HttpResponseType = 'json',
+  ): Promise<unknown> {
+    if (response.status === 204) {
+      return undefined;
     }
 
-    return {
-      type: AuthErrorType.UNKNOWN_ERROR,
-      message: statusText,
-      statusCode,
-    };
+    switch (responseType) {
+      case 'text':
+        return response.text();
+      case 'blob':
+        return response.blob();
+      case 'json':
+        return response.json();
+    }
+  }
+
+  /**
+   * Refresh the access token, sharing one refresh across concurrent 401s
+   */
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.tokenRefresher) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.tokenRefresher
+        .refreshAccessToken()
+        .catch(() => null)
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Create structured error from HTTP response, with the server error body
+   * and request id when present
+   */
+  private async readError(response: RawResponse): Promise<ApiError> {
+    let text = '';
+    try {
+      text = await response.text();
+    } catch {
+      // No readable body
+    }
+
+    let payload: unknown;
+    if (text) {
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        payload = text;
+      }
+    }
+
+    return createApiError(response.status, {
+      payload,
+      requestId: response.headers?.get('X-Request-Id') ?? undefined,
+      retryAfterMs:
+        parseRetryAfter(response.headers?.get('Retry-After'), this.now()) ??
+        undefined,
+    });
   }
 
   /**
    * Handle fetch errors (network, timeout, etc.)
    */
-  private handleFetchError(error: unknown): AuthError {
-    // Preserve structured AuthError thrown inside request flow
-    if (isAuthError(error)) {
+  private handleFetchError(error: unknown): ApiError {
+    // Preserve structured ApiError thrown inside request flow
+    if (isApiError(error)) {
       return error;
     }
 
     if (error instanceof TypeError) {
-      return {
-        type: AuthErrorType.NETWORK_ERROR,
-        message: 'Network error. Please check your connection.',
-      };
+      return createTransportError(ApiErrorType.OFFLINE);
     }
 
     if (error instanceof Error && error.name === 'AbortError') {
-      return {
-        type: AuthErrorType.NETWORK_ERROR,
-        message: 'Request timeout. Please try again.',
-      };
+      return createTransportError(ApiErrorType.TIMEOUT);
     }
 
-    return {
-      type: AuthErrorType.UNKNOWN_ERROR,
-      message: 'An unexpected error occurred',
-    };
+    return createTransportError(ApiErrorType.UNKNOWN);
   }
 }
 
@@ -150,4 +619,10 @@ export const API_ENDPOINTS = {
   login: '/auth/login',
   refresh: '/auth/refresh',
   logout: '/auth/logout',
+  qrKeys: '/qr/keys',
+  inventoryCounts: '/inventory/counts',
+  productLotsSync: '/inventory/lots/sync',
+  temperatureReadings: '/haccp/temperatures',
+  photos: '/photos',
+  graphql: '/graphql',
 };
@@ -0,0 +1,378 @@
+/**
+ * Mock Server HTTP Client - Local development backend
+ * @file Answers API calls in-process so the app can run without a backend
+ * Opt-in only: selected by ServiceContainer when USE_MOCK_API is enabled
+ */
+
+import { ApiError, ApiErrorType } from '../../types/api.types';
+import { EntityDetails } from '../../types/entity.types';
+import {
+  ProductCategory,
+  ProductLotSyncRequest,
+  ProductLotSyncResponse,
+  RemoteProductLot,
+} from '../../types/productLot.types';
+import { TemperatureReadingUpload } from '../../types/temperatureLog.types';
+import { BUNDLED_QR_KEYS } from '../scan/qrKeys';
+import { decodeResponse } from './apiErrors';
+import { API_ENDPOINTS, IHttpClient, RequestOptions } from './HttpClient';
+
+/**
+ * Shape of a GraphQL request body
+ */
+interface GraphQLRequestBody {
+  operationName?: string;
+  query?: string;
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * Handler answering a single mocked route
+ */
+type MockRouteHandler = (data: unknown) => unknown;
+
+/**
+ * Id of the single mocked user
+ */
+const MOCK_USER_ID = 'mock_uuid_123';
+
+/**
+ * Lifetime of mocked access tokens, in seconds
+ */
+const MOCK_TOKEN_TTL = 15 * 60;
+
+/**
+ * Records served by the entity routes; scan codes such as
+ * `keytchens://orders/ORD-42` to open them (unverified under the default
+ * `legacy` unsigned policy)
+ */
+const MOCK_ENTITIES: EntityDetails[] = [
+  {
+    type: 'order',
+    id: 'ORD-42',
+    site: 'PAR1',
+    reference: 'PO-2026-0042',
+    status: 'pending',
+    supplier: 'Metro',
+    expectedAt: '2026-01-15T07:00:00Z',
+    lines: [
+      { name: 'Beurre doux', quantity: 10, unit: 'kg' },
+      { name: 'Crème 35%', quantity: 12, unit: 'L' },
+    ],
+  },
+  {
+    type: 'equipment',
+    id: 'fridge-2',
+    site: 'PAR1',
+    name: 'Chambre froide positive',
+    status: 'ok',
+    kind: 'fridge',
+    temperatureC: 3.2,
+    lastCheckedAt: '2026-01-15T06:30:00Z',
+  },
+  {
+    type: 'equipment',
+    id: 'freezer-1',
+    site: 'PAR1',
+    name: 'Congélateur',
+    status: 'ok',
+    kind: 'freezer',
+    temperatureC: -20,
+  },
+  {
+    type: 'equipment',
+    id: 'hot-hold-1',
+    site: 'PAR1',
+    name: 'Bain-marie',
+    status: 'ok',
+    kind: 'hotHold',
+  },
+  {
+    type: 'location',
+    id: 'dry-store',
+    site: 'PAR1',
+    name: 'Réserve sèche',
+    storageType: 'ambient',
+  },
+  {
+    type: 'lot',
+    id: 'lot7',
+    site: 'PAR1',
+    productName: 'Filet de saumon',
+    lotNumber: 'SAL-2601-07',
+    status: 'available',
+    quantity: 4.5,
+    unit: 'kg',
+    supplier: 'Marée Rungis',
+    expiresAt: '2026-01-18',
+  },
+];
+
+/**
+ * Product catalogue filling in lots synced from scans, by GTIN
+ */
+const MOCK_PRODUCTS: Record<
+  string,
+  { productName: string; category: ProductCategory }
+> = {
+  '09506000134352': { productName: 'Crème fraîche 35%', category: 'dairy' },
+  '03012345678900': { productName: 'Filet de saumon', category: 'fish' },
+};
+
+/**
+ * Changes applied by each mocked entity action
+ */
+const MOCK_ACTION_UPDATES: Record<string, () => Partial<EntityDetails>> = {
+  receive: () => ({ status: 'received' }),
+  'report-fault': () => ({ status: 'out_of_service' }),
+  'mark-serviced': () => ({ status: 'ok' }),
+  'mark-cleaned': () => ({ lastCleanedAt: new Date().toISOString() }),
+  'mark-used': () => ({ status: 'used' }),
+  discard: () => ({ status: 'discarded' }),
+};
+
+/**
+ * API collection of each entity type
+ */
+const MOCK_COLLECTIONS: Record<EntityDetails['type'], string> = {
+  order: '/orders',
+  equipment: '/equipment',
+  location: '/locations',
+  lot: '/lots',
+};
+
+/**
+ * Encode a value as a base64url JSON segment
+ */
+const encodeSegment = (value: object): string =>
+  btoa(JSON.stringify(value))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/[=]+$/, '');
+
+/**
+ * Build an unsigned JWT with the claims the app reads
+ */
+const createMockJwt = (subject: string): string => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return [
+    encodeSegment({ alg: 'none', typ: 'JWT' }),
+    encodeSegment({
+      sub: subject,
+      iat: issuedAt,
+      exp: issuedAt + MOCK_TOKEN_TTL,
+    }),
+    'mock_signature',
+  ].join('.');
+};
+
+/**
+ * In-memory implementation of IHttpClient
+ * Mirrors the backend response shapes, including GraphQL envelopes
+ */
+export class MockServerHttpClient implements IHttpClient {
+  private routes: Record<string, MockRouteHandler>;
+  /** Operations served by the GraphQL and login endpoints, by name */
+  private graphQLOperations: Record<string, MockRouteHandler>;
+  private productLots = new Map<string, RemoteProductLot>();
+  private latency: number;
+
+  constructor(latency: number = 300) {
+    this.latency = latency;
+    this.routes = {
+      [`POST ${API_ENDPOINTS.login}`]: data => this.handleGraphQL(data),
+      [`POST ${API_ENDPOINTS.refresh}`]: () => this.handleRefresh(),
+      [`POST ${API_ENDPOINTS.logout}`]: () => ({ success: true }),
+      [`GET ${API_ENDPOINTS.qrKeys}`]: () => ({ keys: BUNDLED_QR_KEYS }),
+      [`POST ${API_ENDPOINTS.inventoryCounts}`]: data => ({
+        countId: (data as { countId?: string })?.countId,
+        status: 'accepted',
+      }),
+      [`POST ${API_ENDPOINTS.productLotsSync}`]: data =>
+        this.handleProductLotsSync(data),
+      [`POST ${API_ENDPOINTS.temperatureReadings}`]: data => ({
+        accepted:
+          (data as Partial<TemperatureReadingUpload>)?.readings?.length ?? 0,
+      }),
+      [`POST ${API_ENDPOINTS.photos}`]: () => ({ status: 'stored' }),
+      [`POST ${API_ENDPOINTS.graphql}`]: data =>
+        Array.isArray(data)
+          ? data.map(operation => this.handleGraphQL(operation))
+          : this.handleGraphQL(data),
+    };
+    this.graphQLOperations = {
+      LoginV2: data => this.handleLogin(data),
+    };
+
+    MOCK_ENTITIES.forEach(entity => this.addEntityRoutes({ ...entity }));
+  }
+
+  /**
+   * Serve an entity and its actions; actions update it in memory
+   */
+  private addEntityRoutes(entity: EntityDetails): void {
+    const path = `${MOCK_COLLECTIONS[entity.type]}/${entity.id}`;
+    this.routes[`GET ${path}`] = () => entity;
+
+    Object.entries(MOCK_ACTION_UPDATES).forEach(([action, update]) => {
+      this.routes[`POST ${path}/actions/${action}`] = () =>
+        Object.assign(entity, update());
+    });
+  }
+
+  async post<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.respond<T>('POST', url, data, options);
+  }
+
+  async get<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    return this.respond<T>('GET', url, undefined, options);
+  }
+
+  async put<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.respond<T>('PUT', url, data, options);
+  }
+
+  async patch<T>(
+    url: string,
+    data: unknown,
+    options?: RequestOptions<T>,
+  ): Promise<T> {
+    return this.respond<T>('PATCH', url, data, options);
+  }
+
+  async delete<T>(url: string, options?: RequestOptions<T>): Promise<T> {
+    return this.respond<T>('DELETE', url, undefined, options);
+  }
+
+  /**
+   * Dispatch a call to its mocked route after the simulated latency
+   * Responses are checked against the request schema, like HttpClient does
+   */
+  private async respond<T>(
+    method: string,
+    url: string,
+    data: unknown,
+    options: RequestOptions<T> = {},
+  ): Promise<T> {
+    await new Promise<void>(resolve => setTimeout(resolve, this.latency));
+
+    // Query strings (e.g. ?site=) do not change the mocked response
+    const [path] = url.split('?');
+    const handler = this.routes[`${method} ${path}`];
+    if (!handler) {
+      throw {
+        type: ApiErrorType.NOT_FOUND,
+        message: `No mock route for ${method} ${url}`,
+        statusCode: 404,
+      } as ApiError;
+    }
+
+    const response = handler(data);
+    return options.schema
+      ? decodeResponse(options.schema, response, { statusCode: 200 })
+      : (response as T);
+  }
+
+  /**
+   * Single GraphQL operation; persisted ids are not kept, so operations
+   * sent without their document are asked for it
+   */
+  private handleGraphQL(data: unknown) {
+    const { operationName = '', query } = (data ?? {}) as GraphQLRequestBody;
+    if (!query) {
+      return {
+        errors: [
+          {
+            message: 'PersistedQueryNotFound',
+            extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+          },
+        ],
+      };
+    }
+
+    const handler = this.graphQLOperations[operationName];
+    if (!handler) {
+      return {
+        errors: [
+          {
+            message: `Unknown operation "${operationName}"`,
+            extensions: { code: 'GRAPHQL_VALIDATION_FAILED' },
+          },
+        ],
+      };
+    }
+    return handler(data);
+  }
+
+  /**
+   * loginV2 mutation: accepts any credentials that passed validation
+   */
+  private handleLogin(data: unknown) {
+    const { variables } = (data ?? {}) as GraphQLRequestBody;
+    const email = variables?.email;
+
+    if (typeof email !== 'string') {
+      return {
+        errors: [
+          {
+            message:
+              'Variable "$email" of required type "String!" was not provided.',
+            extensions: { code: 'BAD_USER_INPUT' },
+          },
+        ],
+      };
+    }
+
+    return {
+      data: {
+        loginV2: {
+          token: createMockJwt(MOCK_USER_ID),
+          refreshToken: 'mock_refresh_token_' + Date.now(),
+          user: {
+            uuid: MOCK_USER_ID,
+            email,
+            roles: ['user'],
+            lang: 'fr-FR',
+            enabled: true,
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Lot sync: keeps the newest version of each lot, named from the catalogue
+   */
+  private handleProductLotsSync(data: unknown): ProductLotSyncResponse {
+    const { changes = [] } = (data ?? {}) as Partial<ProductLotSyncRequest>;
+
+    changes.forEach(change => {
+      const current = this.productLots.get(change.id);
+      if (current && current.updatedAt > change.updatedAt) {
+        return;
+      }
+      const product = change.gtin ? MOCK_PRODUCTS[change.gtin] : undefined;
+      this.productLots.set(change.id, { ...change, ...product });
+    });
+
+    return { lots: Array.from(this.productLots.values()) };
+  }
+
+  /**
+   * Token refresh: always issues a new token pair
+   */
+  private handleRefresh() {
+    return {
+      token: createMockJwt(MOCK_USER_ID),
+      refreshToken: 'mock_refresh_token_' + Date.now(),
+    };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * API Errors - Maps failed requests to ApiError
+ * @file Status codes, server error bodies and malformed responses to
+ * structured errors
+ */
+
+import { ApiError, ApiErrorType } from '../../types/api.types';
+import { isSchemaError, parse, Schema } from './schema';
+
+/**
+ * Shown when the server body carries no message
+ */
+const DEFAULT_MESSAGES: Record<ApiErrorType, string> = {
+  [ApiErrorType.UNAUTHORIZED]:
+    'Your session has expired. Please sign in again.',
+  [ApiErrorType.FORBIDDEN]: 'You are not allowed to do this.',
+  [ApiErrorType.NOT_FOUND]: 'Not found.',
+  [ApiErrorType.CONFLICT]: 'This record was changed meanwhile.',
+  [ApiErrorType.VALIDATION]: 'Some fields are invalid.',
+  [ApiErrorType.RATE_LIMITED]: 'Too many requests. Please try again later.',
+  [ApiErrorType.SERVER_ERROR]: 'Server error. Please try again later.',
+  [ApiErrorType.TIMEOUT]: 'Request timeout. Please try again.',
+  [ApiErrorType.OFFLINE]: 'Network error. Please check your connection.',
+  [ApiErrorType.INVALID_RESPONSE]: 'Unexpected response from the server.',
+  [ApiErrorType.UNKNOWN]: 'An unexpected error occurred',
+};
+
+/**
+ * What is known about a failed response besides its status
+ */
+export interface ApiErrorDetails {
+  /** Parsed response body, if any */
+  payload?: unknown;
+  requestId?: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * Kind of error for an HTTP status
+ */
+export const getApiErrorType = (statusCode: number): ApiErrorType => {
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return ApiErrorType.VALIDATION;
+    case 401:
+      return ApiErrorType.UNAUTHORIZED;
+    case 403:
+      return ApiErrorType.FORBIDDEN;
+    case 404:
+      return ApiErrorType.NOT_FOUND;
+    case 409:
+      return ApiErrorType.CONFLICT;
+    case 429:
+      return ApiErrorType.RATE_LIMITED;
+  }
+  return statusCode >= 500 ? ApiErrorType.SERVER_ERROR : ApiErrorType.UNKNOWN;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Field messages of a validation body, in either shape the API sends:
+ * `{ errors: { email: ['Required'] } }` or
+ * `{ errors: [{ field: 'email', message: 'Required' }] }`
+ */
+export const getFieldErrors = (payload: unknown): Record<string, string[]> => {
+  const fieldErrors: Record<string, string[]> = {};
+  const errors = isRecord(payload) ? payload.errors : undefined;
+
+  const add = (field: unknown, message: unknown) => {
+    if (typeof field === 'string' && typeof message === 'string') {
+      fieldErrors[field] = [...(fieldErrors[field] ?? []), message];
+    }
+  };
+
+  if (Array.isArray(errors)) {
+    errors.forEach(item => {
+      if (isRecord(item)) {
+        add(item.field, item.message);
+      }
+    });
+  } else if (isRecord(errors)) {
+    Object.entries(errors).forEach(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).forEach(message =>
+        add(field, message),
+      ),
+    );
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Build the error of a failed response
+ */
+export const createApiError = (
+  statusCode: number,
+  { payload, requestId, retryAfterMs }: ApiErrorDetails = {},
+): ApiError => {
+  const type = getApiErrorType(statusCode);
+  const serverMessage = isRecord(payload) ? payload.message : undefined;
+  const payloadRequestId = isRecord(payload) ? payload.requestId : undefined;
+  const resolvedRequestId =
+    requestId ??
+    (typeof payloadRequestId === 'string' ? payloadRequestId : undefined);
+
+  return {
+    type,
+    message:
+      typeof serverMessage === 'string' && serverMessage
+        ? serverMessage
+        : DEFAULT_MESSAGES[type],
+    statusCode,
+    ...(resolvedRequestId ? { requestId: resolvedRequestId } : {}),
+    ...(payload !== undefined ? { payload } : {}),
+    ...(type === ApiErrorType.VALIDATION
+      ? { fieldErrors: getFieldErrors(payload) }
+      : {}),
+    ...(type === ApiErrorType.RATE_LIMITED && retryAfterMs !== undefined
+      ? { retryAfterMs }
+      : {}),
+  };
+};
+
+/**
+ * Error for a request that got no response
+ */
+export const createTransportError = (
+  type: ApiErrorType.OFFLINE | ApiErrorType.TIMEOUT | ApiErrorType.UNKNOWN,
+): ApiError => ({ type, message: DEFAULT_MESSAGES[type] });
+
+/**
+ * Check response data against the schema of its endpoint
+ * @throws ApiError INVALID_RESPONSE naming the first bad value
+ */
+export const decodeResponse = <T>(
+  schema: Schema<T>,
+  data: unknown,
+  { statusCode, requestId }: { statusCode?: number; requestId?: string } = {},
+): T => {
+  try {
+    return parse(schema, data);
+  } catch (error) {
+    if (!isSchemaError(error)) {
+      throw error;
+    }
+    throw {
+      type: ApiErrorType.INVALID_RESPONSE,
+      message: `Invalid response: ${error.message}`,
+      ...(statusCode !== undefined ? { statusCode } : {}),
+      ...(requestId ? { requestId } : {}),
+    } as ApiError;
+  }
+};
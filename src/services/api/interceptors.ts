@@ -0,0 +1,89 @@
+/**
+ * HTTP Interceptors - Built-in request/response middleware
+ * @file Factories for the interceptors ServiceContainer registers on HttpClient
+ */
+
+import { ITokenStorage } from '../AuthService';
+import { RequestInterceptor, ResponseInterceptor } from './HttpClient';
+
+/**
+ * Attach the stored access token as a bearer Authorization header, unless
+ * the request opts out with `skipAuth`
+ */
+export const createAuthTokenInterceptor =
+  (tokenStorage: ITokenStorage): RequestInterceptor =>
+  async request => {
+    if (request.options.skipAuth) {
+      return request;
+    }
+
+    const token = await tokenStorage.getToken();
+    if (!token) {
+      return request;
+    }
+
+    return {
+      ...request,
+      headers: { ...request.headers, Authorization: `Bearer ${token}` },
+    };
+  };
+
+/**
+ * Client details sent with every request
+ */
+export interface ClientInfo {
+  appVersion: string;
+  /** Resolves the locale of the current user, e.g. `fr-FR` */
+  getLocale: () => Promise<string>;
+}
+
+/**
+ * Add app version and locale headers
+ */
+export const createClientInfoInterceptor =
+  ({ appVersion, getLocale }: ClientInfo): RequestInterceptor =>
+  async request => ({
+    ...request,
+    headers: {
+      ...request.headers,
+      'X-App-Version': appVersion,
+      'Accept-Language': await getLocale(),
+    },
+  });
+
+/**
+ * Minimal logger contract, satisfied by `console`
+ */
+export interface HttpLogger {
+  log(...args: unknown[]): void;
+}
+
+/**
+ * Log outgoing requests and their responses
+ * Never logs bodies or headers, which may hold credentials
+ */
+export const createLoggingInterceptors = (
+  logger: HttpLogger = console,
+): { request: RequestInterceptor; response: ResponseInterceptor } => ({
+  request: request => {
+    logger.log(`[HTTP] -> ${request.method} ${request.url}`);
+    return request;
+  },
+  response: response => {
+    logger.log(
+      `[HTTP] <- ${response.status} ${response.request.method} ${response.request.url}`,
+    );
+    return response;
+  },
+});
+
+/**
+ * Call `onSuccess` after each successful response, e.g. to replay writes
+ * queued while offline once requests go through again
+ */
+export const createConnectivityInterceptor =
+  (onSuccess: () => void): ResponseInterceptor =>
+  response => {
+    onSuccess();
+    return response;
+  };
@@ -0,0 +1,107 @@
+/**
+ * Retry Policy - Backoff for transient network failures
+ * @file Exponential backoff with full jitter, `Retry-After` parsing and a
+ * retry budget shared by all requests of a client
+ */
+
+/**
+ * When and how often HttpClient retries a failed request
+ */
+export interface RetryPolicy {
+  /** Attempts per request, including the first one; 1 disables retries */
+  maxAttempts: number;
+  /** Upper bound of the first backoff; doubles on each retry */
+  baseDelayMs: number;
+  /** Longest wait before a retry; a longer `Retry-After` is not waited for */
+  maxDelayMs: number;
+  /** Retry tokens earned by each request, e.g. 0.1 allows 10% extra load */
+  budgetRatio: number;
+  /** Retry tokens available when idle; also the bucket size */
+  budgetMaxTokens: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  budgetRatio: 0.1,
+  budgetMaxTokens: 10,
+};
+
+/**
+ * Statuses worth retrying: rate limiting and unavailable gateways/servers
+ */
+export const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Wait before retry number `retry` (1-based): a random delay up to the
+ * exponential bound, so clients that failed together do not retry together
+ */
+export const getBackoffDelay = (
+  retry: number,
+  policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random,
+): number => {
+  const bound = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (retry - 1),
+  );
+  return Math.floor(random() * bound);
+};
+
+/**
+ * Parse a `Retry-After` header, either delay-seconds or an HTTP date
+ * @returns Milliseconds to wait, or null when absent or malformed
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  // HTTP dates name the day and month; Date.parse also accepts bare numbers
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Token bucket limiting retries to a share of the traffic, so an outage
+ * does not multiply the load on the backend
+ */
+export class RetryBudget {
+  private tokens: number;
+  private ratio: number;
+  private maxTokens: number;
+
+  constructor(ratio: number, maxTokens: number) {
+    this.ratio = ratio;
+    this.maxTokens = maxTokens;
+    this.tokens = maxTokens;
+  }
+
+  /**
+   * Earn retry tokens for a new request
+   */
+  deposit(): void {
+    this.tokens = Math.min(this.maxTokens, this.tokens + this.ratio);
+  }
+
+  /**
+   * Spend a token for a retry
+   * @returns False when the budget is exhausted
+   */
+  withdraw(): boolean {
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Schema - Runtime checks for API responses
+ * @file Small decoder combinators. A decoded value has the declared type;
+ * anything else fails with the path of the first bad value, e.g.
+ * `$.data.loginV2.user.email: expected string, got number`
+ */
+
+/**
+ * Decodes an unknown value into T
+ * @param path - Where the value sits in the response, `$` for the root
+ * @throws SchemaError
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * Type decoded by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Structured error for a value that does not match its schema
+ */
+export interface SchemaError {
+  /** Path of the bad value, e.g. `$.items[2].id` */
+  path: string;
+  /** Path and reason, e.g. `$.items[2].id: expected string, got null` */
+  message: string;
+}
+
+/**
+ * Type guard for checking if error is SchemaError
+ */
+export const isSchemaError = (error: unknown): error is SchemaError =>
+  typeof error === 'object' &&
+  error !== null &&
+  'path' in error &&
+  typeof error.path === 'string' &&
+  'message' in error;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return `string ${JSON.stringify(value)}`;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value;
+};
+
+const fail = (path: string, reason: string): never => {
+  throw { path, message: `${path}: ${reason}` } as SchemaError;
+};
+
+const expected = (path: string, type: string, value: unknown): never =>
+  fail(path, `expected ${type}, got ${describeValue(value)}`);
+
+const childPath = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+/**
+ * Object type of a shape; keys whose schema accepts undefined are optional
+ */
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+const string = (): Schema<string> => (value, path) =>
+  typeof value === 'string' ? value : expected(path, 'string', value);
+
+const number = (): Schema<number> => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : expected(path, 'number', value);
+
+const boolean = (): Schema<boolean> => (value, path) =>
+  typeof value === 'boolean' ? value : expected(path, 'boolean', value);
+
+/**
+ * Any value, unchecked; for parts decoded later, e.g. by another schema
+ */
+const unknown = (): Schema<unknown> => value => value;
+
+/**
+ * One of the given values, e.g. `oneOf(['ok', 'fault'] as const)` or
+ * `oneOf(Object.values(MyEnum))`
+ */
+const oneOf =
+  <T extends string | number | boolean>(values: readonly T[]): Schema<T> =>
+  (value, path) =>
+    values.includes(value as T)
+      ? (value as T)
+      : expected(
+          path,
+          `one of ${values.map(item => JSON.stringify(item)).join(', ')}`,
+          value,
+        );
+
+/**
+ * Missing value or T; object keys using it become optional
+ */
+const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined ? undefined : schema(value, path);
+
+const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) =>
+    value === null ? null : schema(value, path);
+
+/**
+ * Null, missing or T, as GraphQL sends for nullable fields
+ */
+const nullish = <T>(schema: Schema<T>): Schema<T | null | undefined> =>
+  optional(nullable(schema));
+
+const array =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.map((element, index) => item(element, `${path}[${index}]`))
+      : expected(path, 'array', value);
+
+/**
+ * Object with the declared keys; other keys are left out of the result
+ */
+const object =
+  <S extends Shape>(shape: S): Schema<ObjectOf<S>> =>
+  (value, path) => {
+    if (!isRecord(value)) {
+      return expected(path, 'object', value);
+    }
+
+    const result: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([key, schema]) => {
+      const decoded = schema(value[key], childPath(path, key));
+      if (decoded !== undefined) {
+        result[key] = decoded;
+      }
+    });
+    return result as ObjectOf<S>;
+  };
+
+/**
+ * First schema the value matches
+ */
+const union =
+  <S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> =>
+  (value, path) => {
+    const reasons: string[] = [];
+    for (const schema of schemas) {
+      try {
+        return schema(value, path) as Infer<S[number]>;
+      } catch (error) {
+        if (!isSchemaError(error)) {
+          throw error;
+        }
+        reasons.push(error.message);
+      }
+    }
+    return fail(path, `matched no option (${reasons.join('; ')})`);
+  };
+
+/**
+ * Lenient schemas for values the backend sends as strings
+ */
+const coerce = {
+  /** Number, or a numeric string such as `"3.5"` */
+  number: (): Schema<number> => (value, path) =>
+    typeof value === 'string' &&
+    value.trim() !== '' &&
+    Number.isFinite(Number(value))
+      ? Number(value)
+      : number()(value, path),
+
+  /** Boolean, `"true"`/`"false"` or 1/0 */
+  boolean: (): Schema<boolean> => (value, path) => {
+    switch (value) {
+      case 'true':
+      case 1:
+        return true;
+      case 'false':
+      case 0:
+        return false;
+    }
+    return boolean()(value, path);
+  },
+
+  /** String, or a number turned into one, e.g. numeric ids */
+  string: (): Schema<string> => (value, path) =>
+    typeof value === 'number' ? String(value) : string()(value, path),
+};
+
+/**
+ * Schema building blocks
+ */
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown,
+  oneOf,
+  optional,
+  nullable,
+  nullish,
+  array,
+  object,
+  union,
+  coerce,
+};
+
+/**
+ * Decode a whole value
+ * @throws SchemaError
+ */
+export const parse = <T>(schema: Schema<T>, value: unknown): T =>
+  schema(value, '$');
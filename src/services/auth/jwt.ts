@@ -0,0 +1,64 @@
+/**
+ * JWT helpers - Client-side claim decoding
+ * @file Reads JWT claims without verifying the signature
+ * The server remains the authority; this only tells the app when a token is
+ * obviously unusable (malformed or expired)
+ */
+
+/**
+ * Registered claims the app relies on
+ */
+export interface JwtClaims {
+  /** Subject: id of the user the token was issued for */
+  sub?: string;
+  /** Expiry, in seconds since epoch */
+  exp?: number;
+  /** Issued at, in seconds since epoch */
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode a base64url segment into a UTF-8 string
+ */
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+  const binary = atob(padded);
+  const percentEncoded = Array.from(
+    binary,
+    char => '%' + char.charCodeAt(0).toString(16).padStart(2, '0'),
+  ).join('');
+  return decodeURIComponent(percentEncoded);
+};
+
+/**
+ * Decode the payload of a JWT
+ * @returns The claims, or null when the token is not a well-formed JWT
+ */
+export const decodeJwtClaims = (token: string): JwtClaims | null => {
+  const segments = token.split('.');
+  if (segments.length !== 3 || !segments[1]) {
+    return null;
+  }
+
+  try {
+    const claims: unknown = JSON.parse(decodeBase64Url(segments[1]));
+    if (typeof claims !== 'object' || claims === null) {
+      return null;
+    }
+
+    const { sub, exp, iat } = claims as JwtClaims;
+    if (
+      (sub !== undefined && typeof sub !== 'string') ||
+      (exp !== undefined && typeof exp !== 'number') ||
+      (iat !== undefined && typeof iat !== 'number')
+    ) {
+      return null;
+    }
+
+    return claims as JwtClaims;
+  } catch {
+    return null;
+  }
+};
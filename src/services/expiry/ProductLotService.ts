@@ -0,0 +1,216 @@
+/**
+ * Product Lot Service - Local lot store for expiry tracking
+ * @file Keeps lots captured from scans on the device, so the dashboard works
+ * offline, and syncs them with the backend when online
+ */
+
+import { API_ENDPOINTS, IHttpClient } from '../api/HttpClient';
+import { s, Schema } from '../api/schema';
+import {
+  ExpiryDashboard,
+  ExpiryThresholds,
+  ProductCategory,
+  ProductLot,
+  ProductLotSyncRequest,
+  ProductLotSyncResponse,
+  RemoteProductLot,
+} from '../../types/productLot.types';
+import { ScanResult } from '../../types/scan.types';
+import {
+  DEFAULT_EXPIRY_THRESHOLDS,
+  groupExpiringLots,
+  isProductCategory,
+  MAX_EXPIRY_THRESHOLD_DAYS,
+  toProductLot,
+} from './expiry';
+
+/**
+ * Persists the lots and warning thresholds of the device
+ */
+export interface IProductLotStorage {
+  getLots(): Promise<ProductLot[]>;
+  saveLots(lots: ProductLot[]): Promise<void>;
+  getThresholds(): Promise<Partial<ExpiryThresholds>>;
+  saveThresholds(thresholds: Partial<ExpiryThresholds>): Promise<void>;
+}
+
+/**
+ * Lots of the site returned by the sync endpoint
+ */
+const PRODUCT_LOT_SYNC_RESPONSE_SCHEMA: Schema<ProductLotSyncResponse> =
+  s.object({
+    lots: s.array(
+      s.object({
+        id: s.string(),
+        gtin: s.optional(s.string()),
+        sscc: s.optional(s.string()),
+        lot: s.optional(s.string()),
+        productName: s.optional(s.string()),
+        category: s.optional(s.string()),
+        expiresOn: s.string(),
+        dateKind: s.oneOf(['useBy', 'bestBefore'] as const),
+        status: s.oneOf(['active', 'used', 'discarded'] as const),
+        updatedAt: s.string(),
+      }),
+    ),
+  });
+
+const toRemoteLot = ({
+  pendingSync: _pendingSync,
+  updatedAt,
+  ...lot
+}: ProductLot): RemoteProductLot => ({
+  ...lot,
+  updatedAt: new Date(updatedAt).toISOString(),
+});
+
+const fromRemoteLot = ({
+  category,
+  updatedAt,
+  ...lot
+}: RemoteProductLot): ProductLot => ({
+  ...lot,
+  category: isProductCategory(category) ? category : 'other',
+  updatedAt: Date.parse(updatedAt),
+  pendingSync: false,
+});
+
+export class ProductLotService {
+  private httpClient: IHttpClient;
+  private storage: IProductLotStorage;
+  private now: () => number;
+
+  constructor(
+    httpClient: IHttpClient,
+    storage: IProductLotStorage,
+    now: () => number = Date.now,
+  ) {
+    this.httpClient = httpClient;
+    this.storage = storage;
+    this.now = now;
+  }
+
+  /**
+   * Add the lot of a scanned supplier barcode; rescanning a lot keeps it as is
+   * @returns The stored lot, or null when the scan has no expiry date
+   */
+  async capture(result: ScanResult): Promise<ProductLot | null> {
+    const lot = toProductLot(result);
+    if (!lot) {
+      return null;
+    }
+
+    const lots = await this.storage.getLots();
+    const existing = lots.find(candidate => candidate.id === lot.id);
+    if (existing) {
+      return existing;
+    }
+    await this.storage.saveLots([...lots, lot]);
+    return lot;
+  }
+
+  async getLots(): Promise<ProductLot[]> {
+    return this.storage.getLots();
+  }
+
+  /**
+   * Active lots that are expired or expire within their warning threshold
+   */
+  async getDashboard(): Promise<ExpiryDashboard> {
+    const [lots, thresholds] = await Promise.all([
+      this.storage.getLots(),
+      this.getThresholds(),
+    ]);
+    return groupExpiringLots(lots, thresholds, this.now());
+  }
+
+  /**
+   * Take a lot out of stock; the change is sent on the next sync
+   * @returns The updated lot, or null when it no longer exists
+   */
+  async markLot(
+    id: string,
+    status: 'used' | 'discarded',
+  ): Promise<ProductLot | null> {
+    const lots = await this.storage.getLots();
+    const lot = lots.find(candidate => candidate.id === id);
+    if (!lot) {
+      return null;
+    }
+
+    const updated: ProductLot = {
+      ...lot,
+      status,
+      updatedAt: this.now(),
+      pendingSync: true,
+    };
+    await this.storage.saveLots(
+      lots.map(candidate => (candidate.id === id ? updated : candidate)),
+    );
+    return updated;
+  }
+
+  async getThresholds(): Promise<ExpiryThresholds> {
+    return {
+      ...DEFAULT_EXPIRY_THRESHOLDS,
+      ...(await this.storage.getThresholds()),
+    };
+  }
+
+  /**
+   * Change how many days before expiry lots of a category are shown
+   * @returns The thresholds of every category
+   */
+  async setThreshold(
+    category: ProductCategory,
+    days: number,
+  ): Promise<ExpiryThresholds> {
+    const stored = await this.storage.getThresholds();
+    const next = {
+      ...stored,
+      [category]: Math.min(
+        Math.max(Math.round(days), 0),
+        MAX_EXPIRY_THRESHOLD_DAYS,
+      ),
+    };
+    await this.storage.saveThresholds(next);
+    return { ...DEFAULT_EXPIRY_THRESHOLDS, ...next };
+  }
+
+  /**
+   * Delete the cached lots; changes not synced yet are kept for the next
+   * sync, and thresholds are device settings
+   */
+  async clear(): Promise<void> {
+    const lots = await this.storage.getLots();
+    await this.storage.saveLots(lots.filter(lot => lot.pendingSync));
+  }
+
+  /**
+   * Send local changes, then replace the store with the lots of the site
+   * Changes made while the request is in flight stay pending for next time
+   * @throws ApiError, e.g. OFFLINE
+   */
+  async sync(): Promise<void> {
+    const sent = (await this.storage.getLots()).filter(lot => lot.pendingSync);
+    const request: ProductLotSyncRequest = { changes: sent.map(toRemoteLot) };
+
+    const response = await this.httpClient.post(
+      API_ENDPOINTS.productLotsSync,
+      request,
+      { schema: PRODUCT_LOT_SYNC_RESPONSE_SCHEMA },
+    );
+
+    const sentVersions = new Map(sent.map(lot => [lot.id, lot.updatedAt]));
+    const merged = new Map(
+      response.lots.map(lot => [lot.id, fromRemoteLot(lot)]),
+    );
+    (await this.storage.getLots())
+      .filter(
+        lot => lot.pendingSync && sentVersions.get(lot.id) !== lot.updatedAt,
+      )
+      .forEach(lot => merged.set(lot.id, lot));
+
+    await this.storage.saveLots(Array.from(merged.values()));
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Expiry - Pure helpers for the expiry dashboard
+ * @file Turns scanned products into lots and groups lots by how soon they
+ * expire
+ */
+
+import {
+  ExpiryDashboard,
+  ExpiryThresholds,
+  ProductCategory,
+  ProductLot,
+} from '../../types/productLot.types';
+import { ScanResult } from '../../types/scan.types';
+
+export const PRODUCT_CATEGORIES: readonly ProductCategory[] = [
+  'dairy',
+  'meat',
+  'fish',
+  'produce',
+  'bakery',
+  'dry',
+  'frozen',
+  'other',
+];
+
+/**
+ * Lots expiring within the next 3 days are shown by default
+ */
+export const DEFAULT_EXPIRY_THRESHOLDS: ExpiryThresholds = {
+  dairy: 3,
+  meat: 3,
+  fish: 3,
+  produce: 3,
+  bakery: 3,
+  dry: 3,
+  frozen: 3,
+  other: 3,
+};
+
+/**
+ * Upper bound of a warning threshold, in days
+ */
+export const MAX_EXPIRY_THRESHOLD_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isProductCategory = (value: unknown): value is ProductCategory =>
+  PRODUCT_CATEGORIES.includes(value as ProductCategory);
+
+/**
+ * Local calendar date, as YYYY-MM-DD
+ */
+export const toLocalDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return [
+    String(date.getFullYear()),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+};
+
+/**
+ * Whole days from `today` to `expiresOn`; negative once expired
+ */
+export const getDaysUntil = (expiresOn: string, today: string): number =>
+  Math.round((Date.parse(expiresOn) - Date.parse(today)) / DAY_MS);
+
+/**
+ * Turn a scanned supplier barcode into a lot
+ * @returns null for scans without a product code and an expiry date
+ */
+export const toProductLot = (result: ScanResult): ProductLot | null => {
+  if (result.content.kind !== 'gs1') {
+    return null;
+  }
+
+  const { product } = result.content;
+  const code = product.gtin ?? product.sscc;
+  const expiresOn = product.expiry ?? product.bestBefore;
+  if (!code || !expiresOn) {
+    return null;
+  }
+
+  return {
+    id: [code, product.lot ?? '', expiresOn].join(':'),
+    ...(product.gtin ? { gtin: product.gtin } : {}),
+    ...(product.sscc ? { sscc: product.sscc } : {}),
+    ...(product.lot ? { lot: product.lot } : {}),
+    category: 'other',
+    expiresOn,
+    dateKind: product.expiry ? 'useBy' : 'bestBefore',
+    status: 'active',
+    updatedAt: result.scannedAt,
+    pendingSync: true,
+  };
+};
+
+/**
+ * Group active lots into expired, expiring today and expiring soon
+ * Lots further away than the threshold of their category are left out
+ */
+export const groupExpiringLots = (
+  lots: ProductLot[],
+  thresholds: ExpiryThresholds,
+  now: number,
+): ExpiryDashboard => {
+  const today = toLocalDate(now);
+  const dashboard: ExpiryDashboard = { expired: [], today: [], soon: [] };
+
+  [...lots]
+    .filter(lot => lot.status === 'active')
+    .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn))
+    .forEach(lot => {
+      const days = getDaysUntil(lot.expiresOn, today);
+      if (days < 0) {
+        dashboard.expired.push(lot);
+      } else if (days === 0) {
+        dashboard.today.push(lot);
+      } else if (days <= thresholds[lot.category]) {
+        dashboard.soon.push(lot);
+      }
+    });
+
+  return dashboard;
+};
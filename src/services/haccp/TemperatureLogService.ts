@@ -0,0 +1,245 @@
+/**
+ * Temperature Log Service - HACCP temperature readings
+ * @file Checks readings against the allowed range of the equipment, stores
+ * them on the device first and uploads them when online
+ */
+
+import { IUserStorage } from '../AuthService';
+import { API_ENDPOINTS, IHttpClient } from '../api/HttpClient';
+import { s } from '../api/schema';
+import { EntityRef } from '../../types/entity.types';
+import {
+  LoggedEquipmentKind,
+  TemperatureLogError,
+  TemperatureLogErrorType,
+  TemperatureRange,
+  TemperatureReading,
+  TemperatureReadingInput,
+  TemperatureReadingUpload,
+} from '../../types/temperatureLog.types';
+
+/**
+ * Persists the readings of the device
+ */
+export interface ITemperatureLogStorage {
+  getReadings(): Promise<TemperatureReading[]>;
+  saveReadings(readings: TemperatureReading[]): Promise<void>;
+}
+
+/**
+ * Acknowledgement of an upload: number of readings stored
+ */
+const TEMPERATURE_UPLOAD_RESPONSE_SCHEMA = s.object({ accepted: s.number() });
+
+export interface TemperatureLogOptions {
+  /** Uploaded readings older than this are removed from the device */
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Allowed range of each equipment kind
+ */
+export const TEMPERATURE_RANGES: Record<LoggedEquipmentKind, TemperatureRange> =
+  {
+    fridge: { minC: 0, maxC: 4 },
+    freezer: { maxC: -18 },
+    hotHold: { minC: 63 },
+  };
+
+/**
+ * Physically plausible readings, to catch typing mistakes
+ */
+const MIN_TEMPERATURE_C = -60;
+const MAX_TEMPERATURE_C = 300;
+
+const DEFAULT_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const isWithinRange = (
+  temperatureC: number,
+  range: TemperatureRange,
+): boolean =>
+  (range.minC === undefined || temperatureC >= range.minC) &&
+  (range.maxC === undefined || temperatureC <= range.maxC);
+
+const isSameEquipment = (a: EntityRef, b: EntityRef): boolean =>
+  a.id === b.id && (a.site ?? null) === (b.site ?? null);
+
+export class TemperatureLogService {
+  private httpClient: IHttpClient;
+  private storage: ITemperatureLogStorage;
+  private userStorage: IUserStorage;
+  private maxAgeMs: number;
+  private now: () => number;
+  private pendingUpload: Promise<number> | null = null;
+  private pendingChange: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    httpClient: IHttpClient,
+    storage: ITemperatureLogStorage,
+    userStorage: IUserStorage,
+    options: TemperatureLogOptions = {},
+  ) {
+    this.httpClient = httpClient;
+    this.storage = storage;
+    this.userStorage = userStorage;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Store a reading signed by the signed-in user; upload it with `upload()`
+   * @throws TemperatureLogError
+   */
+  async record(input: TemperatureReadingInput): Promise<TemperatureReading> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      throw {
+        type: TemperatureLogErrorType.NOT_SIGNED_IN,
+        message: 'Sign in to log temperatures',
+      } as TemperatureLogError;
+    }
+
+    const { temperatureC } = input;
+    if (
+      !Number.isFinite(temperatureC) ||
+      temperatureC < MIN_TEMPERATURE_C ||
+      temperatureC > MAX_TEMPERATURE_C
+    ) {
+      throw {
+        type: TemperatureLogErrorType.INVALID_TEMPERATURE,
+        message: 'Enter a temperature between -60 and 300 °C',
+      } as TemperatureLogError;
+    }
+
+    const range = TEMPERATURE_RANGES[input.equipmentKind];
+    const withinRange = isWithinRange(temperatureC, range);
+    const correctiveAction = input.correctiveAction?.trim();
+    if (!withinRange && !correctiveAction) {
+      throw {
+        type: TemperatureLogErrorType.CORRECTIVE_ACTION_REQUIRED,
+        message: 'Describe the corrective action for this out-of-range reading',
+      } as TemperatureLogError;
+    }
+
+    const recordedAt = this.now();
+    const reading: TemperatureReading = {
+      id: `${recordedAt}-${Math.random().toString(36).slice(2, 10)}`,
+      equipment: input.equipment,
+      equipmentKind: input.equipmentKind,
+      temperatureC,
+      range,
+      withinRange,
+      ...(correctiveAction ? { correctiveAction } : {}),
+      userId: user.id,
+      recordedAt,
+      uploaded: false,
+    };
+
+    await this.change(readings => [reading, ...readings]);
+    return reading;
+  }
+
+  /**
+   * Readings of one piece of equipment, newest first
+   */
+  async getHistory(equipment: EntityRef): Promise<TemperatureReading[]> {
+    return this.applyRetention(await this.storage.getReadings()).filter(
+      reading => isSameEquipment(reading.equipment, equipment),
+    );
+  }
+
+  /**
+   * Send the signed-in user's readings not uploaded yet in one request
+   * Readings recorded while the request is in flight wait for the next upload;
+   * those of other users wait for their next sign-in.
+   * Concurrent calls share one upload, so no reading is sent twice
+   * @returns Number of readings uploaded
+   * @throws ApiError, e.g. OFFLINE
+   */
+  upload(): Promise<number> {
+    if (!this.pendingUpload) {
+      this.pendingUpload = this.uploadPending().finally(() => {
+        this.pendingUpload = null;
+      });
+    }
+    return this.pendingUpload;
+  }
+
+  private async uploadPending(): Promise<number> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      return 0;
+    }
+    const pending = (await this.storage.getReadings()).filter(
+      reading => !reading.uploaded && reading.userId === user.id,
+    );
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const body: TemperatureReadingUpload = {
+      readings: pending.map(
+        ({ uploaded: _uploaded, recordedAt, ...reading }) => ({
+          ...reading,
+          recordedAt: new Date(recordedAt).toISOString(),
+        }),
+      ),
+    };
+    // Readings carry their id, so a replayed upload is not logged twice
+    await this.httpClient.post(API_ENDPOINTS.temperatureReadings, body, {
+      idempotent: true,
+      schema: TEMPERATURE_UPLOAD_RESPONSE_SCHEMA,
+    });
+
+    const sentIds = new Set(pending.map(reading => reading.id));
+    await this.change(readings =>
+      readings.map(reading =>
+        sentIds.has(reading.id) ? { ...reading, uploaded: true } : reading,
+      ),
+    );
+    return pending.length;
+  }
+
+  /**
+   * Delete the signed-in user's uploaded readings; pending ones are kept for
+   * their next sign-in
+   */
+  async clear(): Promise<void> {
+    const user = await this.userStorage.getUser();
+    if (user) {
+      await this.change(readings =>
+        readings.filter(
+          reading => !reading.uploaded || reading.userId !== user.id,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Read, edit and save the readings once earlier changes are saved, so a
+   * reading recorded during an upload is never overwritten; applies retention
+   */
+  private change(
+    edit: (readings: TemperatureReading[]) => TemperatureReading[],
+  ): Promise<void> {
+    const next = this.pendingChange.then(async () => {
+      const readings = await this.storage.getReadings();
+      await this.storage.saveReadings(this.applyRetention(edit(readings)));
+    });
+    this.pendingChange = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Sort newest first and drop old uploaded readings; pending ones are kept
+   */
+  private applyRetention(readings: TemperatureReading[]): TemperatureReading[] {
+    const oldestAllowed = this.now() - this.maxAgeMs;
+    return readings
+      .filter(
+        reading => !reading.uploaded || reading.recordedAt >= oldestAllowed,
+      )
+      .sort((a, b) => b.recordedAt - a.recordedAt);
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Outbox Service - Offline queue of writes
+ * @file Sends writes right away when possible; otherwise keeps them in the
+ * user's outbox and replays them in order once requests succeed again
+ */
+
+import { IUserStorage } from '../AuthService';
+import { IHttpClient, RequestOptions } from '../api/HttpClient';
+import { ApiErrorType, isApiError } from '../../types/api.types';
+import {
+  ConflictResolution,
+  ConflictResolver,
+  OutboxEntry,
+  OutboxError,
+  OutboxErrorType,
+  OutboxMutation,
+  OutboxResult,
+} from '../../types/outbox.types';
+
+/**
+ * Persists each user's outbox separately
+ */
+export interface IOutboxStorage {
+  getEntries(userId: string): Promise<OutboxEntry[]>;
+  saveEntries(userId: string, entries: OutboxEntry[]): Promise<void>;
+}
+
+/**
+ * Failures worth replaying later: offline, timeouts and unavailable servers
+ */
+const TRANSIENT_ERROR_TYPES = [
+  ApiErrorType.OFFLINE,
+  ApiErrorType.TIMEOUT,
+  ApiErrorType.RATE_LIMITED,
+  ApiErrorType.SERVER_ERROR,
+];
+
+const isTransientFailure = (error: unknown): boolean =>
+  isApiError(error) && TRANSIENT_ERROR_TYPES.includes(error.type);
+
+const DROP: ConflictResolution = { action: 'drop' };
+
+export class OutboxService {
+  private httpClient: IHttpClient;
+  private storage: IOutboxStorage;
+  private userStorage: IUserStorage;
+  private now: () => number;
+  private resolvers = new Map<string, ConflictResolver>();
+  private listeners = new Set<(pendingCount: number) => void>();
+  private pendingReplay: Promise<number> | null = null;
+  private pendingChanges = new Map<string, Promise<void>>();
+
+  constructor(
+    httpClient: IHttpClient,
+    storage: IOutboxStorage,
+    userStorage: IUserStorage,
+    now: () => number = Date.now,
+  ) {
+    this.httpClient = httpClient;
+    this.storage = storage;
+    this.userStorage = userStorage;
+    this.now = now;
+  }
+
+  /**
+   * Decide what happens to replayed writes of a type that get a 409;
+   * without a resolver they are dropped
+   */
+  setConflictResolver(type: string, resolver: ConflictResolver): void {
+    this.resolvers.set(type, resolver);
+  }
+
+  /**
+   * Listen to the number of writes waiting for the signed-in user
+   * @returns Function removing the listener
+   */
+  subscribe(listener: (pendingCount: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Number of writes waiting for the signed-in user
+   */
+  async getPendingCount(): Promise<number> {
+    const user = await this.userStorage.getUser();
+    return user ? (await this.storage.getEntries(user.id)).length : 0;
+  }
+
+  /**
+   * Send a write now, or queue it when offline or behind earlier queued
+   * writes, so the server receives them in order
+   * Other failures, conflicts included, are thrown to the caller
+   * @throws OutboxError when nobody is signed in, ApiError otherwise
+   */
+  async send<T>(mutation: OutboxMutation): Promise<OutboxResult<T>> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      throw {
+        type: OutboxErrorType.NOT_SIGNED_IN,
+        message: 'Sign in to save changes',
+      } as OutboxError;
+    }
+
+    const createdAt = this.now();
+    const entry: OutboxEntry = {
+      ...mutation,
+      id: `${createdAt}-${Math.random().toString(36).slice(2, 10)}`,
+      userId: user.id,
+      createdAt,
+    };
+
+    const hasQueuedWrites = (await this.storage.getEntries(user.id)).length > 0;
+    if (!hasQueuedWrites) {
+      try {
+        return { status: 'sent', data: await this.request<T>(entry) };
+      } catch (error) {
+        if (!isTransientFailure(error)) {
+          throw error;
+        }
+      }
+    }
+
+    await this.change(user.id, entries => [...entries, entry]);
+    if (hasQueuedWrites) {
+      this.replay().catch(() => undefined);
+    }
+    return { status: 'queued', entry };
+  }
+
+  /**
+   * Replay the signed-in user's outbox, oldest first
+   * Stops at the first transient failure or 401, keeping the rest queued.
+   * Writes the server refuses are dropped, except 409s, which go to the
+   * conflict resolver of their type. Concurrent calls share one replay
+   * @returns Number of writes delivered
+   * @throws ApiError when a write could not be delivered yet
+   */
+  replay(): Promise<number> {
+    if (!this.pendingReplay) {
+      this.pendingReplay = this.replayPending().finally(() => {
+        this.pendingReplay = null;
+      });
+    }
+    return this.pendingReplay;
+  }
+
+  private async replayPending(): Promise<number> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      return 0;
+    }
+
+    const rebased = new Set<string>();
+    let delivered = 0;
+    // Re-read on each step so writes queued meanwhile are replayed too
+    for (;;) {
+      const [entry] = await this.storage.getEntries(user.id);
+      if (!entry) {
+        return delivered;
+      }
+
+      try {
+        await this.request(entry);
+        delivered++;
+      } catch (error) {
+        if (
+          isTransientFailure(error) ||
+          (isApiError(error) && error.type === ApiErrorType.UNAUTHORIZED)
+        ) {
+          throw error;
+        }
+
+        if (
+          isApiError(error) &&
+          error.type === ApiErrorType.CONFLICT &&
+          !rebased.has(entry.id)
+        ) {
+          const resolver = this.resolvers.get(entry.type);
+          const resolution = resolver ? await resolver(entry, error) : DROP;
+          if (resolution.action === 'retry') {
+            rebased.add(entry.id);
+            await this.update(user.id, { ...entry, body: resolution.body });
+            continue;
+          }
+        }
+      }
+
+      await this.remove(user.id, entry.id);
+    }
+  }
+
+  private request<T>(entry: OutboxEntry): Promise<T> {
+    const options: RequestOptions<T> = {
+      headers: { 'Idempotency-Key': entry.id },
+      idempotent: true,
+    };
+
+    switch (entry.method) {
+      case 'POST':
+        return this.httpClient.post<T>(entry.url, entry.body, options);
+      case 'PUT':
+        return this.httpClient.put<T>(entry.url, entry.body, options);
+      case 'PATCH':
+        return this.httpClient.patch<T>(entry.url, entry.body, options);
+      case 'DELETE':
+        return this.httpClient.delete<T>(entry.url, options);
+    }
+  }
+
+  private update(userId: string, entry: OutboxEntry): Promise<void> {
+    return this.change(userId, entries =>
+      entries.map(item => (item.id === entry.id ? entry : item)),
+    );
+  }
+
+  private remove(userId: string, id: string): Promise<void> {
+    return this.change(userId, entries =>
+      entries.filter(item => item.id !== id),
+    );
+  }
+
+  /**
+   * Read, edit and save a user's outbox once the user's earlier changes are
+   * saved, so a send and a replay never overwrite each other's entries
+   */
+  private change(
+    userId: string,
+    edit: (entries: OutboxEntry[]) => OutboxEntry[],
+  ): Promise<void> {
+    const previous = this.pendingChanges.get(userId) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const entries = edit(await this.storage.getEntries(userId));
+      await this.storage.saveEntries(userId, entries);
+      this.listeners.forEach(listener => listener(entries.length));
+    });
+    const settled = next.catch(() => undefined);
+    this.pendingChanges.set(userId, settled);
+    settled.then(() => {
+      if (this.pendingChanges.get(userId) === settled) {
+        this.pendingChanges.delete(userId);
+      }
+    });
+    return next;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Photo Service - Photo evidence for scans and logs
+ * @file Queues photos taken on the scanner for multipart upload and keeps
+ * their files in app storage until the upload succeeds
+ */
+
+import { IUserStorage } from '../AuthService';
+import { API_ENDPOINTS, IHttpClient } from '../api/HttpClient';
+import { s } from '../api/schema';
+import { EntityRef } from '../../types/entity.types';
+import {
+  CapturedPhoto,
+  PhotoAttachment,
+  PhotoSubject,
+  PhotoUploadMetadata,
+  StoredPhotoFiles,
+} from '../../types/photo.types';
+
+/**
+ * Persists the photo queue of the device
+ */
+export interface IPhotoStorage {
+  getPhotos(): Promise<PhotoAttachment[]>;
+  savePhotos(photos: PhotoAttachment[]): Promise<void>;
+}
+
+/**
+ * Photo files kept in app storage
+ */
+export interface IPhotoFiles {
+  /**
+   * Compress a captured photo into app storage, with a thumbnail, and delete
+   * the camera's temporary file
+   */
+  store(photo: CapturedPhoto): Promise<StoredPhotoFiles>;
+  /** Delete a stored file; missing files are ignored */
+  remove(uri: string): Promise<void>;
+}
+
+/**
+ * Uploaded photos are kept this long for thumbnails, then forgotten
+ */
+const UPLOADED_PHOTO_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Acknowledgement of an uploaded photo
+ */
+const PHOTO_UPLOAD_RESPONSE_SCHEMA = s.object({ status: s.string() });
+
+const getSubjectEntity = (subject: PhotoSubject): EntityRef | undefined =>
+  subject.type === 'scan' ? subject.entity : subject.equipment;
+
+const isSameEntity = (a: EntityRef, b: EntityRef): boolean =>
+  a.type === b.type && a.id === b.id && (a.site ?? null) === (b.site ?? null);
+
+export class PhotoService {
+  private httpClient: IHttpClient;
+  private storage: IPhotoStorage;
+  private files: IPhotoFiles;
+  private userStorage: IUserStorage;
+  private now: () => number;
+  private pendingUpload: Promise<number> | null = null;
+  private pendingChange: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    httpClient: IHttpClient,
+    storage: IPhotoStorage,
+    files: IPhotoFiles,
+    userStorage: IUserStorage,
+    now: () => number = Date.now,
+  ) {
+    this.httpClient = httpClient;
+    this.storage = storage;
+    this.files = files;
+    this.userStorage = userStorage;
+    this.now = now;
+  }
+
+  /**
+   * Compress a photo into app storage and queue it for upload
+   * @returns The queued photo, or null when nobody is signed in
+   */
+  async attach(
+    subject: PhotoSubject,
+    photo: CapturedPhoto,
+  ): Promise<PhotoAttachment | null> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      return null;
+    }
+
+    const takenAt = this.now();
+    const attachment: PhotoAttachment = {
+      id: `photo-${takenAt}-${Math.random().toString(36).slice(2, 10)}`,
+      subject,
+      ...(await this.files.store(photo)),
+      userId: user.id,
+      takenAt,
+      uploaded: false,
+    };
+
+    const dropped = await this.change(photos => [
+      ...this.prune(photos),
+      attachment,
+    ]);
+    await this.removeFiles(dropped);
+    return attachment;
+  }
+
+  /**
+   * Photos of an entity, whether taken when scanning it or for its readings
+   */
+  async getEntityPhotos(entity: EntityRef): Promise<PhotoAttachment[]> {
+    return (await this.storage.getPhotos()).filter(photo => {
+      const subjectEntity = getSubjectEntity(photo.subject);
+      return subjectEntity !== undefined && isSameEntity(subjectEntity, entity);
+    });
+  }
+
+  /**
+   * Upload the signed-in user's queued photos one by one, as multipart
+   * `photo` + `metadata`; those of other users wait for their next sign-in.
+   * Stops at the first failure; the rest stay queued for next time.
+   * Concurrent calls share one upload, so no photo is sent twice
+   * @returns Number of photos uploaded
+   * @throws ApiError, e.g. OFFLINE
+   */
+  upload(): Promise<number> {
+    if (!this.pendingUpload) {
+      this.pendingUpload = this.uploadPending().finally(() => {
+        this.pendingUpload = null;
+      });
+    }
+    return this.pendingUpload;
+  }
+
+  private async uploadPending(): Promise<number> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      return 0;
+    }
+    const pending = (await this.storage.getPhotos()).filter(
+      photo => !photo.uploaded && photo.userId === user.id,
+    );
+
+    let uploaded = 0;
+    for (const photo of pending) {
+      // The metadata carries the photo id, so a replay is not stored twice
+      await this.httpClient.post(API_ENDPOINTS.photos, this.createForm(photo), {
+        idempotent: true,
+        schema: PHOTO_UPLOAD_RESPONSE_SCHEMA,
+      });
+      await this.markUploaded(photo.id);
+      // Only the thumbnail is still shown once the server has the photo
+      await this.files.remove(photo.uri);
+      uploaded++;
+    }
+    return uploaded;
+  }
+
+  /**
+   * Delete the signed-in user's uploaded photos and their thumbnails; queued
+   * ones are kept for their next sign-in
+   */
+  async clear(): Promise<void> {
+    const user = await this.userStorage.getUser();
+    if (user) {
+      const isCleared = (photo: PhotoAttachment) =>
+        photo.uploaded && photo.userId === user.id;
+      const dropped = await this.change(photos =>
+        photos.filter(photo => !isCleared(photo)),
+      );
+      await this.removeFiles(dropped);
+    }
+  }
+
+  /**
+   * Drop old uploaded photos and their thumbnails; queued ones are kept
+   * until uploaded
+   */
+  private prune(photos: PhotoAttachment[]): PhotoAttachment[] {
+    const oldestAllowed = this.now() - UPLOADED_PHOTO_MAX_AGE_MS;
+    return photos.filter(
+      photo => !photo.uploaded || photo.takenAt >= oldestAllowed,
+    );
+  }
+
+  private async removeFiles(photos: PhotoAttachment[]): Promise<void> {
+    for (const photo of photos) {
+      if (!photo.uploaded) {
+        await this.files.remove(photo.uri);
+      }
+      await this.files.remove(photo.thumbnailUri);
+    }
+  }
+
+  private createForm(photo: PhotoAttachment): FormData {
+    const metadata: PhotoUploadMetadata = {
+      id: photo.id,
+      subject: photo.subject,
+      width: photo.width,
+      height: photo.height,
+      userId: photo.userId,
+      takenAt: new Date(photo.takenAt).toISOString(),
+    };
+
+    const form = new FormData();
+    form.append('photo', {
+      uri: photo.uri,
+      name: `${photo.id}.jpg`,
+      type: 'image/jpeg',
+    });
+    form.append('metadata', JSON.stringify(metadata));
+    return form;
+  }
+
+  private async markUploaded(id: string): Promise<void> {
+    await this.change(photos =>
+      photos.map(photo =>
+        photo.id === id ? { ...photo, uploaded: true } : photo,
+      ),
+    );
+  }
+
+  /**
+   * Read, edit and save the photo queue once earlier changes are saved, so
+   * an attach and an upload never overwrite each other's photos
+   * @returns The photos the edit dropped, whose files are left to the caller
+   */
+  private change(
+    edit: (photos: PhotoAttachment[]) => PhotoAttachment[],
+  ): Promise<PhotoAttachment[]> {
+    const next = this.pendingChange.then(async () => {
+      const photos = await this.storage.getPhotos();
+      const edited = edit(photos);
+      await this.storage.savePhotos(edited);
+      const keptIds = new Set(edited.map(photo => photo.id));
+      return photos.filter(photo => !keptIds.has(photo.id));
+    });
+    this.pendingChange = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Batch Count Service - Drafts and submission of inventory counts
+ * @file Keeps the signed-in user's count in progress across restarts and
+ * sends finished counts to the backend in one request
+ */
+
+import { IUserStorage } from '../AuthService';
+import { API_ENDPOINTS, IHttpClient } from '../api/HttpClient';
+import { s } from '../api/schema';
+import { BatchCount, BatchCountSubmission } from '../../types/batchCount.types';
+
+/**
+ * Persists one draft per user
+ */
+export interface IBatchCountStorage {
+  getDraft(userId: string): Promise<BatchCount | null>;
+  saveDraft(userId: string, count: BatchCount): Promise<void>;
+  removeDraft(userId: string): Promise<void>;
+}
+
+/**
+ * Acknowledgement of a submitted count
+ */
+const INVENTORY_COUNT_RESPONSE_SCHEMA = s.object({
+  countId: s.string(),
+  status: s.string(),
+});
+
+export class BatchCountService {
+  private httpClient: IHttpClient;
+  private storage: IBatchCountStorage;
+  private userStorage: IUserStorage;
+  private now: () => number;
+
+  constructor(
+    httpClient: IHttpClient,
+    storage: IBatchCountStorage,
+    userStorage: IUserStorage,
+    now: () => number = Date.now,
+  ) {
+    this.httpClient = httpClient;
+    this.storage = storage;
+    this.userStorage = userStorage;
+    this.now = now;
+  }
+
+  /**
+   * Count left unfinished by the signed-in user, if any
+   */
+  async loadDraft(): Promise<BatchCount | null> {
+    const user = await this.userStorage.getUser();
+    return user ? this.storage.getDraft(user.id) : null;
+  }
+
+  async saveDraft(count: BatchCount): Promise<void> {
+    const user = await this.userStorage.getUser();
+    if (user) {
+      await this.storage.saveDraft(user.id, count);
+    }
+  }
+
+  async discardDraft(): Promise<void> {
+    const user = await this.userStorage.getUser();
+    if (user) {
+      await this.storage.removeDraft(user.id);
+    }
+  }
+
+  /**
+   * Send the whole count, then drop the draft
+   * The draft is kept when the request fails, so it can be sent again
+   * @throws ApiError
+   */
+  async submit(count: BatchCount): Promise<void> {
+    const submission: BatchCountSubmission = {
+      countId: count.id,
+      startedAt: new Date(count.startedAt).toISOString(),
+      submittedAt: new Date(this.now()).toISOString(),
+      items: count.items.map(({ rawValue, entity, product, quantity }) => ({
+        rawValue,
+        ...(entity ? { entity } : {}),
+        ...(product ? { product } : {}),
+        quantity,
+      })),
+    };
+
+    // The count id lets the server ignore a replayed submission
+    await this.httpClient.post(API_ENDPOINTS.inventoryCounts, submission, {
+      idempotent: true,
+      schema: INVENTORY_COUNT_RESPONSE_SCHEMA,
+    });
+    await this.discardDraft();
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * QR Key Store - Public keys for signed QR payloads
+ * @file Combines keys shipped with the app and keys synced from the back
+ * office, so new keys can be rolled out without an app release
+ */
+
+import { API_ENDPOINTS, IHttpClient } from '../api/HttpClient';
+import { s, Schema } from '../api/schema';
+import { QrKeySet, QrSigningKey } from '../../types/qrPayload.types';
+import { IQrKeyStore } from './QrSignatureVerifier';
+
+/**
+ * Persists synced keys between launches
+ */
+export interface IQrKeyStorage {
+  getAll(): Promise<QrKeySet>;
+  save(keySet: QrKeySet): Promise<void>;
+}
+
+/**
+ * Response of the key sync endpoint
+ */
+const QR_KEYS_RESPONSE_SCHEMA: Schema<{
+  keys: QrSigningKey[];
+  revokedKeyIds?: string[];
+}> = s.object({
+  keys: s.array(s.object({ keyId: s.string(), publicKey: s.string() })),
+  revokedKeyIds: s.optional(s.array(s.string())),
+});
+
+export class QrKeyStore implements IQrKeyStore {
+  private bundledKeys: Map<string, QrSigningKey>;
+  private syncedKeys = new Map<string, QrSigningKey>();
+  private revokedKeyIds = new Set<string>();
+  private hasSynced = false;
+  private storage: IQrKeyStorage;
+  private httpClient: IHttpClient;
+
+  constructor(
+    bundledKeys: readonly QrSigningKey[],
+    storage: IQrKeyStorage,
+    httpClient: IHttpClient,
+  ) {
+    this.bundledKeys = new Map(bundledKeys.map(key => [key.keyId, key]));
+    this.storage = storage;
+    this.httpClient = httpClient;
+  }
+
+  /**
+   * Look up a key; bundled keys win over synced keys with the same id, so a
+   * sync can only add keys or revoke them
+   */
+  getKey(keyId: string): QrSigningKey | null {
+    if (this.revokedKeyIds.has(keyId)) {
+      return null;
+    }
+    return this.bundledKeys.get(keyId) ?? this.syncedKeys.get(keyId) ?? null;
+  }
+
+  /**
+   * Restore keys synced during a previous launch
+   */
+  async load(): Promise<void> {
+    const keySet = await this.storage.getAll();
+    if (this.hasSynced) {
+      // A sync finished first; stored keys are older
+      return;
+    }
+    this.apply(keySet);
+  }
+
+  /**
+   * Replace synced keys and revocations with the back-office lists
+   * Keys dropped from the list stop verifying, unless they are bundled;
+   * a bundled key stops verifying only once its id is revoked
+   * @returns false when the keys could not be fetched (e.g. offline) or the
+   * list is malformed; the previously synced keys are kept
+   */
+  async sync(): Promise<boolean> {
+    let keySet: QrKeySet;
+    try {
+      const { keys, revokedKeyIds = [] } = await this.httpClient.get(
+        API_ENDPOINTS.qrKeys,
+        { schema: QR_KEYS_RESPONSE_SCHEMA },
+      );
+      keySet = { keys, revokedKeyIds };
+    } catch (error) {
+      console.warn('QR key sync failed:', error);
+      return false;
+    }
+
+    this.apply(keySet);
+    this.hasSynced = true;
+    await this.storage.save(keySet);
+    return true;
+  }
+
+  private apply({ keys, revokedKeyIds }: QrKeySet): void {
+    this.syncedKeys = new Map(keys.map(key => [key.keyId, key]));
+    this.revokedKeyIds = new Set(revokedKeyIds);
+  }
+}
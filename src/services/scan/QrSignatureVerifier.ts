@@ -0,0 +1,113 @@
+/**
+ * QR Signature Verifier - Offline check of signed payloads
+ * @file Verifies back-office Ed25519 signatures against public keys held on
+ * the device, so codes can be trusted without network access
+ */
+
+import nacl from 'tweetnacl';
+import {
+  QrPayload,
+  QrSignatureVerification,
+  QrSigningKey,
+  QrUnsignedPolicy,
+} from '../../types/qrPayload.types';
+
+/**
+ * Source of public keys, looked up by key id
+ */
+export interface IQrKeyStore {
+  getKey(keyId: string): QrSigningKey | null;
+}
+
+/**
+ * Decode base64url into bytes
+ * @returns null when the value is not valid base64url
+ */
+const decodeBase64Url = (value: string): Uint8Array | null => {
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Payload text as bytes; payloads are restricted to ASCII by the parser
+ */
+const toBytes = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * Whether a scanned code may be opened, counted or logged as accepted
+ */
+export const isTrustedVerification = (
+  verification: QrSignatureVerification,
+): verification is Extract<
+  QrSignatureVerification,
+  { status: 'valid' | 'unverified' }
+> => verification.status === 'valid' || verification.status === 'unverified';
+
+export class QrSignatureVerifier {
+  private keyStore: IQrKeyStore;
+  private now: () => number;
+  private unsignedPolicy: QrUnsignedPolicy;
+
+  /**
+   * @param unsignedPolicy Unsigned codes are refused unless set to `legacy`
+   */
+  constructor(
+    keyStore: IQrKeyStore,
+    now: () => number = Date.now,
+    unsignedPolicy: QrUnsignedPolicy = 'reject',
+  ) {
+    this.keyStore = keyStore;
+    this.now = now;
+    this.unsignedPolicy = unsignedPolicy;
+  }
+
+  /**
+   * Check the signature of a parsed payload
+   * The signature is checked before the expiry, so an edited expiry is
+   * reported as tampered rather than expired
+   */
+  verify(payload: QrPayload): QrSignatureVerification {
+    const { signature } = payload;
+    if (!signature) {
+      // Version 2 is always signed, so never let the policy accept it bare
+      return this.unsignedPolicy === 'legacy' && payload.version < 2
+        ? { status: 'unverified' }
+        : { status: 'unsigned' };
+    }
+
+    const { keyId } = signature;
+    const key = this.keyStore.getKey(keyId);
+    const publicKey = key && decodeBase64Url(key.publicKey);
+    if (!publicKey || publicKey.length !== nacl.sign.publicKeyLength) {
+      return { status: 'unknownKey', keyId };
+    }
+
+    const signatureBytes = decodeBase64Url(signature.value);
+    if (
+      !signatureBytes ||
+      signatureBytes.length !== nacl.sign.signatureLength ||
+      !nacl.sign.detached.verify(
+        toBytes(signature.signedContent),
+        signatureBytes,
+        publicKey,
+      )
+    ) {
+      return { status: 'tampered', keyId };
+    }
+
+    if (
+      signature.expiresAt !== undefined &&
+      this.now() >= signature.expiresAt
+    ) {
+      return { status: 'expired', keyId, expiresAt: signature.expiresAt };
+    }
+
+    return { status: 'valid', keyId };
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Scan History Service - Per-user record of scans
+ * @file Records scan results for the signed-in user and lists them with
+ * search, filters and pagination
+ */
+
+import { IUserStorage } from '../AuthService';
+import { isTrustedVerification } from './QrSignatureVerifier';
+import { ScanContent, ScanResult } from '../../types/scan.types';
+import {
+  ScanHistoryEntry,
+  ScanHistoryPage,
+  ScanHistoryQuery,
+  ScanOutcome,
+} from '../../types/scanHistory.types';
+
+/**
+ * Persists each user's history separately
+ */
+export interface IScanHistoryStorage {
+  getEntries(userId: string): Promise<ScanHistoryEntry[]>;
+  saveEntries(userId: string, entries: ScanHistoryEntry[]): Promise<void>;
+}
+
+export interface ScanHistoryOptions {
+  /** Entries kept per user; the oldest are dropped first */
+  maxEntries?: number;
+  /** Entries older than this are dropped, in milliseconds */
+  maxAgeMs?: number;
+  now?: () => number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Classify a scan for the history
+ */
+export const getScanOutcome = (content: ScanContent): ScanOutcome => {
+  switch (content.kind) {
+    case 'entity':
+      if (content.verification.status === 'unverified') {
+        return 'unverified';
+      }
+      return isTrustedVerification(content.verification)
+        ? 'accepted'
+        : 'untrusted';
+    case 'gs1':
+      return 'accepted';
+    case 'invalid':
+      return 'invalid';
+    default:
+      return 'unknown';
+  }
+};
+
+const matchesQuery = (
+  entry: ScanHistoryEntry,
+  query: ScanHistoryQuery,
+  search: string,
+): boolean => {
+  if (query.entityType && entry.entity?.type !== query.entityType) {
+    return false;
+  }
+  if (query.from !== undefined && entry.scannedAt < query.from) {
+    return false;
+  }
+  if (query.to !== undefined && entry.scannedAt >= query.to) {
+    return false;
+  }
+  if (!search) {
+    return true;
+  }
+  return [
+    entry.rawValue,
+    entry.entity?.id,
+    entry.entity?.site,
+    entry.product?.gtin,
+    entry.product?.lot,
+  ].some(value => value?.toLowerCase().includes(search));
+};
+
+export class ScanHistoryService {
+  private storage: IScanHistoryStorage;
+  private userStorage: IUserStorage;
+  private maxEntries: number;
+  private maxAgeMs: number;
+  private now: () => number;
+
+  constructor(
+    storage: IScanHistoryStorage,
+    userStorage: IUserStorage,
+    options: ScanHistoryOptions = {},
+  ) {
+    this.storage = storage;
+    this.userStorage = userStorage;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Add a scan to the signed-in user's history
+   * @returns The stored entry, or null when nobody is signed in
+   */
+  async record(result: ScanResult): Promise<ScanHistoryEntry | null> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      return null;
+    }
+
+    const entry: ScanHistoryEntry = {
+      id: `${result.scannedAt}-${Math.random().toString(36).slice(2, 10)}`,
+      userId: user.id,
+      scannedAt: result.scannedAt,
+      rawValue: result.rawValue,
+      symbology: result.symbology,
+      outcome: getScanOutcome(result.content),
+      ...(result.content.kind === 'entity'
+        ? { entity: result.content.payload.entity }
+        : {}),
+      ...(result.content.kind === 'gs1'
+        ? { product: result.content.product }
+        : {}),
+    };
+
+    const entries = await this.storage.getEntries(user.id);
+    await this.storage.saveEntries(
+      user.id,
+      this.applyRetention([entry, ...entries]),
+    );
+    return entry;
+  }
+
+  /**
+   * List the signed-in user's scans, newest first
+   */
+  async query(query: ScanHistoryQuery = {}): Promise<ScanHistoryPage> {
+    const user = await this.userStorage.getUser();
+    if (!user) {
+      return { entries: [], total: 0, hasMore: false };
+    }
+
+    const search = query.search?.trim().toLowerCase() ?? '';
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const matches = this.applyRetention(
+      await this.storage.getEntries(user.id),
+    ).filter(entry => matchesQuery(entry, query, search));
+
+    return {
+      entries: matches.slice(offset, offset + limit),
+      total: matches.length,
+      hasMore: offset + limit < matches.length,
+    };
+  }
+
+  /**
+   * Delete the signed-in user's history
+   */
+  async clear(): Promise<void> {
+    const user = await this.userStorage.getUser();
+    if (user) {
+      await this.storage.saveEntries(user.id, []);
+    }
+  }
+
+  /**
+   * Sort newest first, then drop entries past the age and count limits
+   */
+  private applyRetention(entries: ScanHistoryEntry[]): ScanHistoryEntry[] {
+    const oldestAllowed = this.now() - this.maxAgeMs;
+    return entries
+      .filter(entry => entry.scannedAt >= oldestAllowed)
+      .sort((a, b) => b.scannedAt - a.scannedAt)
+      .slice(0, this.maxEntries);
+  }
+}
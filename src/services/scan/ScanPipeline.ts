@@ -0,0 +1,164 @@
+/**
+ * Scan Pipeline - Turns raw camera reads into scan results
+ * @file Filters, debounces and dispatches scanned codes
+ * Camera-agnostic so it can be driven from tests
+ */
+
+import {
+  ScanContent,
+  ScannedCode,
+  ScanRect,
+  ScanResult,
+} from '../../types/scan.types';
+import { parseScanContent } from './scanContent';
+
+/**
+ * Receives each accepted scan; the pipeline stays paused until it settles
+ */
+export type ScanListener = (result: ScanResult) => void | Promise<void>;
+
+/**
+ * Notified when the pipeline pauses or resumes
+ */
+export type ScanPauseListener = (isPaused: boolean) => void;
+
+export interface ScanPipelineOptions {
+  /** Repeat reads of the same value within this window are ignored */
+  debounceMs?: number;
+  /** Recognise what a raw value refers to */
+  parseContent?: (rawValue: string, symbology: string) => ScanContent;
+  now?: () => number;
+}
+
+/**
+ * Default window for ignoring repeat reads of the same code
+ */
+const DEFAULT_DEBOUNCE_MS = 2000;
+
+/**
+ * Check whether the center of a code lies inside the scan region
+ */
+const isInside = (frame: ScanRect, region: ScanRect): boolean => {
+  const centerX = frame.x + frame.width / 2;
+  const centerY = frame.y + frame.height / 2;
+  return (
+    centerX >= region.x &&
+    centerX <= region.x + region.width &&
+    centerY >= region.y &&
+    centerY <= region.y + region.height
+  );
+};
+
+/**
+ * Pipeline flow for each camera callback:
+ * paused? -> in scan region? -> debounced? -> pause -> notify -> resume
+ */
+export class ScanPipeline {
+  private listeners = new Set<ScanListener>();
+  private pauseListeners = new Set<ScanPauseListener>();
+  private region: ScanRect | null = null;
+  private paused = false;
+  private lastValue: string | null = null;
+  private lastAcceptedAt = 0;
+  private debounceMs: number;
+  private parseContent: (rawValue: string, symbology: string) => ScanContent;
+  private now: () => number;
+
+  constructor(options: ScanPipelineOptions = {}) {
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.parseContent = options.parseContent ?? parseScanContent;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Subscribe to scan results
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ScanListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to pause changes, e.g. to stop the camera
+   * @returns Unsubscribe function
+   */
+  onPauseChange(listener: ScanPauseListener): () => void {
+    this.pauseListeners.add(listener);
+    return () => {
+      this.pauseListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Restrict scanning to a region of the preview; null accepts any position
+   */
+  setRegion(region: ScanRect | null): void {
+    this.region = region;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Feed codes reported by the camera
+   * @returns The accepted result, or null when every code was filtered out
+   */
+  async process(codes: ScannedCode[]): Promise<ScanResult | null> {
+    if (this.paused) {
+      return null;
+    }
+
+    const code = codes.find(
+      candidate =>
+        candidate.value.length > 0 &&
+        (!this.region ||
+          !candidate.frame ||
+          isInside(candidate.frame, this.region)),
+    );
+    if (!code) {
+      return null;
+    }
+
+    const scannedAt = this.now();
+    if (
+      code.value === this.lastValue &&
+      scannedAt - this.lastAcceptedAt < this.debounceMs
+    ) {
+      return null;
+    }
+
+    const result: ScanResult = {
+      rawValue: code.value,
+      symbology: code.type,
+      scannedAt,
+      content: this.parseContent(code.value, code.type),
+    };
+
+    this.setPaused(true);
+    try {
+      await Promise.all(
+        Array.from(this.listeners, listener =>
+          Promise.resolve()
+            .then(() => listener(result))
+            .catch(error => console.error('Scan listener failed:', error)),
+        ),
+      );
+    } finally {
+      // Debounce from the end of handling so a code held in view is not re-read
+      this.lastValue = code.value;
+      this.lastAcceptedAt = this.now();
+      this.setPaused(false);
+    }
+
+    return result;
+  }
+
+  private setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.pauseListeners.forEach(listener => listener(paused));
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Batch Count - Pure state updates for inventory counts
+ * @file Merges repeat scans, edits quantities and undoes the last scan
+ */
+
+import { EntityRef } from '../../types/entity.types';
+import {
+  BatchCount,
+  BatchCountAction,
+  BatchCountItem,
+} from '../../types/batchCount.types';
+import { ScanResult } from '../../types/scan.types';
+import { isTrustedVerification } from './QrSignatureVerifier';
+
+/**
+ * Upper bound of a single item quantity, to catch stepper accidents
+ */
+export const MAX_ITEM_QUANTITY = 9999;
+
+/**
+ * Scans kept for undo
+ */
+const MAX_UNDO_STEPS = 100;
+
+export const createBatchCount = (now: number = Date.now()): BatchCount => ({
+  id: `count-${now}-${Math.random().toString(36).slice(2, 10)}`,
+  startedAt: now,
+  items: [],
+  scanKeys: [],
+});
+
+const getEntityKey = (entity: EntityRef): string =>
+  [entity.type, entity.site ?? '', entity.id].join(':');
+
+/**
+ * Turn a scan into a countable item
+ * @returns null for codes that must not be counted (invalid or untrusted)
+ */
+export const toBatchCountItem = (
+  result: ScanResult,
+): Omit<BatchCountItem, 'quantity'> | null => {
+  const { content } = result;
+  if (content.kind === 'invalid') {
+    return null;
+  }
+  if (content.kind === 'entity') {
+    if (!isTrustedVerification(content.verification)) {
+      return null;
+    }
+    return {
+      key: getEntityKey(content.payload.entity),
+      rawValue: result.rawValue,
+      entity: content.payload.entity,
+      lastScannedAt: result.scannedAt,
+    };
+  }
+  if (content.kind === 'gs1') {
+    const { product } = content;
+    return {
+      // Cases of the same product and lot are one line, whatever the serial
+      key: `gs1:${product.gtin ?? product.sscc ?? result.rawValue}:${
+        product.lot ?? ''
+      }`,
+      rawValue: result.rawValue,
+      product,
+      lastScannedAt: result.scannedAt,
+    };
+  }
+  return {
+    key: result.rawValue,
+    rawValue: result.rawValue,
+    lastScannedAt: result.scannedAt,
+  };
+};
+
+const clampQuantity = (quantity: number): number =>
+  Math.min(MAX_ITEM_QUANTITY, Math.max(0, Math.round(quantity)));
+
+/**
+ * Set an item's quantity; items at zero are removed
+ */
+const withQuantity = (
+  items: BatchCountItem[],
+  key: string,
+  quantity: number,
+): BatchCountItem[] =>
+  quantity > 0
+    ? items.map(item => (item.key === key ? { ...item, quantity } : item))
+    : items.filter(item => item.key !== key);
+
+export const batchCountReducer = (
+  state: BatchCount,
+  action: BatchCountAction,
+): BatchCount => {
+  switch (action.type) {
+    case 'scan': {
+      const existing = state.items.find(item => item.key === action.item.key);
+      const item: BatchCountItem = {
+        ...action.item,
+        quantity: clampQuantity((existing?.quantity ?? 0) + 1),
+      };
+      return {
+        ...state,
+        // Most recently scanned first, so the item just scanned is visible
+        items: [item, ...state.items.filter(other => other.key !== item.key)],
+        scanKeys: [...state.scanKeys, item.key].slice(-MAX_UNDO_STEPS),
+      };
+    }
+    case 'setQuantity': {
+      const quantity = clampQuantity(action.quantity);
+      return {
+        ...state,
+        items: withQuantity(state.items, action.key, quantity),
+        scanKeys:
+          quantity > 0
+            ? state.scanKeys
+            : state.scanKeys.filter(key => key !== action.key),
+      };
+    }
+    case 'undoLastScan': {
+      const key = state.scanKeys[state.scanKeys.length - 1];
+      const item = state.items.find(other => other.key === key);
+      if (key === undefined) {
+        return state;
+      }
+      return {
+        ...state,
+        items: item
+          ? withQuantity(state.items, key, item.quantity - 1)
+          : state.items,
+        scanKeys: state.scanKeys.slice(0, -1),
+      };
+    }
+    default:
+      return state;
+  }
+};
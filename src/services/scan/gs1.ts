@@ -0,0 +1,366 @@
+/**
+ * GS1 - Supplier barcode parsing
+ * @file Pure parser for GS1 element strings (GS1-128, GS1 DataMatrix) and
+ * GTINs from EAN-13, EAN-8, UPC-A and ITF-14
+ *
+ * Element strings are a sequence of application identifiers (AI) and data.
+ * Variable-length data ends with FNC1, which scanners report as the ASCII
+ * group separator (GS, 0x1D), or with the end of the barcode.
+ */
+
+import {
+  Gs1Element,
+  Gs1Error,
+  Gs1ErrorCode,
+  Gs1ParseResult,
+  Gs1Product,
+} from '../../types/gs1.types';
+
+export const GROUP_SEPARATOR = '\u001d';
+
+/**
+ * Symbology identifiers some scanners prefix to GS1 data
+ * ]C1 GS1-128, ]d2 GS1 DataMatrix, ]Q3 GS1 QR, ]e0 GS1 DataBar
+ */
+const GS1_SYMBOLOGY_IDENTIFIERS = [']C1', ']d2', ']Q3', ']e0'];
+
+/**
+ * Symbologies that carry a bare GTIN, with their digit count
+ */
+const GTIN_SYMBOLOGIES: Record<string, number> = {
+  'ean-13': 13,
+  'ean-8': 8,
+  'upc-a': 12,
+  'itf-14': 14,
+};
+
+/**
+ * Symbologies that can carry a GS1 element string
+ */
+const ELEMENT_STRING_SYMBOLOGIES = [
+  'code-128',
+  'data-matrix',
+  'gs1-data-bar',
+  'gs1-data-bar-limited',
+  'gs1-data-bar-expanded',
+];
+
+type Gs1Field = Exclude<keyof Gs1Product, 'elements'>;
+
+interface AiDefinition {
+  /** Fixed data length */
+  length?: number;
+  /** Maximum data length of variable-length AIs */
+  maxLength?: number;
+  format: 'numeric' | 'alphanumeric' | 'date';
+  /** Last digit is a GS1 mod-10 check digit */
+  checkDigit?: boolean;
+  /** Product field filled from this AI */
+  field?: Gs1Field;
+}
+
+/**
+ * Supported AIs; others are rejected rather than guessed, since the length
+ * of the next element depends on knowing this one
+ */
+const AI_DEFINITIONS: Record<string, AiDefinition> = {
+  '00': { length: 18, format: 'numeric', checkDigit: true, field: 'sscc' },
+  '01': { length: 14, format: 'numeric', checkDigit: true, field: 'gtin' },
+  '02': { length: 14, format: 'numeric', checkDigit: true },
+  '10': { maxLength: 20, format: 'alphanumeric', field: 'lot' },
+  '11': { length: 6, format: 'date', field: 'productionDate' },
+  '13': { length: 6, format: 'date' },
+  '15': { length: 6, format: 'date', field: 'bestBefore' },
+  '16': { length: 6, format: 'date' },
+  '17': { length: 6, format: 'date', field: 'expiry' },
+  '21': { maxLength: 20, format: 'alphanumeric', field: 'serial' },
+  '30': { maxLength: 8, format: 'numeric' },
+  '37': { maxLength: 8, format: 'numeric' },
+  '400': { maxLength: 30, format: 'alphanumeric' },
+  // Net weight in kg, the last AI digit is the number of decimals
+  '3100': { length: 6, format: 'numeric' },
+  '3101': { length: 6, format: 'numeric' },
+  '3102': { length: 6, format: 'numeric' },
+  '3103': { length: 6, format: 'numeric' },
+  '3104': { length: 6, format: 'numeric' },
+  '3105': { length: 6, format: 'numeric' },
+};
+
+/**
+ * GS1 AI encodable character set 82
+ */
+const ALPHANUMERIC_PATTERN = /^[!"%-?A-Z_a-z]+$/;
+
+const NUMERIC_PATTERN = /^\d+$/;
+
+export interface Gs1ParseOptions {
+  /** Reference for the century of two-digit years */
+  now?: () => number;
+}
+
+const failure = (
+  code: Gs1ErrorCode,
+  message: string,
+): { ok: false; error: Gs1Error } => ({ ok: false, error: { code, message } });
+
+/**
+ * Validate the GS1 mod-10 check digit (GTIN, SSCC)
+ */
+export const isValidGs1CheckDigit = (digits: string): boolean => {
+  if (!NUMERIC_PATTERN.test(digits) || digits.length < 2) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 3 ? 1 : 3;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Decode YYMMDD; DD 00 means the last day of the month
+ * The century follows the GS1 sliding window around the current year
+ * @returns `YYYY-MM-DD`, or null when the date does not exist
+ */
+export const decodeGs1Date = (
+  value: string,
+  now: number = Date.now(),
+): string | null => {
+  if (!/^\d{6}$/.test(value)) {
+    return null;
+  }
+
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  const currentYear = new Date(now).getUTCFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  const difference = yy - (currentYear % 100);
+  const year =
+    century + yy + (difference >= 51 ? -100 : difference <= -50 ? 100 : 0);
+
+  if (month < 1 || month > 12) {
+    return null;
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > lastDay) {
+    return null;
+  }
+
+  return [
+    String(year),
+    String(month).padStart(2, '0'),
+    String(day === 0 ? lastDay : day).padStart(2, '0'),
+  ].join('-');
+};
+
+/**
+ * Find the AI at the start of the data (2 to 4 digits)
+ */
+const matchAi = (data: string): string | null => {
+  for (let length = 2; length <= 4; length++) {
+    const ai = data.slice(0, length);
+    if (Object.prototype.hasOwnProperty.call(AI_DEFINITIONS, ai)) {
+      return ai;
+    }
+  }
+  return null;
+};
+
+/**
+ * Check one element and store it in the product
+ */
+const addElement = (
+  product: Gs1Product,
+  element: Gs1Element,
+  now: number,
+): Gs1Error | null => {
+  const definition = AI_DEFINITIONS[element.ai];
+  const { ai, value } = element;
+
+  if (
+    (definition.length !== undefined && value.length !== definition.length) ||
+    (definition.maxLength !== undefined &&
+      (value.length === 0 || value.length > definition.maxLength))
+  ) {
+    return {
+      code: Gs1ErrorCode.INVALID_LENGTH,
+      message: `Invalid length for AI ${ai}`,
+    };
+  }
+
+  const pattern =
+    definition.format === 'alphanumeric'
+      ? ALPHANUMERIC_PATTERN
+      : NUMERIC_PATTERN;
+  if (!pattern.test(value)) {
+    return {
+      code: Gs1ErrorCode.INVALID_FORMAT,
+      message: `Invalid characters for AI ${ai}`,
+    };
+  }
+
+  if (definition.checkDigit && !isValidGs1CheckDigit(value)) {
+    return {
+      code: Gs1ErrorCode.INVALID_CHECK_DIGIT,
+      message: `Invalid check digit for AI ${ai}`,
+    };
+  }
+
+  let fieldValue = value;
+  if (definition.format === 'date') {
+    const date = decodeGs1Date(value, now);
+    if (!date) {
+      return {
+        code: Gs1ErrorCode.INVALID_DATE,
+        message: `Invalid date for AI ${ai}`,
+      };
+    }
+    fieldValue = date;
+  }
+
+  product.elements.push(element);
+  if (definition.field) {
+    product[definition.field] = fieldValue;
+  }
+  return null;
+};
+
+/**
+ * Split `(01)09501101020917(10)ABC` as printed under barcodes
+ */
+const splitHumanReadable = (value: string): Gs1Element[] | null => {
+  const elements: Gs1Element[] = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/gy;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    elements.push({ ai: match[1], value: match[2] });
+    if (pattern.lastIndex === value.length) {
+      return elements;
+    }
+  }
+  return null;
+};
+
+/**
+ * Parse a GS1 element string
+ * Accepts raw scanner output (optional symbology identifier, GS separators)
+ * and the human-readable form with AIs in parentheses
+ */
+export const parseGs1ElementString = (
+  value: string,
+  options: Gs1ParseOptions = {},
+): Gs1ParseResult => {
+  const now = (options.now ?? Date.now)();
+  const product: Gs1Product = { elements: [] };
+
+  if (value.startsWith('(')) {
+    const elements = splitHumanReadable(value);
+    if (!elements) {
+      return failure(Gs1ErrorCode.UNKNOWN_AI, 'Malformed element string');
+    }
+    for (const element of elements) {
+      if (!Object.prototype.hasOwnProperty.call(AI_DEFINITIONS, element.ai)) {
+        return failure(Gs1ErrorCode.UNKNOWN_AI, `Unsupported AI ${element.ai}`);
+      }
+      const error = addElement(product, element, now);
+      if (error) {
+        return { ok: false, error };
+      }
+    }
+    return { ok: true, product };
+  }
+
+  const identifier = GS1_SYMBOLOGY_IDENTIFIERS.find(prefix =>
+    value.startsWith(prefix),
+  );
+  let data = identifier ? value.slice(identifier.length) : value;
+
+  while (data.length > 0) {
+    // Leading FNC1, or FNC1 after a fixed-length element
+    if (data[0] === GROUP_SEPARATOR) {
+      data = data.slice(1);
+      continue;
+    }
+
+    const ai = matchAi(data);
+    if (!ai) {
+      return failure(
+        Gs1ErrorCode.UNKNOWN_AI,
+        `Unsupported AI at "${data.slice(0, 4)}"`,
+      );
+    }
+
+    const definition = AI_DEFINITIONS[ai];
+    const rest = data.slice(ai.length);
+    let elementValue: string;
+    if (definition.length !== undefined) {
+      elementValue = rest.slice(0, definition.length);
+      data = rest.slice(definition.length);
+    } else {
+      const end = rest.indexOf(GROUP_SEPARATOR);
+      elementValue = end === -1 ? rest : rest.slice(0, end);
+      data = end === -1 ? '' : rest.slice(end + 1);
+    }
+
+    const error = addElement(product, { ai, value: elementValue }, now);
+    if (error) {
+      return { ok: false, error };
+    }
+  }
+
+  if (product.elements.length === 0) {
+    return failure(Gs1ErrorCode.UNKNOWN_AI, 'Empty element string');
+  }
+  return { ok: true, product };
+};
+
+/**
+ * Read a GTIN-8/12/13/14 as GTIN-14
+ */
+const parseGtin = (value: string, digits: number): Gs1ParseResult => {
+  if (value.length !== digits || !NUMERIC_PATTERN.test(value)) {
+    return failure(Gs1ErrorCode.INVALID_FORMAT, 'Invalid GTIN');
+  }
+  if (!isValidGs1CheckDigit(value)) {
+    return failure(
+      Gs1ErrorCode.INVALID_CHECK_DIGIT,
+      'Invalid GTIN check digit',
+    );
+  }
+  const gtin = value.padStart(14, '0');
+  return { ok: true, product: { gtin, elements: [{ ai: '01', value: gtin }] } };
+};
+
+/**
+ * Parse a scanned barcode as GS1 data
+ * @returns null when the code is not GS1 (e.g. a plain Code 128 label), so
+ * other parsers can try it
+ */
+export const parseGs1Barcode = (
+  rawValue: string,
+  symbology: string,
+  options: Gs1ParseOptions = {},
+): Gs1ParseResult | null => {
+  if (Object.prototype.hasOwnProperty.call(GTIN_SYMBOLOGIES, symbology)) {
+    return parseGtin(rawValue.trim(), GTIN_SYMBOLOGIES[symbology]);
+  }
+
+  const isExplicitGs1 =
+    rawValue.startsWith(GROUP_SEPARATOR) ||
+    GS1_SYMBOLOGY_IDENTIFIERS.some(prefix => rawValue.startsWith(prefix));
+  if (isExplicitGs1) {
+    return parseGs1ElementString(rawValue, options);
+  }
+  if (!ELEMENT_STRING_SYMBOLOGIES.includes(symbology)) {
+    return null;
+  }
+
+  // Most scanners drop the leading FNC1: only treat the code as GS1 when it
+  // parses completely and identifies a product or shipment
+  const result = parseGs1ElementString(rawValue, options);
+  return result.ok && (result.product.gtin || result.product.sscc)
+    ? result
+    : null;
+};
@@ -0,0 +1,17 @@
+/**
+ * QR Keys - Public keys shipped with the app
+ * @file Lets signed codes be verified before the first key sync
+ */
+
+import { QrSigningKey } from '../../types/qrPayload.types';
+
+/**
+ * Back-office signing keys known at build time
+ * Keep retired keys listed while codes signed with them are still in use
+ */
+export const BUNDLED_QR_KEYS: readonly QrSigningKey[] = [
+  {
+    keyId: 'kt-2026-01',
+    publicKey: 'RBuBaJsXGYlKkp9rTsXuGuSktlSRmn5BymFrN7WjLO0',
+  },
+];
@@ -0,0 +1,284 @@
+/**
+ * QR Payload - Keytchens QR code format
+ * @file Pure parser and encoder for versioned payloads, see docs/QR_PAYLOAD.md
+ *
+ * Version 1: `KT:1:{type}:{site}:{id}[:{checksum}]`
+ * Version 2 (signed): `KT:2:{type}:{site}:{id}:{expiresAt}:{keyId}:{signature}`
+ * Version 0 (legacy): app links such as `keytchens://orders/42`
+ */
+
+import { ENTITY_ID_PATTERN, parseDeepLink } from '../../navigation/deepLinks';
+import { EntityType } from '../../types/entity.types';
+import {
+  QrPayloadError,
+  QrPayloadErrorCode,
+  QrPayloadInput,
+  QrPayloadParseResult,
+} from '../../types/qrPayload.types';
+
+/**
+ * Prefix of every versioned payload
+ */
+export const QR_PAYLOAD_PREFIX = 'KT';
+
+/**
+ * Version written by the encoder; signed payloads are only issued by the
+ * back office
+ */
+export const QR_PAYLOAD_VERSION = 1;
+
+const SEPARATOR = ':';
+
+/**
+ * One-letter type codes keep codes small enough for QR alphanumeric mode
+ */
+const TYPE_CODES: Record<EntityType, string> = {
+  order: 'O',
+  equipment: 'E',
+  location: 'S',
+  lot: 'L',
+};
+
+const TYPES_BY_CODE: Record<string, EntityType> = {
+  O: 'order',
+  E: 'equipment',
+  S: 'location',
+  L: 'lot',
+};
+
+const CHECKSUM_PATTERN = /^[0-9A-F]{4}$/i;
+
+/**
+ * Expiry in epoch seconds, or empty for codes that do not expire
+ */
+const EXPIRY_PATTERN = /^\d{0,12}$/;
+
+/**
+ * Base64url of a 64-byte Ed25519 signature, without padding
+ */
+const SIGNATURE_PATTERN = /^[A-Za-z0-9_-]{86}$/;
+
+const failure = (
+  code: QrPayloadErrorCode,
+  message: string,
+): { ok: false; error: QrPayloadError } => ({
+  ok: false,
+  error: { code, message },
+});
+
+/**
+ * CRC-16/CCITT-FALSE of the payload body, as 4 uppercase hex digits
+ * Catches misprints and hand-edited codes; it is not a signature
+ */
+/* eslint-disable no-bitwise */
+export const computeQrChecksum = (body: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < body.length; i++) {
+    crc ^= body.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+/* eslint-enable no-bitwise */
+
+/**
+ * Read a legacy app link as a version 0 payload
+ */
+const parseLegacyPayload = (value: string): QrPayloadParseResult => {
+  const target = parseDeepLink(value);
+  if (target?.name === 'EntityDetails') {
+    return { ok: true, payload: { version: 0, entity: target.params } };
+  }
+  return failure(QrPayloadErrorCode.UNKNOWN_FORMAT, 'Not a Keytchens code');
+};
+
+type EntityFieldsResult =
+  | { ok: true; entity: QrPayloadInput }
+  | { ok: false; error: QrPayloadError };
+
+/**
+ * Validate the type, site and id fields shared by every versioned payload
+ */
+const parseEntityFields = (
+  typeCode: string,
+  site: string,
+  id: string,
+): EntityFieldsResult => {
+  const upperTypeCode = typeCode.toUpperCase();
+  const type = Object.prototype.hasOwnProperty.call(
+    TYPES_BY_CODE,
+    upperTypeCode,
+  )
+    ? TYPES_BY_CODE[upperTypeCode]
+    : undefined;
+  if (!type) {
+    return failure(
+      QrPayloadErrorCode.INVALID_TYPE,
+      `Unknown entity type: ${typeCode}`,
+    );
+  }
+  if (!ENTITY_ID_PATTERN.test(site)) {
+    return failure(QrPayloadErrorCode.INVALID_SITE, 'Invalid site id');
+  }
+  if (!ENTITY_ID_PATTERN.test(id)) {
+    return failure(QrPayloadErrorCode.INVALID_ID, 'Invalid entity id');
+  }
+  return { ok: true, entity: { type, id, site } };
+};
+
+/**
+ * `KT:1:{type}:{site}:{id}[:{checksum}]`
+ */
+const parseChecksumPayload = (fields: string[]): QrPayloadParseResult => {
+  const [, , typeCode, site, id, checksum] = fields;
+  if (fields.length < 5 || fields.length > 6) {
+    return failure(
+      QrPayloadErrorCode.MALFORMED,
+      'Expected KT:1:{type}:{site}:{id}[:{checksum}]',
+    );
+  }
+
+  const parsed = parseEntityFields(typeCode, site, id);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  if (checksum === undefined) {
+    return { ok: true, payload: { version: 1, entity: parsed.entity } };
+  }
+
+  const body = fields.slice(0, 5).join(SEPARATOR);
+  if (
+    !CHECKSUM_PATTERN.test(checksum) ||
+    checksum.toUpperCase() !== computeQrChecksum(body)
+  ) {
+    return failure(
+      QrPayloadErrorCode.CHECKSUM_MISMATCH,
+      'Checksum does not match payload',
+    );
+  }
+
+  return {
+    ok: true,
+    payload: {
+      version: 1,
+      entity: parsed.entity,
+      checksum: checksum.toUpperCase(),
+    },
+  };
+};
+
+/**
+ * `KT:2:{type}:{site}:{id}:{expiresAt}:{keyId}:{signature}`
+ * Only the structure is checked here; see QrSignatureVerifier
+ */
+const parseSignedPayload = (fields: string[]): QrPayloadParseResult => {
+  const [, , typeCode, site, id, expiresAt, keyId, signature] = fields;
+  if (fields.length !== 8) {
+    return failure(
+      QrPayloadErrorCode.MALFORMED,
+      'Expected KT:2:{type}:{site}:{id}:{expiresAt}:{keyId}:{signature}',
+    );
+  }
+
+  const parsed = parseEntityFields(typeCode, site, id);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  if (
+    !EXPIRY_PATTERN.test(expiresAt) ||
+    !ENTITY_ID_PATTERN.test(keyId) ||
+    !SIGNATURE_PATTERN.test(signature)
+  ) {
+    return failure(
+      QrPayloadErrorCode.INVALID_SIGNATURE,
+      'Invalid signature fields',
+    );
+  }
+
+  return {
+    ok: true,
+    payload: {
+      version: 2,
+      entity: parsed.entity,
+      signature: {
+        keyId,
+        value: signature,
+        signedContent: fields.slice(0, 7).join(SEPARATOR),
+        ...(expiresAt ? { expiresAt: Number(expiresAt) * 1000 } : {}),
+      },
+    },
+  };
+};
+
+/**
+ * Parse the content of a scanned QR code
+ * @returns The payload, or a structured error; UNKNOWN_FORMAT means the code
+ * is not a Keytchens code at all
+ */
+export const parseQrPayload = (rawValue: string): QrPayloadParseResult => {
+  const value = rawValue.trim();
+  const fields = value.split(SEPARATOR);
+  if (fields[0].toUpperCase() !== QR_PAYLOAD_PREFIX || fields.length < 2) {
+    return parseLegacyPayload(value);
+  }
+
+  switch (fields[1]) {
+    case '1':
+      return parseChecksumPayload(fields);
+    case '2':
+      return parseSignedPayload(fields);
+    default:
+      return failure(
+        QrPayloadErrorCode.UNSUPPORTED_VERSION,
+        `Unsupported payload version: ${fields[1]}`,
+      );
+  }
+};
+
+/**
+ * Build the content of a QR code in the current format
+ * @param options.checksum Append a checksum (default true)
+ * @throws QrPayloadError when the type, id or site cannot be encoded
+ */
+export const encodeQrPayload = (
+  input: QrPayloadInput,
+  options: { checksum?: boolean } = {},
+): string => {
+  const typeCode = Object.prototype.hasOwnProperty.call(TYPE_CODES, input.type)
+    ? TYPE_CODES[input.type]
+    : undefined;
+  if (!typeCode) {
+    throw {
+      code: QrPayloadErrorCode.INVALID_TYPE,
+      message: `Unknown entity type: ${input.type}`,
+    } as QrPayloadError;
+  }
+  if (!ENTITY_ID_PATTERN.test(input.site)) {
+    throw {
+      code: QrPayloadErrorCode.INVALID_SITE,
+      message: 'Invalid site id',
+    } as QrPayloadError;
+  }
+  if (!ENTITY_ID_PATTERN.test(input.id)) {
+    throw {
+      code: QrPayloadErrorCode.INVALID_ID,
+      message: 'Invalid entity id',
+    } as QrPayloadError;
+  }
+
+  const body = [
+    QR_PAYLOAD_PREFIX,
+    QR_PAYLOAD_VERSION,
+    typeCode,
+    input.site,
+    input.id,
+  ].join(SEPARATOR);
+
+  return options.checksum === false
+    ? body
+    : `${body}${SEPARATOR}${computeQrChecksum(body)}`;
+};
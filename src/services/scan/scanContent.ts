@@ -0,0 +1,46 @@
+/**
+ * Scan Content - Recognises what a scanned value refers to
+ * @file Pure mapping from raw code values to ScanContent
+ */
+
+import { QrPayloadErrorCode } from '../../types/qrPayload.types';
+import { ScanContent } from '../../types/scan.types';
+import { parseGs1Barcode } from './gs1';
+import { parseQrPayload } from './qrPayload';
+import { QrSignatureVerifier } from './QrSignatureVerifier';
+
+/**
+ * Classify a scanned value
+ * GS1 barcodes become products; Keytchens payloads, including legacy app
+ * links, become entities; other codes are left unknown
+ * @param symbology Camera code type, e.g. `qr` or `ean-13`
+ * @param verifier Checks signed payloads; without it they report `unknownKey`
+ */
+export const parseScanContent = (
+  rawValue: string,
+  symbology: string,
+  verifier?: QrSignatureVerifier,
+): ScanContent => {
+  const gs1 = parseGs1Barcode(rawValue, symbology);
+  if (gs1) {
+    return gs1.ok
+      ? { kind: 'gs1', product: gs1.product }
+      : { kind: 'invalid', error: gs1.error };
+  }
+
+  const result = parseQrPayload(rawValue);
+  if (result.ok) {
+    const { payload } = result;
+    const verification =
+      verifier?.verify(payload) ??
+      (payload.signature
+        ? { status: 'unknownKey' as const, keyId: payload.signature.keyId }
+        : { status: 'unsigned' as const });
+    return { kind: 'entity', payload, verification };
+  }
+  if (result.error.code === QrPayloadErrorCode.UNKNOWN_FORMAT) {
+    return { kind: 'unknown' };
+  }
+
+  return { kind: 'invalid', error: result.error };
+};
@@ -0,0 +1,42 @@
+/**
+ * AsyncStorage Batch Count Storage - Persists counts in progress
+ * @file One draft per user, so a restart never loses a half-finished count
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IBatchCountStorage } from '../scan/BatchCountService';
+import { BatchCount } from '../../types/batchCount.types';
+
+const BATCH_COUNT_KEY_PREFIX = '@keytchens_batch_count:';
+
+const keyFor = (userId: string): string =>
+  `${BATCH_COUNT_KEY_PREFIX}${encodeURIComponent(userId)}`;
+
+export class AsyncStorageBatchCountStorage implements IBatchCountStorage {
+  async getDraft(userId: string): Promise<BatchCount | null> {
+    try {
+      const value = await AsyncStorage.getItem(keyFor(userId));
+      return value ? (JSON.parse(value) as BatchCount) : null;
+    } catch (error) {
+      console.error('Failed to retrieve batch count:', error);
+      return null;
+    }
+  }
+
+  async saveDraft(userId: string, count: BatchCount): Promise<void> {
+    try {
+      await AsyncStorage.setItem(keyFor(userId), JSON.stringify(count));
+    } catch (error) {
+      console.error('Failed to store batch count:', error);
+      throw new Error('Failed to store batch count');
+    }
+  }
+
+  async removeDraft(userId: string): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(keyFor(userId));
+    } catch (error) {
+      console.error('Failed to remove batch count:', error);
+      throw new Error('Failed to remove batch count');
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * AsyncStorage Outbox Storage - Persists queued writes per user
+ * @file One key per user, so writes are only replayed with their author's
+ * session
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IOutboxStorage } from '../outbox/OutboxService';
+import { OutboxEntry } from '../../types/outbox.types';
+
+const OUTBOX_KEY_PREFIX = '@keytchens_outbox:';
+
+const keyFor = (userId: string): string =>
+  `${OUTBOX_KEY_PREFIX}${encodeURIComponent(userId)}`;
+
+export class AsyncStorageOutboxStorage implements IOutboxStorage {
+  async getEntries(userId: string): Promise<OutboxEntry[]> {
+    try {
+      const value = await AsyncStorage.getItem(keyFor(userId));
+      return value ? (JSON.parse(value) as OutboxEntry[]) : [];
+    } catch (error) {
+      console.error('Failed to retrieve outbox:', error);
+      return [];
+    }
+  }
+
+  async saveEntries(userId: string, entries: OutboxEntry[]): Promise<void> {
+    try {
+      if (entries.length === 0) {
+        await AsyncStorage.removeItem(keyFor(userId));
+        return;
+      }
+      await AsyncStorage.setItem(keyFor(userId), JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to store outbox:', error);
+      throw new Error('Failed to store outbox');
+    }
+  }
+}
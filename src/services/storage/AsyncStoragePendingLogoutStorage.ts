@@ -0,0 +1,34 @@
+/**
+ * AsyncStorage Pending Logout Storage - Persists unacknowledged logouts
+ * @file Keeps tokens to revoke until the server can be reached again
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IPendingLogoutStorage } from '../AuthService';
+import { PendingLogout } from '../../types/auth.types';
+
+const PENDING_LOGOUTS_KEY = '@keytchens_pending_logouts';
+
+export class AsyncStoragePendingLogoutStorage implements IPendingLogoutStorage {
+  async getAll(): Promise<PendingLogout[]> {
+    try {
+      const value = await AsyncStorage.getItem(PENDING_LOGOUTS_KEY);
+      return value ? (JSON.parse(value) as PendingLogout[]) : [];
+    } catch (error) {
+      console.error('Failed to retrieve pending logouts:', error);
+      return [];
+    }
+  }
+
+  async save(entries: PendingLogout[]): Promise<void> {
+    try {
+      if (entries.length === 0) {
+        await AsyncStorage.removeItem(PENDING_LOGOUTS_KEY);
+        return;
+      }
+      await AsyncStorage.setItem(PENDING_LOGOUTS_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to store pending logouts:', error);
+      throw new Error('Failed to store pending logouts');
+    }
+  }
+}
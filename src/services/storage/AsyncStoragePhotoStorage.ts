@@ -0,0 +1,30 @@
+/**
+ * AsyncStorage Photo Storage - Persists the photo upload queue
+ * @file Keeps photo references until their upload succeeds
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IPhotoStorage } from '../photo/PhotoService';
+import { PhotoAttachment } from '../../types/photo.types';
+
+const PHOTOS_KEY = '@keytchens_photos';
+
+export class AsyncStoragePhotoStorage implements IPhotoStorage {
+  async getPhotos(): Promise<PhotoAttachment[]> {
+    try {
+      const value = await AsyncStorage.getItem(PHOTOS_KEY);
+      return value ? (JSON.parse(value) as PhotoAttachment[]) : [];
+    } catch (error) {
+      console.error('Failed to retrieve photos:', error);
+      return [];
+    }
+  }
+
+  async savePhotos(photos: PhotoAttachment[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PHOTOS_KEY, JSON.stringify(photos));
+    } catch (error) {
+      console.error('Failed to store photos:', error);
+      throw new Error('Failed to store photos');
+    }
+  }
+}
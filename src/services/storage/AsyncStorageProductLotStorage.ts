@@ -0,0 +1,53 @@
+/**
+ * AsyncStorage Product Lot Storage - Persists lots for expiry tracking
+ * @file Shared by everyone using the device, like the kitchen stock itself
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IProductLotStorage } from '../expiry/ProductLotService';
+import { ExpiryThresholds, ProductLot } from '../../types/productLot.types';
+
+const PRODUCT_LOTS_KEY = '@keytchens_product_lots';
+const EXPIRY_THRESHOLDS_KEY = '@keytchens_expiry_thresholds';
+
+export class AsyncStorageProductLotStorage implements IProductLotStorage {
+  async getLots(): Promise<ProductLot[]> {
+    try {
+      const value = await AsyncStorage.getItem(PRODUCT_LOTS_KEY);
+      return value ? (JSON.parse(value) as ProductLot[]) : [];
+    } catch (error) {
+      console.error('Failed to retrieve product lots:', error);
+      return [];
+    }
+  }
+
+  async saveLots(lots: ProductLot[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PRODUCT_LOTS_KEY, JSON.stringify(lots));
+    } catch (error) {
+      console.error('Failed to store product lots:', error);
+      throw new Error('Failed to store product lots');
+    }
+  }
+
+  async getThresholds(): Promise<Partial<ExpiryThresholds>> {
+    try {
+      const value = await AsyncStorage.getItem(EXPIRY_THRESHOLDS_KEY);
+      return value ? (JSON.parse(value) as Partial<ExpiryThresholds>) : {};
+    } catch (error) {
+      console.error('Failed to retrieve expiry thresholds:', error);
+      return {};
+    }
+  }
+
+  async saveThresholds(thresholds: Partial<ExpiryThresholds>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        EXPIRY_THRESHOLDS_KEY,
+        JSON.stringify(thresholds),
+      );
+    } catch (error) {
+      console.error('Failed to store expiry thresholds:', error);
+      throw new Error('Failed to store expiry thresholds');
+    }
+  }
+}
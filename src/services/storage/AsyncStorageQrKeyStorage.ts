@@ -0,0 +1,32 @@
+/**
+ * AsyncStorage QR Key Storage - Persists synced QR signing keys
+ * @file Keeps public keys available for offline verification
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IQrKeyStorage } from '../scan/QrKeyStore';
+import { QrKeySet } from '../../types/qrPayload.types';
+
+const QR_KEYS_KEY = '@keytchens_qr_keys';
+
+export class AsyncStorageQrKeyStorage implements IQrKeyStorage {
+  async getAll(): Promise<QrKeySet> {
+    try {
+      const value = await AsyncStorage.getItem(QR_KEYS_KEY);
+      return value
+        ? (JSON.parse(value) as QrKeySet)
+        : { keys: [], revokedKeyIds: [] };
+    } catch (error) {
+      console.error('Failed to retrieve QR keys:', error);
+      return { keys: [], revokedKeyIds: [] };
+    }
+  }
+
+  async save(keySet: QrKeySet): Promise<void> {
+    try {
+      await AsyncStorage.setItem(QR_KEYS_KEY, JSON.stringify(keySet));
+    } catch (error) {
+      console.error('Failed to store QR keys:', error);
+      throw new Error('Failed to store QR keys');
+    }
+  }
+}
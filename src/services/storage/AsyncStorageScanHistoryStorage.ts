@@ -0,0 +1,40 @@
+/**
+ * AsyncStorage Scan History Storage - Persists scan history per user
+ * @file One key per user, so a shared device never mixes histories
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IScanHistoryStorage } from '../scan/ScanHistoryService';
+import { ScanHistoryEntry } from '../../types/scanHistory.types';
+
+const SCAN_HISTORY_KEY_PREFIX = '@keytchens_scan_history:';
+
+const keyFor = (userId: string): string =>
+  `${SCAN_HISTORY_KEY_PREFIX}${encodeURIComponent(userId)}`;
+
+export class AsyncStorageScanHistoryStorage implements IScanHistoryStorage {
+  async getEntries(userId: string): Promise<ScanHistoryEntry[]> {
+    try {
+      const value = await AsyncStorage.getItem(keyFor(userId));
+      return value ? (JSON.parse(value) as ScanHistoryEntry[]) : [];
+    } catch (error) {
+      console.error('Failed to retrieve scan history:', error);
+      return [];
+    }
+  }
+
+  async saveEntries(
+    userId: string,
+    entries: ScanHistoryEntry[],
+  ): Promise<void> {
+    try {
+      if (entries.length === 0) {
+        await AsyncStorage.removeItem(keyFor(userId));
+        return;
+      }
+      await AsyncStorage.setItem(keyFor(userId), JSON.stringify(entries));
+    } catch (error) {
+      console.error('Failed to store scan history:', error);
+      throw new Error('Failed to store scan history');
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * AsyncStorage Temperature Log Storage - Persists HACCP readings
+ * @file Readings stay on the device until uploaded, so none is lost offline
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ITemperatureLogStorage } from '../haccp/TemperatureLogService';
+import { TemperatureReading } from '../../types/temperatureLog.types';
+
+const TEMPERATURE_READINGS_KEY = '@keytchens_temperature_readings';
+
+export class AsyncStorageTemperatureLogStorage
+  implements ITemperatureLogStorage
+{
+  async getReadings(): Promise<TemperatureReading[]> {
+    try {
+      const value = await AsyncStorage.getItem(TEMPERATURE_READINGS_KEY);
+      return value ? (JSON.parse(value) as TemperatureReading[]) : [];
+    } catch (error) {
+      console.error('Failed to retrieve temperature readings:', error);
+      return [];
+    }
+  }
+
+  async saveReadings(readings: TemperatureReading[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        TEMPERATURE_READINGS_KEY,
+        JSON.stringify(readings),
+      );
+    } catch (error) {
+      console.error('Failed to store temperature readings:', error);
+      throw new Error('Failed to store temperature readings');
+    }
+  }
+}
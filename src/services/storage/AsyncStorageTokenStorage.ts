@@ -7,6 +7,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ITokenStorage } from '../AuthService';
 
 const TOKEN_KEY = '@keytchens_auth_token';
+const REFRESH_TOKEN_KEY = '@keytchens_refresh_token';
 
 /**
  * AsyncStorage-based token storage implementation
@@ -48,4 +49,40 @@ export class AsyncStorageTokenStorage implements ITokenStorage {
       throw new Error('Failed to clear authentication token');
     }
   }
+
+  /**
+   * Store refresh token used to renew the access token
+   */
+  async setRefreshToken(token: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(REFRESH_TOKEN_KEY, token);
+    } catch (error) {
+      console.error('Failed to store refresh token:', error);
+      throw new Error('Failed to store refresh token');
+    }
+  }
+
+  /**
+   * Retrieve stored refresh token
+   */
+  async getRefreshToken(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+    } catch (error) {
+      console.error('Failed to retrieve refresh token:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Clear stored refresh token
+   */
+  async removeRefreshToken(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(REFRESH_TOKEN_KEY);
+    } catch (error) {
+      console.error('Failed to remove refresh token:', error);
+      throw new Error('Failed to clear refresh token');
+    }
+  }
 }
@@ -0,0 +1,71 @@
+/**
+ * Device Photo Files - Photo files in app storage
+ * @file Compresses captured photos into the documents directory, where they
+ * survive restarts until uploaded, unlike the camera's temporary files
+ */
+import ImageResizer from '@bam.tech/react-native-image-resizer';
+import {
+  DocumentDirectoryPath,
+  mkdir,
+  unlink,
+} from '@dr.pogodin/react-native-fs';
+import { IPhotoFiles } from '../photo/PhotoService';
+import { CapturedPhoto, StoredPhotoFiles } from '../../types/photo.types';
+
+const PHOTOS_DIRECTORY = `${DocumentDirectoryPath}/photos`;
+
+/**
+ * Longest side and JPEG quality of uploaded photos
+ */
+const PHOTO_MAX_SIDE = 1920;
+const PHOTO_QUALITY = 80;
+
+/**
+ * Longest side and JPEG quality of thumbnails
+ */
+const THUMBNAIL_MAX_SIDE = 320;
+const THUMBNAIL_QUALITY = 70;
+
+const toFileUri = (path: string): string =>
+  path.startsWith('file://') ? path : `file://${path}`;
+
+const toPath = (uri: string): string => uri.replace(/^file:\/\//, '');
+
+export class DevicePhotoFiles implements IPhotoFiles {
+  async store(photo: CapturedPhoto): Promise<StoredPhotoFiles> {
+    await mkdir(PHOTOS_DIRECTORY);
+    const source = toFileUri(photo.path);
+    const resize = (maxSide: number, quality: number) =>
+      ImageResizer.createResizedImage(
+        source,
+        maxSide,
+        maxSide,
+        'JPEG',
+        quality,
+        0,
+        PHOTOS_DIRECTORY,
+        false,
+        { mode: 'contain', onlyScaleDown: true },
+      );
+
+    const compressed = await resize(PHOTO_MAX_SIDE, PHOTO_QUALITY);
+    const thumbnail = await resize(THUMBNAIL_MAX_SIDE, THUMBNAIL_QUALITY);
+    await this.remove(source);
+
+    return {
+      uri: toFileUri(compressed.path),
+      thumbnailUri: toFileUri(thumbnail.path),
+      width: compressed.width,
+      height: compressed.height,
+    };
+  }
+
+  async remove(uri: string): Promise<void> {
+    try {
+      await unlink(toPath(uri));
+    } catch (error) {
+      // Already deleted, or never written
+      console.warn('Failed to delete photo file:', error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * API Types - Errors returned by HttpClient
+ * @file Structured failures of API calls, shared by every feature
+ */
+
+/**
+ * Kinds of API failure
+ */
+export enum ApiErrorType {
+  /** 401: missing or expired session */
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  /** 403: signed in, but not allowed */
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  /** 409: the server state changed meanwhile */
+  CONFLICT = 'CONFLICT',
+  /** 400/422: the request was refused; see `fieldErrors` */
+  VALIDATION = 'VALIDATION',
+  /** 429: see `retryAfterMs` */
+  RATE_LIMITED = 'RATE_LIMITED',
+  /** 5xx */
+  SERVER_ERROR = 'SERVER_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  /** The request did not reach the server */
+  OFFLINE = 'OFFLINE',
+  /** The response does not match the schema of the endpoint */
+  INVALID_RESPONSE = 'INVALID_RESPONSE',
+  UNKNOWN = 'UNKNOWN',
+}
+
+/**
+ * Fields shared by API errors and their specializations, e.g. AuthError
+ */
+export interface ApiErrorBase<T extends string> {
+  type: T;
+  message: string;
+  /** HTTP status, absent when no response was received */
+  statusCode?: number;
+  /** `X-Request-Id` of the response, to quote when reporting a problem */
+  requestId?: string;
+  /** Parsed error body sent by the server */
+  payload?: unknown;
+}
+
+/**
+ * Structured error thrown by HttpClient
+ */
+export interface ApiError extends ApiErrorBase<ApiErrorType> {
+  /** Messages per field, for VALIDATION errors */
+  fieldErrors?: Record<string, string[]>;
+  /** Delay asked by the server, for RATE_LIMITED errors */
+  retryAfterMs?: number;
+}
+
+const API_ERROR_TYPES: string[] = Object.values(ApiErrorType);
+
+/**
+ * Type guard for checking if error is ApiError
+ */
+export const isApiError = (error: unknown): error is ApiError =>
+  typeof error === 'object' &&
+  error !== null &&
+  'type' in error &&
+  'message' in error &&
+  API_ERROR_TYPES.includes(String(error.type));
@@ -3,6 +3,8 @@
  * @file Centralized type definitions for authentication feature
  */
 
+import { ApiErrorBase } from './api.types';
+
 /**
  * Represents a user in the system
  */
@@ -31,16 +33,70 @@ export interface LoginResponse {
   refreshToken?: string;
 }
 
+/**
+ * Locally validated session: a well-formed, unexpired token and its owner
+ */
+export interface AuthSession {
+  token: string;
+  /** Subject claim of the token */
+  userId: string | null;
+  user: User | null;
+  /** Expiry as epoch milliseconds, null when the token carries no `exp` */
+  expiresAt: number | null;
+  /** Issue time as epoch milliseconds, null when the token carries no `iat` */
+  issuedAt: number | null;
+}
+
+/**
+ * Outcome of restoring the persisted session
+ * `offline`: the access token expired and could not be renewed yet (offline,
+ * timeout or server error); tokens are kept and the user stays signed in
+ */
+export type RestoredSession =
+  | { status: 'restored'; session: AuthSession }
+  | {
+      status: 'offline';
+      user: User | null;
+      /** Delay asked by the server before retrying, e.g. after a 429 */
+      retryAfterMs?: number;
+    }
+  | { status: 'signedOut' };
+
+/**
+ * Tokens whose server-side revocation is still pending (logout while offline)
+ */
+export interface PendingLogout {
+  token: string | null;
+  refreshToken: string | null;
+}
+
 /**
  * Authentication state for UI
  */
 export interface AuthState {
   user: User | null;
+  roles: string[];
+  /** Session expiry as epoch milliseconds, null when unknown or logged out */
+  expiresAt: number | null;
   isLoading: boolean;
   error: AuthError | null;
   isAuthenticated: boolean;
 }
 
+/**
+ * Events emitted by AuthService about the current session
+ */
+export type AuthEvent =
+  | { type: 'login'; user: User }
+  | { type: 'refresh' }
+  | { type: 'sessionExpired' }
+  | { type: 'logout' };
+
+/**
+ * Listener notified of auth events
+ */
+export type AuthEventListener = (event: AuthEvent) => void;
+
 /**
  * Application-specific authentication errors
  */
@@ -53,12 +109,11 @@ export enum AuthErrorType {
 
 /**
  * Structured error object for authentication
+ * Only thrown by the auth flow; other API calls throw ApiError
  */
-export interface AuthError {
-  type: AuthErrorType;
-  message: string;
-  statusCode?: number;
-}
+export type AuthError = ApiErrorBase<AuthErrorType>;
+
+const AUTH_ERROR_TYPES: string[] = Object.values(AuthErrorType);
 
 /**
  * Type guard for checking if error is AuthError
@@ -68,6 +123,7 @@ export const isAuthError = (error: unknown): error is AuthError => {
     typeof error === 'object' &&
     error !== null &&
     'type' in error &&
-    'message' in error
+    'message' in error &&
+    AUTH_ERROR_TYPES.includes(String(error.type))
   );
 };
@@ -0,0 +1,60 @@
+/**
+ * Batch Count Types - Inventory counts built from consecutive scans
+ * @file Draft counts, their items and the payload sent to the backend
+ */
+
+import { EntityRef } from './entity.types';
+import { Gs1Product } from './gs1.types';
+
+/**
+ * One counted item; repeat scans of the same code are merged
+ */
+export interface BatchCountItem {
+  /**
+   * Merge key: the entity, or GTIN and lot for supplier barcodes, otherwise
+   * the raw value
+   */
+  key: string;
+  rawValue: string;
+  entity?: EntityRef;
+  product?: Gs1Product;
+  quantity: number;
+  /** Epoch milliseconds */
+  lastScannedAt: number;
+}
+
+/**
+ * Count in progress, saved as a draft after every change
+ */
+export interface BatchCount {
+  /** Client-generated id, also sent to make submission idempotent */
+  id: string;
+  /** Epoch milliseconds */
+  startedAt: number;
+  /** Newest first */
+  items: BatchCountItem[];
+  /** Keys of scanned items, most recent last, for undo */
+  scanKeys: string[];
+}
+
+export type BatchCountAction =
+  | { type: 'scan'; item: Omit<BatchCountItem, 'quantity'> }
+  | { type: 'setQuantity'; key: string; quantity: number }
+  | { type: 'undoLastScan' };
+
+/**
+ * Body of the count submission
+ */
+export interface BatchCountSubmission {
+  countId: string;
+  /** ISO 8601 */
+  startedAt: string;
+  /** ISO 8601 */
+  submittedAt: string;
+  items: Array<{
+    rawValue: string;
+    entity?: EntityRef;
+    product?: Gs1Product;
+    quantity: number;
+  }>;
+}
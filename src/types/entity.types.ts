@@ -0,0 +1,103 @@
+/**
+ * Entity Types - Kitchen records reachable by link or scan
+ * @file References shared by deep links, QR payloads and entity screens,
+ * and the records the API returns for them
+ */
+
+/**
+ * Kind of record a link or code points to
+ */
+export type EntityType = 'order' | 'equipment' | 'location' | 'lot';
+
+/**
+ * Reference to a single kitchen record
+ */
+export interface EntityRef {
+  type: EntityType;
+  id: string;
+  /** Site (kitchen) the record belongs to, when known */
+  site?: string;
+}
+
+export type OrderStatus = 'pending' | 'received' | 'cancelled';
+
+export interface OrderLine {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface OrderDetails extends EntityRef {
+  type: 'order';
+  reference: string;
+  status: OrderStatus;
+  supplier?: string;
+  /** ISO 8601 */
+  expectedAt?: string;
+  lines: OrderLine[];
+}
+
+export type EquipmentStatus = 'ok' | 'maintenance' | 'out_of_service';
+
+/**
+ * Temperature class of equipment, which sets its allowed HACCP range
+ */
+export type EquipmentKind = 'fridge' | 'freezer' | 'hotHold' | 'other';
+
+export interface EquipmentDetails extends EntityRef {
+  type: 'equipment';
+  name: string;
+  status: EquipmentStatus;
+  kind?: EquipmentKind;
+  /** Last reading, in °C, for cold rooms, fridges and ovens */
+  temperatureC?: number;
+  /** ISO 8601 */
+  lastCheckedAt?: string;
+}
+
+export type StorageType = 'ambient' | 'chilled' | 'frozen';
+
+export interface LocationDetails extends EntityRef {
+  type: 'location';
+  name: string;
+  storageType: StorageType;
+  /** ISO 8601 */
+  lastCleanedAt?: string;
+}
+
+export type LotStatus = 'available' | 'used' | 'discarded';
+
+export interface LotDetails extends EntityRef {
+  type: 'lot';
+  productName: string;
+  lotNumber: string;
+  status: LotStatus;
+  quantity: number;
+  unit: string;
+  supplier?: string;
+  /** Use-by date, ISO 8601 */
+  expiresAt?: string;
+}
+
+/**
+ * Record returned by the API for a scanned or linked entity
+ */
+export type EntityDetails =
+  | OrderDetails
+  | EquipmentDetails
+  | LocationDetails
+  | LotDetails;
+
+/**
+ * Operation available on the detail screen for a given entity type
+ */
+export interface EntityAction {
+  /** Path segment of the action endpoint */
+  id: string;
+  label: string;
+}
+
+/**
+ * Why an entity could not be shown
+ */
+export type EntityLoadError = 'notFound' | 'forbidden' | 'offline' | 'unknown';
@@ -0,0 +1,13 @@
+/**
+ * File part of a multipart body: React Native reads the file at `uri` when
+ * the request is sent
+ */
+interface FormDataFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+interface FormData {
+  append(name: string, value: FormDataFile): void;
+}
@@ -0,0 +1,16 @@
+/**
+ * GraphQL Types - Errors of operations sent through GraphQLClient
+ * @file GraphQL `errors` mapped onto the ApiError model
+ */
+
+import { ApiError } from './api.types';
+
+/**
+ * ApiError for an operation the server answered with GraphQL `errors`
+ * `payload` holds the whole `errors` array
+ */
+export interface GraphQLApiError extends ApiError {
+  /** `extensions.code` of the first error, e.g. `UNAUTHENTICATED` */
+  code?: string;
+  operationName: string;
+}
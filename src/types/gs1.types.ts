@@ -0,0 +1,55 @@
+/**
+ * GS1 Types - Supplier barcodes
+ * @file Element strings decoded from EAN/UPC, GS1-128 and GS1 DataMatrix
+ */
+
+/**
+ * One application identifier (AI) and its data, e.g. AI 10 = lot number
+ */
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+/**
+ * Product data read from a GS1 barcode
+ * Dates are ISO 8601 calendar dates (`YYYY-MM-DD`)
+ */
+export interface Gs1Product {
+  /** GTIN-14, zero-padded for EAN-13, EAN-8 and UPC-A */
+  gtin?: string;
+  /** Serial shipping container code (AI 00) */
+  sscc?: string;
+  /** AI 10 */
+  lot?: string;
+  /** AI 11 */
+  productionDate?: string;
+  /** AI 15 */
+  bestBefore?: string;
+  /** AI 17 */
+  expiry?: string;
+  /** AI 21 */
+  serial?: string;
+  /** All elements in barcode order, including the ones above */
+  elements: Gs1Element[];
+}
+
+export enum Gs1ErrorCode {
+  /** Data that does not start with a supported AI */
+  UNKNOWN_AI = 'UNKNOWN_AI',
+  /** Fixed-length AI cut short, or variable-length AI too long */
+  INVALID_LENGTH = 'INVALID_LENGTH',
+  /** Non-digits in a numeric AI */
+  INVALID_FORMAT = 'INVALID_FORMAT',
+  INVALID_CHECK_DIGIT = 'INVALID_CHECK_DIGIT',
+  INVALID_DATE = 'INVALID_DATE',
+}
+
+export interface Gs1Error {
+  code: Gs1ErrorCode;
+  message: string;
+}
+
+export type Gs1ParseResult =
+  | { ok: true; product: Gs1Product }
+  | { ok: false; error: Gs1Error };
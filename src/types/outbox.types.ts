@@ -0,0 +1,65 @@
+/**
+ * Outbox Types
+ * @file Writes queued on the device while offline and replayed in order
+ */
+
+import { ApiError } from './api.types';
+
+export type OutboxMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Write to send, or to queue when it cannot be sent now
+ */
+export interface OutboxMutation {
+  /** Kind of write, e.g. `entityAction`; selects the conflict resolver */
+  type: string;
+  method: OutboxMethod;
+  /** Path relative to the API base URL */
+  url: string;
+  body?: unknown;
+}
+
+/**
+ * Mutation waiting in a user's outbox
+ */
+export interface OutboxEntry extends OutboxMutation {
+  /** Also sent as the `Idempotency-Key` header, so replays are harmless */
+  id: string;
+  /** Id of the signed-in user who made the write */
+  userId: string;
+  /** Epoch milliseconds */
+  createdAt: number;
+}
+
+/**
+ * Outcome of `OutboxService.send`
+ */
+export type OutboxResult<T> =
+  | { status: 'sent'; data: T }
+  | { status: 'queued'; entry: OutboxEntry };
+
+/**
+ * What to do with a replayed write the server answers with 409 Conflict
+ * - retry: send again once, with a body rebased on the server state
+ * - drop: discard the write; the server state wins
+ */
+export type ConflictResolution =
+  | { action: 'retry'; body: unknown }
+  | { action: 'drop' };
+
+export type ConflictResolver = (
+  entry: OutboxEntry,
+  error: ApiError,
+) => ConflictResolution | Promise<ConflictResolution>;
+
+export enum OutboxErrorType {
+  NOT_SIGNED_IN = 'NOT_SIGNED_IN',
+}
+
+/**
+ * Structured error for writes that cannot be queued
+ */
+export interface OutboxError {
+  type: OutboxErrorType;
+  message: string;
+}
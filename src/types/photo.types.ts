@@ -0,0 +1,79 @@
+/**
+ * Photo Types
+ * @file Photo evidence attached to scans and temperature readings
+ */
+
+import { EntityRef } from './entity.types';
+
+/**
+ * What a photo documents
+ * - scan: the code last scanned (delivery damage, waste)
+ * - temperatureReading: a HACCP reading (corrective action)
+ */
+export type PhotoSubject =
+  | {
+      type: 'scan';
+      rawValue: string;
+      /** Epoch milliseconds */
+      scannedAt: number;
+      entity?: EntityRef;
+    }
+  | {
+      type: 'temperatureReading';
+      readingId: string;
+      equipment: EntityRef;
+    };
+
+/**
+ * Photo file as returned by the camera
+ */
+export interface CapturedPhoto {
+  /** Local file path */
+  path: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compressed copy of a photo, in app storage
+ */
+export interface StoredPhotoFiles {
+  /** `file://` URI of the JPEG sent to the backend */
+  uri: string;
+  /** `file://` URI of a small JPEG shown in photo lists */
+  thumbnailUri: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Photo kept on the device until uploaded
+ */
+export interface PhotoAttachment {
+  id: string;
+  subject: PhotoSubject;
+  /** `file://` URI of the JPEG, deleted once uploaded */
+  uri: string;
+  /** `file://` URI of the thumbnail, kept with the attachment */
+  thumbnailUri: string;
+  width: number;
+  height: number;
+  /** Id of the signed-in user who took the photo */
+  userId: string;
+  /** Epoch milliseconds */
+  takenAt: number;
+  uploaded: boolean;
+}
+
+/**
+ * `metadata` part of the multipart upload, next to the `photo` file part
+ */
+export interface PhotoUploadMetadata {
+  id: string;
+  subject: PhotoSubject;
+  width: number;
+  height: number;
+  userId: string;
+  /** ISO 8601 */
+  takenAt: string;
+}
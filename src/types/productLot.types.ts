@@ -0,0 +1,99 @@
+/**
+ * Product Lot Types
+ * @file Product lots captured from supplier barcodes and their expiry
+ */
+
+/**
+ * Product family, used to pick the expiry warning threshold
+ */
+export type ProductCategory =
+  | 'dairy'
+  | 'meat'
+  | 'fish'
+  | 'produce'
+  | 'bakery'
+  | 'dry'
+  | 'frozen'
+  | 'other';
+
+/**
+ * - active: in stock
+ * - used / discarded: taken out of stock, no longer on the dashboard
+ */
+export type ProductLotStatus = 'active' | 'used' | 'discarded';
+
+/**
+ * Which date the lot expires on
+ * - useBy: AI 17, the product must not be served after it
+ * - bestBefore: AI 15, quality is no longer guaranteed after it
+ */
+export type ExpiryDateKind = 'useBy' | 'bestBefore';
+
+/**
+ * Product lot kept on the device
+ */
+export interface ProductLot {
+  /** `{gtin or sscc}:{lot}:{expiresOn}`, the same for every case of a lot */
+  id: string;
+  gtin?: string;
+  sscc?: string;
+  lot?: string;
+  /** From the backend product catalogue */
+  productName?: string;
+  /** `other` until the backend knows the product */
+  category: ProductCategory;
+  /** YYYY-MM-DD */
+  expiresOn: string;
+  dateKind: ExpiryDateKind;
+  status: ProductLotStatus;
+  /** Epoch milliseconds */
+  updatedAt: number;
+  /** Local change not yet sent to the backend */
+  pendingSync: boolean;
+}
+
+/**
+ * Product lot as exchanged with the backend
+ */
+export interface RemoteProductLot {
+  id: string;
+  gtin?: string;
+  sscc?: string;
+  lot?: string;
+  productName?: string;
+  category?: string;
+  expiresOn: string;
+  dateKind: ExpiryDateKind;
+  status: ProductLotStatus;
+  /** ISO 8601 */
+  updatedAt: string;
+}
+
+/**
+ * Body of the lot sync request: local changes since the last sync
+ */
+export interface ProductLotSyncRequest {
+  changes: RemoteProductLot[];
+}
+
+/**
+ * Lots of the site after the changes were applied
+ */
+export interface ProductLotSyncResponse {
+  lots: RemoteProductLot[];
+}
+
+/**
+ * Days before expiry from which lots of each category are shown
+ */
+export type ExpiryThresholds = Record<ProductCategory, number>;
+
+/**
+ * Active lots that need attention, soonest first
+ */
+export interface ExpiryDashboard {
+  expired: ProductLot[];
+  today: ProductLot[];
+  /** Expiring within the threshold of their category */
+  soon: ProductLot[];
+}
@@ -0,0 +1,118 @@
+/**
+ * QR Payload Types - Content of Keytchens QR codes
+ * @file Parsed payloads and structured parse errors, see docs/QR_PAYLOAD.md
+ */
+
+import { EntityRef } from './entity.types';
+
+/**
+ * Payload format versions
+ * 0 is the legacy app link (`keytchens://orders/42`), 1 is `KT:1:...` and
+ * 2 is the signed `KT:2:...`
+ */
+export type QrPayloadVersion = 0 | 1 | 2;
+
+/**
+ * Back-office signature carried by version 2 payloads
+ */
+export interface QrPayloadSignature {
+  /** Id of the signing key, used to pick the public key */
+  keyId: string;
+  /** Ed25519 signature, base64url */
+  value: string;
+  /** Exact text that was signed */
+  signedContent: string;
+  /** Epoch milliseconds after which the code is no longer accepted */
+  expiresAt?: number;
+}
+
+/**
+ * Decoded content of a Keytchens QR code
+ */
+export interface QrPayload {
+  version: QrPayloadVersion;
+  entity: EntityRef;
+  /** Checksum printed on the code (uppercase hex), when present */
+  checksum?: string;
+  signature?: QrPayloadSignature;
+}
+
+/**
+ * Entity to print on a QR code; the current format requires a site
+ */
+export interface QrPayloadInput {
+  type: EntityRef['type'];
+  id: string;
+  site: string;
+}
+
+/**
+ * Reasons a payload cannot be used
+ */
+export enum QrPayloadErrorCode {
+  /** Not a Keytchens payload at all (e.g. a supplier barcode) */
+  UNKNOWN_FORMAT = 'UNKNOWN_FORMAT',
+  /** Keytchens prefix with a version this app does not read */
+  UNSUPPORTED_VERSION = 'UNSUPPORTED_VERSION',
+  /** Wrong number of fields */
+  MALFORMED = 'MALFORMED',
+  INVALID_TYPE = 'INVALID_TYPE',
+  INVALID_ID = 'INVALID_ID',
+  INVALID_SITE = 'INVALID_SITE',
+  /** Malformed expiry, key id or signature field */
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  CHECKSUM_MISMATCH = 'CHECKSUM_MISMATCH',
+}
+
+export interface QrPayloadError {
+  code: QrPayloadErrorCode;
+  message: string;
+}
+
+export type QrPayloadParseResult =
+  | { ok: true; payload: QrPayload }
+  | { ok: false; error: QrPayloadError };
+
+/**
+ * Public key used to verify signed payloads offline
+ */
+export interface QrSigningKey {
+  keyId: string;
+  /** Ed25519 public key, base64url */
+  publicKey: string;
+}
+
+/**
+ * Keys published by the back office on top of the bundled ones
+ */
+export interface QrKeySet {
+  /** New keys; an id already bundled with the app is ignored */
+  keys: QrSigningKey[];
+  /** Ids that must stop verifying, bundled keys included */
+  revokedKeyIds: string[];
+}
+
+/**
+ * What to do with codes carrying no signature
+ * - reject: only codes with a valid signature are trusted
+ * - legacy: version 0 and 1 labels printed before signing are accepted as
+ *   `unverified` while they are being replaced
+ */
+export type QrUnsignedPolicy = 'reject' | 'legacy';
+
+/**
+ * Outcome of checking a payload signature on the device
+ * - unsigned: no signature; anyone can print such a code, so it is refused
+ * - unverified: version 0 or 1 code accepted by the `legacy` unsigned
+ *   policy; usable, but shown as unverified
+ * - tampered: the signature does not match the content
+ * - expired: valid signature, but the code is past its expiry
+ * - unknownKey: no public key for the key id (not synced yet, or forged)
+ */
+export type QrSignatureVerification =
+  | { status: 'unsigned' }
+  | { status: 'unverified' }
+  | { status: 'valid'; keyId: string }
+  | { status: 'tampered'; keyId: string }
+  | { status: 'expired'; keyId: string; expiresAt: number }
+  | { status: 'unknownKey'; keyId: string };
@@ -0,0 +1,59 @@
+/**
+ * Scan Types - Domain models for code scanning
+ * @file Shared result model produced by the scan pipeline
+ */
+
+import { Gs1Error, Gs1Product } from './gs1.types';
+import {
+  QrPayload,
+  QrPayloadError,
+  QrSignatureVerification,
+} from './qrPayload.types';
+
+/**
+ * Rectangle in camera preview coordinates (dp)
+ */
+export interface ScanRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Code reported by the camera, independent of the camera library
+ */
+export interface ScannedCode {
+  value: string;
+  /** Symbology, e.g. `qr` or `ean-13` */
+  type: string;
+  /** Position in the preview, when reported by the camera */
+  frame?: ScanRect;
+}
+
+/**
+ * What a scanned value was recognised as
+ */
+export type ScanContent =
+  | {
+      kind: 'entity';
+      payload: QrPayload;
+      /** Signature check, see `isTrustedVerification` */
+      verification: QrSignatureVerification;
+    }
+  /** Supplier barcode (EAN/UPC, GS1-128, GS1 DataMatrix) */
+  | { kind: 'gs1'; product: Gs1Product }
+  /** A Keytchens code or GS1 barcode that failed validation */
+  | { kind: 'invalid'; error: QrPayloadError | Gs1Error }
+  | { kind: 'unknown' };
+
+/**
+ * Result delivered to scan subscribers
+ */
+export interface ScanResult {
+  rawValue: string;
+  symbology: string;
+  /** Epoch milliseconds */
+  scannedAt: number;
+  content: ScanContent;
+}
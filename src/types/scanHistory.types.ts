@@ -0,0 +1,60 @@
+/**
+ * Scan History Types - Scans recorded for review during a shift
+ * @file Stored entries, queries and result pages
+ */
+
+import { EntityRef, EntityType } from './entity.types';
+import { Gs1Product } from './gs1.types';
+
+/**
+ * What happened to a scan
+ * - accepted: Keytchens code that could be opened, or valid GS1 barcode
+ * - unverified: unsigned legacy code opened under the `legacy` policy
+ * - untrusted: unsigned code, or signed code that failed verification
+ * - invalid: Keytchens code that failed validation
+ * - unknown: not a Keytchens code
+ */
+export type ScanOutcome =
+  | 'accepted'
+  | 'unverified'
+  | 'untrusted'
+  | 'invalid'
+  | 'unknown';
+
+export interface ScanHistoryEntry {
+  id: string;
+  /** User who scanned; histories are stored per user */
+  userId: string;
+  /** Epoch milliseconds */
+  scannedAt: number;
+  rawValue: string;
+  symbology: string;
+  entity?: EntityRef;
+  /** Supplier barcode data */
+  product?: Gs1Product;
+  outcome: ScanOutcome;
+}
+
+/**
+ * Filters for listing history; all fields are optional and combined
+ */
+export interface ScanHistoryQuery {
+  /** Case-insensitive match on the raw value, entity id, site, GTIN or lot */
+  search?: string;
+  entityType?: EntityType;
+  /** Inclusive lower bound, epoch milliseconds */
+  from?: number;
+  /** Exclusive upper bound, epoch milliseconds */
+  to?: number;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * One page of matching entries, newest first
+ */
+export interface ScanHistoryPage {
+  entries: ScanHistoryEntry[];
+  total: number;
+  hasMore: boolean;
+}
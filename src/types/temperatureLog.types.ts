@@ -0,0 +1,76 @@
+/**
+ * Temperature Log Types
+ * @file HACCP temperature readings of fridges, freezers and hot-hold units
+ */
+
+import { EntityRef, EquipmentKind } from './entity.types';
+
+/**
+ * Equipment kinds that have an allowed temperature range
+ */
+export type LoggedEquipmentKind = Exclude<EquipmentKind, 'other'>;
+
+/**
+ * Allowed temperatures, in °C; a missing bound is unlimited
+ */
+export interface TemperatureRange {
+  minC?: number;
+  maxC?: number;
+}
+
+/**
+ * Reading entered on the temperature form
+ */
+export interface TemperatureReadingInput {
+  equipment: EntityRef;
+  equipmentKind: LoggedEquipmentKind;
+  temperatureC: number;
+  /** Required when the reading is out of range */
+  correctiveAction?: string;
+}
+
+/**
+ * Reading kept on the device until uploaded
+ */
+export interface TemperatureReading {
+  id: string;
+  equipment: EntityRef;
+  equipmentKind: LoggedEquipmentKind;
+  temperatureC: number;
+  /** Range in force when the reading was taken */
+  range: TemperatureRange;
+  withinRange: boolean;
+  correctiveAction?: string;
+  /** Id of the signed-in user who took the reading */
+  userId: string;
+  /** Epoch milliseconds */
+  recordedAt: number;
+  /** Sent to the backend */
+  uploaded: boolean;
+}
+
+/**
+ * Body of the upload request
+ */
+export interface TemperatureReadingUpload {
+  readings: Array<
+    Omit<TemperatureReading, 'recordedAt' | 'uploaded'> & {
+      /** ISO 8601 */
+      recordedAt: string;
+    }
+  >;
+}
+
+export enum TemperatureLogErrorType {
+  NOT_SIGNED_IN = 'NOT_SIGNED_IN',
+  INVALID_TEMPERATURE = 'INVALID_TEMPERATURE',
+  CORRECTIVE_ACTION_REQUIRED = 'CORRECTIVE_ACTION_REQUIRED',
+}
+
+/**
+ * Structured error for readings that cannot be recorded
+ */
+export interface TemperatureLogError {
+  type: TemperatureLogErrorType;
+  message: string;
+}